@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { ViewState, ValidationReport, UserProfile, CustomModelConfig } from './types';
+import type { ViewState, ValidationReport, UserProfile, CustomModelConfig, AnalysisProgress, AnalysisOptions, Attachment, EditableSection, InterviewUpload, SurveyResponse } from './types';
 import { MOCK_REPORT } from './types';
 import { validateIdea } from './services/geminiService';
 import { api } from './services/api'; 
@@ -8,6 +8,8 @@ import { InputView } from './views/InputView';
 import { LoadingView } from './views/LoadingView';
 import { ReportView } from './views/ReportView';
 import { HistoryView } from './views/HistoryView';
+import { ProjectView } from './views/ProjectView';
+import { ComparisonView } from './views/ComparisonView';
 import { PricingView } from './views/PricingView';
 import { SettingsView } from './views/SettingsView';
 import { AuthView } from './views/AuthView';
@@ -44,6 +46,12 @@ export const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [history, setHistory] = useState<ValidationReport[]>([]);
   const [activeCustomModelId, setActiveCustomModelId] = useState<string | undefined>();
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress[]>([]);
+  // Report whose idea is being re-run as a new version, and the idea project being viewed
+  const [refineFrom, setRefineFrom] = useState<ValidationReport | null>(null);
+  const [selectedIdeaId, setSelectedIdeaId] = useState<string | null>(null);
+  const [comparedReports, setComparedReports] = useState<ValidationReport[]>([]);
+  const [compareReturnView, setCompareReturnView] = useState<ViewState>('history');
   
   const [credits, setCredits] = useState<number>(user?.credits || 1);
   const [isLifetime, setIsLifetime] = useState<boolean>(user?.isPro || false);
@@ -56,6 +64,7 @@ export const App: React.FC = () => {
   const [isTermsOpen, setTermsOpen] = useState(false);
   
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   // --- Effects ---
 
@@ -116,6 +125,14 @@ export const App: React.FC = () => {
     }
   }, []);
 
+  // 4. Leaving the loading screen cancels the running analysis
+  useEffect(() => {
+    if (currentView !== 'loading') {
+      analysisAbortRef.current?.abort();
+      analysisAbortRef.current = null;
+    }
+  }, [currentView]);
+
   // --- Handlers ---
 
   const verifyBackendPayment = async (sessionId: string) => {
@@ -220,6 +237,7 @@ export const App: React.FC = () => {
   };
 
   const handleStart = () => {
+    setRefineFrom(null);
     if (!user) {
         setCurrentView('auth');
         return;
@@ -233,22 +251,124 @@ export const App: React.FC = () => {
     setCurrentView('input');
   };
 
+  const handleRefine = (r: ValidationReport) => {
+    handleStart();
+    setRefineFrom(r);
+  };
+
+  // Runs the same idea again as a new version of its project, keeping its lens and vertical unless `options` changes them
+  // (another lens, or the evidence of its experiments). Documents are analyzed again from the text extracted from them
+  // the first time, since the original files aren't kept: the backend loads it for saved reports (which only carry
+  // excerpts), local reports re-send it.
+  // An ensemble report is rerun with the same models while they are all still in the settings, otherwise with one model.
+  const handleRerun = (r: ValidationReport, options: AnalysisOptions) => {
+    const customModels = user?.preferences?.customModels || [];
+    const ensembleModels = (r.ensemble?.modelIds || []).map(id => customModels.find(m => m.id === id));
+    const isEnsemble = ensembleModels.length > 1 && ensembleModels.every(Boolean);
+    if (r.ensemble && !isEnsemble && !window.confirm(`The models of this ensemble can't all be found in your settings, so it will be rerun with ${activeCustomModel ? `${activeCustomModel.provider} - ${activeCustomModel.model}` : 'ZauriScore'} only. Continue?`)) {
+        return;
+    }
+    if (!isEnsemble && !activeCustomModel && !isLifetime && credits <= 0) {
+        setCurrentView('pricing');
+        return;
+    }
+    const documents = r.sourceDocuments || [];
+    const attachments: Attachment[] = documents.filter(document => !document.excerpt).map(document => ({
+        name: document.name,
+        mimeType: 'text/plain',
+        data: btoa(Array.from(new TextEncoder().encode(document.text), byte => String.fromCharCode(byte)).join(''))
+    }));
+    const documentsFrom = documents.some(document => document.excerpt) ? r.id : undefined;
+    handleSubmitIdea(r.originalIdea || '', attachments, isEnsemble ? undefined : activeCustomModel, {
+        ideaId: r.ideaId, lens: r.lens, vertical: r.vertical, documentsFrom,
+        ...(isEnsemble && { ensembleModels: ensembleModels as CustomModelConfig[] }),
+        ...options
+    });
+  };
+
+  // Applies `change` to the latest copy of a report, on screen and in the history, rather than to one captured before
+  // an await, so a result that arrives after other changes were made merges into them. Guests keep the history locally.
+  const updateReport = (reportId: string, change: (current: ValidationReport) => Partial<ValidationReport>) => {
+    const apply = (h: ValidationReport) => h.id === reportId ? { ...h, ...change(h) } : h;
+    setReport(prev => prev && apply(prev));
+    setHistory(prev => {
+      const updatedHistory = prev.map(apply);
+      if (!user) localStorage.setItem('zauriscore_history', JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
+  };
+
+  // Keeps translated copies on the report, one per language, so anyone opening it later can switch languages
+  const handleTranslateReport = async (r: ValidationReport, language: string) => {
+    const translation = await api.translateReport(r, language, user?.email, activeCustomModel);
+    updateReport(r.id, current => ({ translations: [...(current.translations || []).filter(t => t.language !== language), translation] }));
+    return translation;
+  };
+
+  // Edited sections replace the estimated ones. Reports that aren't in the history (the example) are only updated in memory.
+  const handleSaveSection = async <S extends EditableSection>(r: ValidationReport, section: S, value: NonNullable<ValidationReport[S]>) => {
+    const isStored = history.some(h => h.id === r.id);
+    const edited = user && isStored ? await api.updateReportSection(r.id, user.email, section, value) : { ...value, editedAt: Date.now() };
+    updateReport(r.id, () => ({ [section]: edited }));
+  };
+
+  // Research is saved with the report on the backend when signed in; guests keep it in the local history.
+  // What comes back was built from the report as it was sent (or saved), so only its own change is merged
+  // into the current copy: the new script, the new interviews, or results for the survey they were matched to.
+  const handleGenerateInterviewScript = async (r: ValidationReport) => {
+    const { script } = await api.generateInterviewScript(r, user?.email, activeCustomModel);
+    updateReport(r.id, current => ({ interviewKit: { interviews: [], ...current.interviewKit, script } }));
+  };
+
+  const handleAddInterview = async (r: ValidationReport, interview: InterviewUpload) => {
+    const { interviews } = await api.addInterview(r, interview, user?.email, activeCustomModel);
+    updateReport(r.id, current => {
+      const known = new Set((current.interviewKit?.interviews || []).map(i => i.id));
+      const added = interviews.filter(i => !known.has(i.id) && !(r.interviewKit?.interviews || []).some(old => old.id === i.id));
+      return { interviewKit: { ...current.interviewKit, interviews: [...(current.interviewKit?.interviews || []), ...added] } };
+    });
+  };
+
+  const handleDeleteInterview = async (r: ValidationReport, interviewId: string) => {
+    if (user && history.some(h => h.id === r.id)) await api.deleteInterview(r.id, interviewId, user.email);
+    updateReport(r.id, current => ({
+      interviewKit: { ...current.interviewKit, interviews: (current.interviewKit?.interviews || []).filter(i => i.id !== interviewId) }
+    }));
+  };
+
+  const handleGenerateSurvey = async (r: ValidationReport) => {
+    const survey = await api.generateSurvey(r, user?.email, activeCustomModel);
+    updateReport(r.id, () => ({ survey }));
+  };
+
+  const handleImportSurveyResponses = async (r: ValidationReport, fileName: string, responses: SurveyResponse[]) => {
+    const { createdAt, results } = await api.importSurveyResponses(r, fileName, responses, user?.email);
+    updateReport(r.id, current => current.survey?.createdAt === createdAt ? { survey: { ...current.survey, results } } : {});
+  };
+
   const handleExample = () => {
     setReport(MOCK_REPORT);
     setOriginalIdea(MOCK_REPORT.originalIdea || "");
     setCurrentView('report');
   };
 
-  const handleSubmitIdea = async (idea: string, attachment?: { mimeType: string, data: string }, customModel?: CustomModelConfig) => {
+  const handleSubmitIdea = async (idea: string, attachments: Attachment[] = [], customModel?: CustomModelConfig, options: AnalysisOptions = {}) => {
     setCurrentView('loading');
+    setAnalysisProgress([]);
     setError(null);
     setOriginalIdea(idea);
-    setActiveCustomModelId(customModel?.id);
+    // Ensemble reports are discussed in chat with the first model of the ensemble
+    setActiveCustomModelId(customModel?.id || options.ensembleModels?.[0]?.id);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     
     try {
       // Pass user email to secure backend to enforce server-side credit check
-      // Also pass custom model to route via client API if applicable
-      const result = await validateIdea(idea, attachment, user?.email, customModel);
+      // Also pass custom model so the backend routes the call to that provider
+      const result = await validateIdea(idea, attachments, user?.email, customModel, (progress) => {
+        setAnalysisProgress(prev => [...prev, progress]);
+      }, { language: user?.preferences?.reportLanguage, ...options }, controller.signal);
+      analysisAbortRef.current = null;
       
       const finalReport: ValidationReport = {
           ...result,
@@ -263,10 +383,12 @@ export const App: React.FC = () => {
       // If we used a custom model, we don't deduct backend credits to save the user money.
       // But we will still deduct a software credit locally if it went through the backend.
       // Assuming custom local models don't cost server credits:
-      if (!customModel) {
+      if (!customModel && !options.ensembleModels) {
+        // Stability mode charges one credit per sample that succeeded
+        const creditCost = finalReport.stability?.samples ?? 1;
         if (user) {
            if (!isLifetime) {
-               const newCredits = credits - 1;
+               const newCredits = credits - creditCost;
                setCredits(newCredits);
                const updatedUser = { ...user, credits: newCredits };
                setUser(updatedUser);
@@ -277,7 +399,7 @@ export const App: React.FC = () => {
             localStorage.setItem('zauriscore_history', JSON.stringify(guestHistory));
             
             if (!isLifetime) {
-                const newCredits = credits - 1;
+                const newCredits = credits - creditCost;
                 setCredits(newCredits);
                 localStorage.setItem('zauriscore_credits', newCredits.toString());
             }
@@ -286,6 +408,8 @@ export const App: React.FC = () => {
 
       setCurrentView('report');
     } catch (e: any) {
+      // Cancelled by leaving the loading screen; a run the server kept going shows up in history on the next sync
+      if (controller.signal.aborted) return;
       console.error(e);
       let errorMessage = e.message || "Something went wrong.";
       if (errorMessage.includes("API Key is missing")) {
@@ -325,6 +449,21 @@ export const App: React.FC = () => {
       setCurrentView('report');
   };
 
+  const openProject = (ideaId: string) => {
+      setSelectedIdeaId(ideaId);
+      setCurrentView('project');
+  };
+
+  const openComparison = (reports: ValidationReport[]) => {
+      // Oldest first, so each column is diffed against the one before it
+      setComparedReports([...reports].sort((a, b) => a.createdAt - b.createdAt));
+      setCompareReturnView(currentView);
+      setCurrentView('compare');
+  };
+
+  // Versions of an idea project, oldest first (history is newest first)
+  const getProjectVersions = (ideaId: string) => history.filter(r => r.ideaId === ideaId).reverse();
+
   if (isVerifyingPayment) {
       return (
           <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50">
@@ -455,10 +594,10 @@ export const App: React.FC = () => {
             />
         )}
         {currentView === 'input' && (
-          <InputView user={user} onBack={() => setCurrentView(user ? 'dashboard' : 'landing')} onSubmit={handleSubmitIdea} />
+          <InputView user={user} onBack={() => setCurrentView(user ? 'dashboard' : 'landing')} onSubmit={handleSubmitIdea} refineFrom={refineFrom} />
         )}
         {currentView === 'loading' && (
-          <LoadingView />
+          <LoadingView progress={analysisProgress} />
         )}
         {currentView === 'report' && report && (
           <ReportView 
@@ -466,6 +605,19 @@ export const App: React.FC = () => {
             onReset={() => { setReport(null); handleStart(); }} 
             onUpgrade={() => setCurrentView('pricing')} 
             onChat={() => setCurrentView('chat')}
+            onRefine={() => handleRefine(report)}
+            onRerunWithLens={lens => handleRerun(report, { lens })}
+            onTranslate={language => handleTranslateReport(report, language)}
+            onSaveSection={(section, value) => handleSaveSection(report, section, value)}
+            onGenerateInterviewScript={() => handleGenerateInterviewScript(report)}
+            onAddInterview={interview => handleAddInterview(report, interview)}
+            onDeleteInterview={interviewId => handleDeleteInterview(report, interviewId)}
+            onGenerateSurvey={() => handleGenerateSurvey(report)}
+            onImportSurveyResponses={(fileName, responses) => handleImportSurveyResponses(report, fileName, responses)}
+            onViewProject={report.ideaId && getProjectVersions(report.ideaId).length > 1 ? () => openProject(report.ideaId!) : undefined}
+            onRescoreWithEvidence={user && history.some(h => h.id === report.id) ? () => handleRerun(report, { evidenceFrom: report.id }) : undefined}
+            customModel={activeCustomModel}
+            email={user?.email}
           />
         )}
         {currentView === 'chat' && report && (
@@ -473,6 +625,8 @@ export const App: React.FC = () => {
              report={report} 
              originalIdea={originalIdea}
              customModel={activeCustomModel}
+             language={user?.preferences?.reportLanguage}
+             email={user?.email}
              onBack={() => setCurrentView('report')} 
           />
         )}
@@ -480,10 +634,28 @@ export const App: React.FC = () => {
             <HistoryView 
                 history={history} 
                 onSelect={loadReport}
+                onSelectProject={openProject}
+                onCompare={openComparison}
                 onClear={() => handleDeleteData()} 
                 onBack={() => setCurrentView(user ? 'dashboard' : 'landing')}
             />
         )}
+        {currentView === 'project' && selectedIdeaId && (
+            <ProjectView
+                versions={getProjectVersions(selectedIdeaId)}
+                onSelect={loadReport}
+                onRefine={handleRefine}
+                onCompare={openComparison}
+                onBack={() => setCurrentView('history')}
+            />
+        )}
+        {currentView === 'compare' && comparedReports.length > 1 && (
+            <ComparisonView
+                reports={comparedReports}
+                onSelect={loadReport}
+                onBack={() => setCurrentView(compareReturnView)}
+            />
+        )}
         {currentView === 'pricing' && (
             <PricingView onPurchase={handleSimulatedPurchase} onBack={() => setCurrentView(user ? 'dashboard' : 'landing')} />
         )}
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Assumption, AssumptionInfo, AssumptionUnit } from '../types';
+import { Button } from './Button';
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+
+interface AssumptionFieldProps {
+  info: AssumptionInfo<string>;
+  assumption: Assumption;
+  currency: string;
+  onChange: (change: Partial<Assumption>) => void;
+}
+
+// The same checks the server applies before saving an edit
+export const isValidAssumption = ({ value, source }: Assumption, unit: AssumptionUnit) =>
+  Number.isFinite(value) && value >= 0 && (unit !== 'percent' || value <= 100) && Boolean(source.trim());
+
+// An editable number with its source underneath
+export const AssumptionField: React.FC<AssumptionFieldProps> = ({ info: { label, unit, description }, assumption, currency, onChange }) => (
+  <div>
+    <label className="flex justify-between items-baseline text-sm font-semibold text-slate-900 mb-1" title={description}>
+      {label}
+      <span className="text-xs font-normal text-slate-400">{unit === 'percent' ? '%' : unit === 'currency' ? currency : 'count'}</span>
+    </label>
+    <input
+      type="number"
+      min={0}
+      max={unit === 'percent' ? 100 : undefined}
+      step="any"
+      value={Number.isFinite(assumption.value) ? assumption.value : ''}
+      onChange={(e) => onChange({ value: e.target.value === '' ? NaN : Number(e.target.value) })}
+      className="w-full bg-white border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2"
+    />
+    <input
+      type="text"
+      value={assumption.source}
+      onChange={(e) => onChange({ source: e.target.value })}
+      placeholder="Source"
+      className="w-full mt-1 bg-transparent border-0 border-b border-transparent hover:border-slate-200 focus:border-slate-400 focus:ring-0 text-xs text-slate-500 px-0 py-1"
+    />
+  </div>
+);
+
+// Edits to a saved section: the draft follows the saved value whenever that changes
+export const useAssumptionDraft = <T extends { editedAt?: number }>(saved: T, onSave: (value: T) => Promise<void>) => {
+  const [draft, setDraft] = useState(saved);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(saved);
+    setSaveError(null);
+  }, [saved]);
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+    } catch (e: any) {
+      setSaveError(e.message || "Failed to save the assumptions.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { draft, setDraft, isDirty: JSON.stringify(draft) !== JSON.stringify(saved), isSaving, saveError, save, reset: () => setDraft(saved) };
+};
+
+interface AssumptionSaveBarProps {
+  editedAt?: number;
+  isDirty: boolean;
+  isValid: boolean;
+  isSaving: boolean;
+  saveError: string | null;
+  onSave: () => void;
+  onReset: () => void;
+}
+
+export const AssumptionSaveBar: React.FC<AssumptionSaveBarProps> = ({ editedAt, isDirty, isValid, isSaving, saveError, onSave, onReset }) => (
+  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-6 pt-4 border-t border-slate-100">
+    <p className="text-xs text-slate-400">
+      {saveError ? <span className="text-rose-600">{saveError}</span>
+        : editedAt ? `Assumptions edited on ${new Date(editedAt).toLocaleDateString()}.`
+        : 'Estimated by the analysis. Edit any assumption to recalculate.'}
+    </p>
+    {/* Left out of the PDF export */}
+    {isDirty && (
+      <div data-html2canvas-ignore className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={onReset} disabled={isSaving} className="gap-2">
+          <RotateCcw size={14} /> Reset
+        </Button>
+        <Button size="sm" onClick={onSave} disabled={isSaving || !isValid} className="gap-2">
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save
+        </Button>
+      </div>
+    )}
+  </div>
+);
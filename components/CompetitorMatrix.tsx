@@ -0,0 +1,104 @@
+import React from 'react';
+import { CompetitorMatrix as CompetitorMatrixData, FeatureSupport } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { downloadCsv } from '../services/csv';
+import { Check, Minus, X, Download } from 'lucide-react';
+
+interface CompetitorMatrixProps {
+  matrix: CompetitorMatrixData;
+}
+
+const SUPPORT_LABELS: Record<FeatureSupport, string> = { yes: 'Yes', partial: 'Partial', no: 'No' };
+
+const SupportCell: React.FC<{ support: FeatureSupport }> = ({ support }) => (
+  <span title={SUPPORT_LABELS[support]} className="inline-flex justify-center">
+    {support === 'yes' ? <Check size={16} className="text-emerald-600" />
+      : support === 'partial' ? <Minus size={16} className="text-amber-500" />
+      : <X size={16} className="text-slate-300" />}
+  </span>
+);
+
+const BulletList: React.FC<{ items: string[] }> = ({ items }) => (
+  <ul className="space-y-1">
+    {items.map((item, i) => (
+      <li key={i} className="flex gap-2"><span className="text-slate-300">–</span>{item}</li>
+    ))}
+  </ul>
+);
+
+// Both tables in one sheet: the profiles first, then the feature grid
+const exportCsv = (matrix: CompetitorMatrixData) => {
+  downloadCsv('competitor-matrix.csv', [
+    ['Competitor', 'Target segment', 'Pricing model', 'Key features', 'Strengths', 'Weaknesses', 'Positioning'],
+    ...matrix.competitors.map(c => [c.name, c.targetSegment, c.pricingModel, c.keyFeatures.join('; '), c.strengths.join('; '), c.weaknesses.join('; '), c.positioning]),
+    [],
+    ['Feature', 'Your idea', ...matrix.competitors.map(c => c.name)],
+    ...matrix.features.map(f => [f.feature, SUPPORT_LABELS[f.idea], ...f.competitors.map(s => SUPPORT_LABELS[s])])
+  ]);
+};
+
+export const CompetitorMatrix: React.FC<CompetitorMatrixProps> = ({ matrix }) => (
+  <div className="grid grid-cols-1 gap-6">
+    <div className="flex justify-end">
+      <Button variant="outline" size="sm" onClick={() => exportCsv(matrix)} className="gap-2">
+        <Download size={16} /> Export CSV
+      </Button>
+    </div>
+
+    <Card title="Feature Comparison">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="text-left font-semibold text-slate-900 py-2 pr-4">Feature</th>
+              <th className="font-semibold text-slate-900 py-2 px-3 bg-slate-50">Your idea</th>
+              {matrix.competitors.map(c => (
+                <th key={c.name} className="font-semibold text-slate-700 py-2 px-3 whitespace-nowrap">{c.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.features.map(row => (
+              <tr key={row.feature} className="border-b border-slate-100 last:border-0">
+                <td className="py-2 pr-4 text-slate-700">{row.feature}</td>
+                <td className="py-2 px-3 text-center bg-slate-50"><SupportCell support={row.idea} /></td>
+                {row.competitors.map((support, i) => (
+                  <td key={i} className="py-2 px-3 text-center"><SupportCell support={support} /></td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+
+    {matrix.competitors.map(c => (
+      <Card key={c.name} title={c.name}>
+        <p className="text-sm text-slate-700 mb-4">{c.positioning}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-slate-700">
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Target segment</h4>
+            <p>{c.targetSegment}</p>
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Pricing model</h4>
+            <p>{c.pricingModel}</p>
+          </div>
+          <div className="sm:col-span-2">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Key features</h4>
+            <BulletList items={c.keyFeatures} />
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-emerald-600 uppercase tracking-wide mb-1">Strengths</h4>
+            <BulletList items={c.strengths} />
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-rose-500 uppercase tracking-wide mb-1">Weaknesses</h4>
+            <BulletList items={c.weaknesses} />
+          </div>
+        </div>
+      </Card>
+    ))}
+  </div>
+);
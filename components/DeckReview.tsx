@@ -0,0 +1,93 @@
+import React from 'react';
+import { DeckReview as DeckReviewData, DECK_SECTIONS } from '../types';
+import { Card } from './Card';
+import { CheckCircle2, CircleX, AlertTriangle } from 'lucide-react';
+
+interface DeckReviewProps {
+  review: DeckReviewData;
+}
+
+const getClarityColor = (clarity: number) =>
+  clarity >= 8 ? 'bg-emerald-100 text-emerald-800 border-emerald-200'
+    : clarity <= 4 ? 'bg-rose-100 text-rose-800 border-rose-200'
+    : 'bg-amber-100 text-amber-800 border-amber-200';
+
+const sectionLabel = (section: string) => DECK_SECTIONS.find(s => s.id === section)?.label || 'Other';
+
+export const DeckReview: React.FC<DeckReviewProps> = ({ review }) => {
+  const missingSections = review.structure.filter(s => s.pages.length === 0);
+  // Sections whose first slide comes before the previous section's first slide
+  const presentSections = review.structure.filter(s => s.pages.length > 0);
+  const outOfOrder = presentSections.some((s, i) => i > 0 && s.pages[0] < presentSections[i - 1].pages[0]);
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card title={`Deck Structure · ${review.documentName}`}>
+        <p className="text-sm text-slate-700 mb-6">{review.summary}</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {review.structure.map(({ section, pages }) => {
+            const { label, description } = DECK_SECTIONS.find(s => s.id === section)!;
+            const present = pages.length > 0;
+            return (
+              <div key={section} className={`p-3 rounded-lg border ${present ? 'bg-emerald-50 border-emerald-100' : 'bg-rose-50 border-rose-100'}`}>
+                <div className="flex items-center gap-1.5 text-sm font-semibold text-slate-900">
+                  {present ? <CheckCircle2 size={14} className="text-emerald-600" /> : <CircleX size={14} className="text-rose-500" />}
+                  {label}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  {present ? `Slide${pages.length > 1 ? 's' : ''} ${pages.join(', ')}` : description}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+        {(missingSections.length > 0 || outOfOrder) && (
+          <ul className="space-y-2 mt-4 pt-4 border-t border-slate-100">
+            {missingSections.length > 0 && (
+              <li className="flex gap-2 items-start text-sm text-slate-700">
+                <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                Missing: {missingSections.map(s => sectionLabel(s.section)).join(', ')}.
+              </li>
+            )}
+            {outOfOrder && (
+              <li className="flex gap-2 items-start text-sm text-slate-700">
+                <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                Sections are out of the usual order ({DECK_SECTIONS.map(s => s.label).join(' → ')}).
+              </li>
+            )}
+          </ul>
+        )}
+      </Card>
+
+      {review.slides.map(slide => (
+        <Card key={slide.page}>
+          <div className="flex justify-between items-start gap-4 mb-4">
+            <div>
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wide">Slide {slide.page} · {sectionLabel(slide.section)}</div>
+              <p className="text-sm font-medium text-slate-900 mt-1">{slide.purpose}</p>
+            </div>
+            <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold border ${getClarityColor(slide.clarity)}`}>
+              Clarity {slide.clarity}/10
+            </span>
+          </div>
+          {slide.missing.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">What's missing</h4>
+              <ul className="space-y-1">
+                {slide.missing.map((item, i) => (
+                  <li key={i} className="text-sm text-slate-700 flex gap-2">
+                    <span className="text-slate-300">–</span>{item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Suggested rewrite</h4>
+            <p className="text-sm text-slate-700 whitespace-pre-line">{slide.suggestedRewrite}</p>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+};
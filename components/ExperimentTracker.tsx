@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CustomModelConfig, EvidenceKind, Experiment, ExperimentStatus, ExperimentUpdate, EXPERIMENT_STATUSES } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { api } from '../services/api';
+import { readFile } from '../services/files';
+import { AlertTriangle, CalendarClock, FlaskConical, Hash, Loader2, Paperclip, RefreshCcw, StickyNote, X } from 'lucide-react';
+
+interface ExperimentTrackerProps {
+  reportId: string;
+  email: string; // Owner of the report
+  customModel?: CustomModelConfig;
+  onRescore: () => void; // Runs a new version of the idea with the finished experiments as evidence
+}
+
+const STATUS_COLORS: Record<ExperimentStatus, string> = {
+  planned: 'bg-slate-50 text-slate-700 border-slate-200',
+  running: 'bg-blue-50 text-blue-700 border-blue-100',
+  validated: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  invalidated: 'bg-rose-50 text-rose-700 border-rose-200'
+};
+
+const EVIDENCE_KINDS: { id: EvidenceKind; label: string; icon: typeof StickyNote }[] = [
+  { id: 'note', label: 'Note', icon: StickyNote },
+  { id: 'number', label: 'Number', icon: Hash },
+  { id: 'file', label: 'File', icon: Paperclip }
+];
+
+const isFinished = (status: ExperimentStatus) => EXPERIMENT_STATUSES.some(s => s.id === status && s.finished);
+
+// <input type="date"> works in local dates; due dates are kept as timestamps
+const toDateInput = (timestamp?: number) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const inputClassName = "w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2";
+
+const EvidenceForm: React.FC<{ experiment: Experiment; email: string; onAdded: (experiment: Experiment) => void }> = ({ experiment, email, onAdded }) => {
+  const [kind, setKind] = useState<EvidenceKind>('note');
+  const [text, setText] = useState('');
+  const [value, setValue] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const add = async (file?: File) => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      const evidence = await api.addEvidence(experiment.id, kind === 'file'
+        ? { kind, attachment: await readFile(file!) }
+        : { kind, text, ...(kind === 'number' && { value: Number(value) }) }, email);
+      onAdded({ ...experiment, evidence: [...experiment.evidence, evidence] });
+      setText('');
+      setValue('');
+    } catch (e: any) {
+      setError(e.message || "Failed to add evidence.");
+    } finally {
+      setIsAdding(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const canAdd = kind === 'note' ? Boolean(text.trim()) : Boolean(text.trim()) && value.trim() !== '' && Number.isFinite(Number(value));
+
+  return (
+    <div className="pt-3">
+      <div className="flex gap-1 mb-2">
+        {EVIDENCE_KINDS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setKind(id)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${kind === id ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+          >
+            <Icon size={12} /> {label}
+          </button>
+        ))}
+      </div>
+      {kind === 'file' ? (
+        <div className="flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".pdf,.docx,.rtf,.txt,.md,.csv" className="hidden" onChange={(e) => e.target.files?.[0] && add(e.target.files[0])} />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isAdding} className="gap-2">
+            {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Paperclip size={14} />} Attach transcript, results or notes
+          </Button>
+          <span className="text-xs text-slate-400">PDF, DOCX, RTF or text</span>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          {kind === 'note' ? (
+            <textarea value={text} onChange={(e) => setText(e.target.value)} rows={2} placeholder="What did you learn?" className={inputClassName} />
+          ) : (
+            <>
+              <input value={text} onChange={(e) => setText(e.target.value)} placeholder="What was measured, e.g. Pre-orders" className={inputClassName} />
+              <input value={value} onChange={(e) => setValue(e.target.value)} type="number" step="any" placeholder="Value" className={`${inputClassName} max-w-[8rem]`} />
+            </>
+          )}
+          <Button size="sm" onClick={() => add()} disabled={isAdding || !canAdd} className="shrink-0 self-start">
+            {isAdding ? <Loader2 size={14} className="animate-spin" /> : 'Add'}
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-xs text-rose-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+const ExperimentCard: React.FC<{ experiment: Experiment; index: number; email: string; onChange: (experiment: Experiment) => void }> = ({ experiment, index, email, onChange }) => {
+  const [hypothesis, setHypothesis] = useState(experiment.hypothesis);
+  const [metric, setMetric] = useState(experiment.metric);
+  const [error, setError] = useState<string | null>(null);
+  const isOverdue = experiment.dueDate !== undefined && experiment.dueDate < Date.now() && !isFinished(experiment.status);
+
+  const update = async (change: ExperimentUpdate) => {
+    setError(null);
+    try {
+      const updated = await api.updateExperiment(experiment.id, change, email);
+      onChange({ ...updated, evidence: experiment.evidence });
+    } catch (e: any) {
+      setError(e.message || "Update failed.");
+      setHypothesis(experiment.hypothesis);
+      setMetric(experiment.metric);
+    }
+  };
+
+  const deleteEvidence = async (evidenceId: string) => {
+    setError(null);
+    try {
+      await api.deleteEvidence(evidenceId, email);
+      onChange({ ...experiment, evidence: experiment.evidence.filter(e => e.id !== evidenceId) });
+    } catch (e: any) {
+      setError(e.message || "Delete failed.");
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-4">
+        <p className="text-xs text-slate-500"><span className="font-bold text-slate-400">Step {index + 1}:</span> {experiment.step}</p>
+        <div className="flex items-center gap-2 shrink-0">
+          <label className={`flex items-center gap-1 text-xs ${isOverdue ? 'text-amber-600 font-semibold' : 'text-slate-500'}`} title={isOverdue ? 'Overdue' : 'Due date'}>
+            <CalendarClock size={14} />
+            <input
+              type="date"
+              value={toDateInput(experiment.dueDate)}
+              onChange={(e) => update({ dueDate: fromDateInput(e.target.value) })}
+              className="bg-transparent border-0 p-0 text-xs focus:ring-0"
+            />
+          </label>
+          <select
+            value={experiment.status}
+            onChange={(e) => update({ status: e.target.value as ExperimentStatus })}
+            className={`text-xs font-semibold rounded-full border px-2 py-1 focus:ring-slate-900 ${STATUS_COLORS[experiment.status]}`}
+          >
+            {EXPERIMENT_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Hypothesis</h4>
+          <textarea
+            value={hypothesis}
+            onChange={(e) => setHypothesis(e.target.value)}
+            onBlur={() => hypothesis.trim() !== experiment.hypothesis && update({ hypothesis })}
+            rows={2}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Success metric</h4>
+          <textarea
+            value={metric}
+            onChange={(e) => setMetric(e.target.value)}
+            onBlur={() => metric.trim() !== experiment.metric && update({ metric })}
+            rows={2}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">Evidence</h4>
+        {experiment.evidence.length === 0 ? (
+          <p className="text-xs text-slate-400">Nothing collected yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {experiment.evidence.map(item => {
+              const Icon = EVIDENCE_KINDS.find(k => k.id === item.kind)?.icon || StickyNote;
+              return (
+                <li key={item.id} className="flex gap-2 items-start text-sm text-slate-700 group">
+                  <Icon size={14} className="text-slate-400 shrink-0 mt-0.5" />
+                  <span className="flex-1 min-w-0">
+                    {item.kind === 'number' ? <><span className="font-semibold">{item.text}:</span> {item.value}</>
+                      : item.kind === 'file' ? <><span className="font-semibold">{item.fileName}</span> <span className="text-xs text-slate-400 line-clamp-1">{item.text}</span></>
+                      : item.text}
+                  </span>
+                  <button type="button" onClick={() => deleteEvidence(item.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100" title="Remove">
+                    <X size={14} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <EvidenceForm experiment={experiment} email={email} onAdded={onChange} />
+      </div>
+      {error && <p className="text-xs text-rose-600 mt-2">{error}</p>}
+    </Card>
+  );
+};
+
+// The report's next steps as experiments with evidence; finished ones can be fed into a rescored version
+export const ExperimentTracker: React.FC<ExperimentTrackerProps> = ({ reportId, email, customModel, onRescore }) => {
+  const [experiments, setExperiments] = useState<Experiment[] | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExperiments(null);
+    setError(null);
+    api.getExperiments(reportId, email)
+      .then(setExperiments)
+      .catch(e => setError(e.message || "Failed to load experiments."));
+  }, [reportId, email]);
+
+  const createExperiments = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setExperiments(await api.createExperiments(reportId, email, customModel));
+    } catch (e: any) {
+      setError(e.message || "Failed to create experiments.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const replaceExperiment = (experiment: Experiment) =>
+    setExperiments(current => current && current.map(x => x.id === experiment.id ? experiment : x));
+
+  const finished = experiments?.filter(x => isFinished(x.status)).length ?? 0;
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-rose-50 border border-rose-100 rounded-lg text-sm text-rose-700">
+          <AlertTriangle size={16} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {experiments === null ? (
+        !error && <div className="flex justify-center py-12"><Loader2 className="animate-spin text-slate-400" /></div>
+      ) : experiments.length === 0 ? (
+        <Card>
+          <div className="text-center py-6">
+            <FlaskConical className="mx-auto text-slate-300 mb-3" size={32} />
+            <h3 className="font-semibold text-slate-900 mb-1">Test your action plan</h3>
+            <p className="text-sm text-slate-500 max-w-md mx-auto mb-4">
+              Turn each next step into an experiment with a hypothesis, a success metric and a due date. Record what you learn, then rescore the idea with that evidence.
+            </p>
+            <Button onClick={createExperiments} disabled={isCreating} className="gap-2">
+              {isCreating ? <Loader2 size={16} className="animate-spin" /> : <FlaskConical size={16} />} {isCreating ? "Drafting experiments..." : "Create experiments"}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-slate-600">
+              <span className="font-semibold text-slate-900">{finished} of {experiments.length}</span> experiments finished. Rescoring runs a new version of the idea with their evidence.
+            </p>
+            <Button onClick={onRescore} disabled={finished === 0} className="gap-2 shrink-0" title={finished === 0 ? 'Mark an experiment as validated or invalidated first' : undefined}>
+              <RefreshCcw size={16} /> Rescore with evidence
+            </Button>
+          </div>
+          {experiments.map((experiment, i) => (
+            <ExperimentCard key={experiment.id} experiment={experiment} index={i} email={email} onChange={replaceExperiment} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useRef, useState } from 'react';
+import { InterviewInsights, InterviewKit as InterviewKitData, InterviewScript, InterviewStance, InterviewUpload, RiskLevel } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { readFile } from '../services/files';
+import { AlertTriangle, Check, Copy, Loader2, Mic, Paperclip, Quote, RefreshCcw, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+
+interface InterviewKitProps {
+  kit?: InterviewKitData;
+  onGenerateScript: () => Promise<void>;
+  onAddInterview: (interview: InterviewUpload) => Promise<void>;
+  onDeleteInterview: (interviewId: string) => Promise<void>;
+}
+
+const getSeverityColor = (severity: RiskLevel) =>
+  severity === 'Low' ? 'bg-emerald-100 text-emerald-800 border-emerald-200'
+    : severity === 'High' ? 'bg-rose-100 text-rose-800 border-rose-200'
+    : 'bg-amber-100 text-amber-800 border-amber-200';
+
+const WTP_LABELS: Record<InterviewInsights['willingnessToPay']['signal'], { label: string; className: string }> = {
+  strong: { label: 'Would pay', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  weak: { label: 'Interested', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  none: { label: 'Would not pay', className: 'bg-slate-50 text-slate-600 border-slate-200' }
+};
+
+const STANCES: { id: InterviewStance; label: string; icon: typeof ThumbsUp; className: string }[] = [
+  { id: 'supports', label: 'Supports the report', icon: ThumbsUp, className: 'text-emerald-600' },
+  { id: 'contradicts', label: 'Contradicts the report', icon: ThumbsDown, className: 'text-rose-600' }
+];
+
+// The script as plain text, for pasting into a doc or notes app
+const formatScript = (script: InterviewScript) => [
+  `Who to interview: ${script.audience}`,
+  `Opening: ${script.opening}`,
+  ...script.sections.map((section, i) => [
+    `${i + 1}. ${section.topic} (tests: ${section.assumption})`,
+    ...section.questions.map(q => [`- ${q.question}`, ...q.followUps.map(f => `  - ${f}`)].join('\n'))
+  ].join('\n')),
+  `Closing: ${script.closing}`
+].join('\n\n');
+
+const inputClassName = "w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2";
+
+const ErrorMessage: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex items-center gap-2 p-3 bg-rose-50 border border-rose-100 rounded-lg text-sm text-rose-700">
+    <AlertTriangle size={16} className="shrink-0" /> {message}
+  </div>
+);
+
+const ScriptCard: React.FC<{ script?: InterviewScript; onGenerate: () => Promise<void> }> = ({ script, onGenerate }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate();
+    } catch (e: any) {
+      setError(e.message || "Failed to write the interview script.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatScript(script!));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (e) {
+      setError("Failed to copy to clipboard.");
+    }
+  };
+
+  if (!script) {
+    return (
+      <Card>
+        <div className="text-center py-6">
+          <Mic className="mx-auto text-slate-300 mb-3" size={32} />
+          <h3 className="font-semibold text-slate-900 mb-1">Talk to customers</h3>
+          <p className="text-sm text-slate-500 max-w-md mx-auto mb-4">
+            Get an interview script that tests the report's biggest risks and assumptions without pitching. Then add your notes from each interview to see whether they back the report up.
+          </p>
+          <Button onClick={generate} disabled={isGenerating} className="gap-2">
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />} {isGenerating ? "Writing script..." : "Write interview script"}
+          </Button>
+          {error && <div className="mt-4 text-left"><ErrorMessage message={error} /></div>}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Interview Script">
+      <div className="flex flex-wrap justify-end gap-2 -mt-2 mb-4">
+        <Button variant="outline" size="sm" onClick={copy} className="gap-2">
+          {isCopied ? <Check size={14} /> : <Copy size={14} />} {isCopied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={generate} disabled={isGenerating} className="gap-2">
+          {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />} Rewrite
+        </Button>
+      </div>
+      {error && <div className="mb-4"><ErrorMessage message={error} /></div>}
+      <div className="space-y-6 text-sm text-slate-700">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Who to interview</h4>
+            <p>{script.audience}</p>
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Opening</h4>
+            <p>{script.opening}</p>
+          </div>
+        </div>
+        {script.sections.map((section, i) => (
+          <div key={i} className="pt-4 border-t border-slate-100">
+            <h4 className="font-semibold text-slate-900">{i + 1}. {section.topic}</h4>
+            <p className="text-xs text-slate-500 mb-3">Tests: {section.assumption}</p>
+            <ol className="space-y-2 list-decimal list-inside">
+              {section.questions.map((q, j) => (
+                <li key={j}>
+                  {q.question}
+                  {q.followUps.length > 0 && (
+                    <ul className="mt-1 ml-6 space-y-1 text-slate-500 list-disc">
+                      {q.followUps.map((followUp, k) => <li key={k}>{followUp}</li>)}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+        <div className="pt-4 border-t border-slate-100">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Closing</h4>
+          <p>{script.closing}</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+const NotesForm: React.FC<{ onAdd: (interview: InterviewUpload) => Promise<void> }> = ({ onAdd }) => {
+  const [interviewee, setInterviewee] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const add = async (file?: File) => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      await onAdd({
+        ...(interviewee.trim() && { interviewee: interviewee.trim() }),
+        ...(file ? { attachment: await readFile(file) } : { notes })
+      });
+      setInterviewee('');
+      setNotes('');
+    } catch (e: any) {
+      setError(e.message || "Failed to analyze the interview.");
+    } finally {
+      setIsAdding(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card title="Add an Interview">
+      <div className="space-y-3">
+        <input value={interviewee} onChange={(e) => setInterviewee(e.target.value)} placeholder="Who was it? e.g. Agency owner, 12 staff (optional)" className={inputClassName} />
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={6} placeholder="Paste your notes or the transcript" className={inputClassName} />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={() => add()} disabled={isAdding || !notes.trim()} className="gap-2">
+            {isAdding ? <Loader2 size={14} className="animate-spin" /> : null} {isAdding ? 'Analyzing...' : 'Analyze notes'}
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".pdf,.docx,.rtf,.txt,.md,.vtt,.srt" className="hidden" onChange={(e) => e.target.files?.[0] && add(e.target.files[0])} />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isAdding} className="gap-2">
+            <Paperclip size={14} /> Upload transcript
+          </Button>
+          <span className="text-xs text-slate-400">PDF, DOCX, RTF or text</span>
+        </div>
+        {error && <ErrorMessage message={error} />}
+      </div>
+    </Card>
+  );
+};
+
+const InterviewCard: React.FC<{ interview: InterviewInsights; onDelete: () => Promise<void> }> = ({ interview, onDelete }) => {
+  const [error, setError] = useState<string | null>(null);
+  const wtp = WTP_LABELS[interview.willingnessToPay.signal];
+
+  const remove = async () => {
+    setError(null);
+    try {
+      await onDelete();
+    } catch (e: any) {
+      setError(e.message || "Delete failed.");
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-semibold text-slate-900">{interview.interviewee}</h3>
+          <p className="text-xs text-slate-400">
+            {new Date(interview.createdAt).toLocaleDateString()}{interview.sourceName && ` · ${interview.sourceName}`}
+          </p>
+        </div>
+        <button type="button" onClick={remove} className="text-slate-300 hover:text-rose-500" title="Remove interview">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm text-slate-700">
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">Pain points</h4>
+          {interview.painPoints.length === 0 ? (
+            <p className="text-xs text-slate-400">None mentioned.</p>
+          ) : (
+            <ul className="space-y-2">
+              {interview.painPoints.map((point, i) => (
+                <li key={i} className="flex gap-2 items-start">
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold border ${getSeverityColor(point.severity)}`}>{point.severity}</span>
+                  <span>{point.pain}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">Willingness to pay</h4>
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${wtp.className}`}>{wtp.label}</span>
+            {interview.willingnessToPay.amount && <span className="font-semibold text-slate-900">{interview.willingnessToPay.amount}</span>}
+          </div>
+          <p>{interview.willingnessToPay.summary}</p>
+        </div>
+      </div>
+
+      {interview.quotes.length > 0 && (
+        <div className="pt-4 mt-4 border-t border-slate-100 space-y-2">
+          {interview.quotes.map((quote, i) => (
+            <blockquote key={i} className="flex gap-2 text-sm italic text-slate-600">
+              <Quote size={14} className="text-slate-300 shrink-0 mt-0.5" /> {quote}
+            </blockquote>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-xs text-rose-600 mt-2">{error}</p>}
+    </Card>
+  );
+};
+
+// Where the interviews, taken together, back the report up or push back on it
+const FindingsSummary: React.FC<{ interviews: InterviewInsights[] }> = ({ interviews }) => {
+  const strongSignals = interviews.filter(i => i.willingnessToPay.signal === 'strong').length;
+
+  return (
+    <Card title="What the Interviews Say">
+      <p className="text-sm text-slate-600 mb-4">
+        <span className="font-semibold text-slate-900">{strongSignals} of {interviews.length}</span> interviewee{interviews.length === 1 ? '' : 's'} showed a strong willingness to pay.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {STANCES.map(({ id, label, icon: Icon, className }) => {
+          const findings = interviews.flatMap(interview => interview.findings.filter(f => f.stance === id).map(f => ({ ...f, interviewee: interview.interviewee })));
+          return (
+            <div key={id}>
+              <h4 className={`flex items-center gap-1.5 text-sm font-semibold mb-2 ${className}`}>
+                <Icon size={14} /> {label} ({findings.length})
+              </h4>
+              {findings.length === 0 ? (
+                <p className="text-xs text-slate-400">Nothing yet.</p>
+              ) : (
+                <ul className="space-y-3 text-sm text-slate-700">
+                  {findings.map((finding, i) => (
+                    <li key={i}>
+                      <span className="font-medium text-slate-900">{finding.claim}</span>
+                      <p className="text-slate-500">{finding.evidence} <span className="text-xs text-slate-400">({finding.interviewee})</span></p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+// Customer discovery for the report: a script to run interviews with and the notes from each one
+export const InterviewKit: React.FC<InterviewKitProps> = ({ kit, onGenerateScript, onAddInterview, onDeleteInterview }) => {
+  const interviews = kit?.interviews || [];
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <ScriptCard script={kit?.script} onGenerate={onGenerateScript} />
+      {interviews.length > 0 && <FindingsSummary interviews={interviews} />}
+      <NotesForm onAdd={onAddInterview} />
+      {[...interviews].reverse().map(interview => (
+        <InterviewCard key={interview.id} interview={interview} onDelete={() => onDeleteInterview(interview.id)} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Assumption, MarketSizing as MarketSizingData, SizingApproach, MARKET_SIZING_ASSUMPTIONS } from '../types';
+import { Card } from './Card';
+import { AssumptionField, AssumptionSaveBar, isValidAssumption, useAssumptionDraft } from './AssumptionField';
+import { computeMarketSizing, formatMoney } from '../services/marketSizing';
+
+interface MarketSizingProps {
+  sizing: MarketSizingData;
+  onSave: (sizing: MarketSizingData) => Promise<void>;
+  className?: string;
+}
+
+const APPROACHES: { id: SizingApproach; title: string }[] = [
+  { id: 'bottomUp', title: 'Bottom-up' },
+  { id: 'topDown', title: 'Top-down' }
+];
+
+const LEVELS = [
+  { id: 'tam', label: 'TAM', description: 'Total addressable' },
+  { id: 'sam', label: 'SAM', description: 'Serviceable' },
+  { id: 'som', label: 'SOM', description: 'Obtainable' }
+] as const;
+
+// TAM/SAM/SOM from both approaches. The assumptions are editable and the figures follow them as you type.
+export const MarketSizing: React.FC<MarketSizingProps> = ({ sizing, onSave, className = '' }) => {
+  const { draft, setDraft, isDirty, isSaving, saveError, save, reset } = useAssumptionDraft(sizing, onSave);
+  const sizes = computeMarketSizing(draft);
+  const assumptionsOf = (approach: SizingApproach) => draft[approach] as Record<string, Assumption>;
+  const isValid = APPROACHES.every(({ id }) => MARKET_SIZING_ASSUMPTIONS[id].every(({ key, unit }) => isValidAssumption(assumptionsOf(id)[key], unit)));
+
+  const updateAssumption = (approach: SizingApproach, key: string, change: Partial<Assumption>) => {
+    setDraft(current => ({
+      ...current,
+      [approach]: { ...current[approach], [key]: { ...(current[approach] as Record<string, Assumption>)[key], ...change } }
+    }));
+  };
+
+  return (
+    <Card title="Market Sizing" className={className}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {APPROACHES.map(({ id, title }) => {
+          const size = sizes[id];
+          return (
+            <div key={id}>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3">{title}</h4>
+              <div className="grid grid-cols-3 gap-2 mb-5">
+                {LEVELS.map(level => (
+                  <div key={level.id} className="p-3 bg-slate-50 rounded-lg border border-slate-100" title={level.description}>
+                    <div className="text-xs font-bold text-slate-400">{level.label}</div>
+                    <div className="text-lg font-bold text-slate-900 truncate">{formatMoney(size[level.id], draft.currency)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-4">
+                {MARKET_SIZING_ASSUMPTIONS[id].map(info => (
+                  <AssumptionField
+                    key={info.key}
+                    info={info}
+                    assumption={assumptionsOf(id)[info.key]}
+                    currency={draft.currency}
+                    onChange={change => updateAssumption(id, info.key, change)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <AssumptionSaveBar editedAt={sizing.editedAt} isDirty={isDirty} isValid={isValid} isSaving={isSaving} saveError={saveError} onSave={save} onReset={reset} />
+    </Card>
+  );
+};
@@ -1,32 +1,81 @@
 import React from 'react';
+import { SUB_SCORE_DIMENSIONS, SubScore, SubScoreDimension } from '../types';
 
 interface ScoreGaugeProps {
   score: number;
+  subScores?: Record<SubScoreDimension, SubScore>;
+  margin?: number; // Confidence interval half-width from stability mode
 }
 
-export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score }) => {
+const RADAR_SIZE = 160;
+const RADAR_RADIUS = 56;
+
+// Point on the radar for a dimension index at a 0-100 value, starting at 12 o'clock
+const radarPoint = (index: number, value: number) => {
+  const angle = (Math.PI * 2 * index) / SUB_SCORE_DIMENSIONS.length - Math.PI / 2;
+  const r = (RADAR_RADIUS * value) / 100;
+  return [RADAR_SIZE / 2 + r * Math.cos(angle), RADAR_SIZE / 2 + r * Math.sin(angle)];
+};
+
+const toPoints = (values: number[]) => values.map((v, i) => radarPoint(i, v).join(',')).join(' ');
+
+export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score, subScores, margin }) => {
   let colorClass = "bg-amber-500";
   let textClass = "text-amber-600";
-  
+  let strokeColor = "#f59e0b";
+
   if (score >= 75) {
     colorClass = "bg-emerald-500";
     textClass = "text-emerald-600";
+    strokeColor = "#10b981";
   } else if (score < 40) {
     colorClass = "bg-rose-500";
     textClass = "text-rose-600";
+    strokeColor = "#f43f5e";
   }
 
   return (
     <div className="flex flex-col items-center justify-center p-4">
       <div className="relative w-24 h-24 flex items-center justify-center rounded-full bg-slate-100 border-4 border-slate-200">
         {/* Simple visual representation */}
-        <div 
-          className={`absolute inset-0 rounded-full opacity-20 ${colorClass}`} 
+        <div
+          className={`absolute inset-0 rounded-full opacity-20 ${colorClass}`}
           style={{ transform: `scale(${score / 100})` }}
         />
         <span className={`text-3xl font-bold ${textClass}`}>{score}</span>
       </div>
+      {margin !== undefined && (
+        <span className={`text-sm font-semibold mt-1 ${textClass}`}>± {Math.round(margin)}</span>
+      )}
       <span className="text-xs uppercase tracking-wide text-slate-500 mt-2 font-semibold">Viability Potential</span>
+
+      {/* Radar of the rubric the score is derived from */}
+      {subScores && (
+        <svg width={RADAR_SIZE} height={RADAR_SIZE} viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`} className="mt-2" role="img" aria-label="Score breakdown">
+          {[25, 50, 75, 100].map(ring => (
+            <polygon key={ring} points={toPoints(SUB_SCORE_DIMENSIONS.map(() => ring))} fill="none" stroke="#e2e8f0" strokeWidth={1} />
+          ))}
+          {SUB_SCORE_DIMENSIONS.map((dimension, i) => {
+            const [x, y] = radarPoint(i, 100);
+            const [labelX, labelY] = radarPoint(i, 128);
+            return (
+              <g key={dimension.id}>
+                <line x1={RADAR_SIZE / 2} y1={RADAR_SIZE / 2} x2={x} y2={y} stroke="#e2e8f0" strokeWidth={1} />
+                <text x={labelX} y={labelY} fontSize={8} fill="#64748b" textAnchor="middle" dominantBaseline="middle">
+                  {dimension.label.split(' ')[0]}
+                </text>
+              </g>
+            );
+          })}
+          <polygon
+            points={toPoints(SUB_SCORE_DIMENSIONS.map(d => subScores[d.id]?.score ?? 0))}
+            fill={strokeColor}
+            fillOpacity={0.2}
+            stroke={strokeColor}
+            strokeWidth={1.5}
+          />
+        </svg>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,326 @@
+import React, { useRef, useState } from 'react';
+import { MIN_PRICE_RANGE_RESPONSES, PRICE_QUESTIONS, PriceRange, SCALE_POINTS, Survey, SurveyQuestion, SurveyQuestionStats, SurveyResponse, SurveyResults } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { formatMoney } from '../services/marketSizing';
+import { downloadCsv, parseCsv } from '../services/csv';
+import { ColumnMatches, formatSurvey, matchColumns, toSurveyResponses } from '../services/surveys';
+import { AlertTriangle, Check, ClipboardList, Copy, Download, FileUp, Loader2, RefreshCcw } from 'lucide-react';
+
+interface SurveyBuilderProps {
+  survey?: Survey;
+  onGenerate: () => Promise<void>;
+  onImport: (fileName: string, responses: SurveyResponse[]) => Promise<void>;
+  onRescore?: () => void; // Set for saved reports; runs a new version with the survey results as evidence
+}
+
+// A CSV read in the browser, waiting for the founder to confirm which column answers which question
+interface PendingImport {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  matches: ColumnMatches;
+}
+
+const QUESTION_TYPE_LABELS: Record<SurveyQuestion['type'], string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice',
+  scale: `Scale 1-${SCALE_POINTS}`,
+  price: 'Price',
+  text: 'Free text'
+};
+
+const inputClassName = "w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2";
+
+const ErrorMessage: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex items-center gap-2 p-3 bg-rose-50 border border-rose-100 rounded-lg text-sm text-rose-700">
+    <AlertTriangle size={16} className="shrink-0" /> {message}
+  </div>
+);
+
+const Bar: React.FC<{ label: string; count: number; total: number }> = ({ label, count, total }) => {
+  const share = total > 0 ? count / total : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-600 mb-1">
+        <span className="truncate pr-2">{label}</span>
+        <span className="shrink-0 font-medium">{Math.round(share * 100)}% <span className="text-slate-400">({count})</span></span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-slate-900 rounded-full" style={{ width: `${share * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const QuestionResults: React.FC<{ question: SurveyQuestion; stats: SurveyQuestionStats; currency: string }> = ({ question, stats, currency }) => (
+  <div className="pt-4 border-t border-slate-100 first:border-0 first:pt-0">
+    <div className="flex items-start justify-between gap-3 mb-2">
+      <h4 className="text-sm font-semibold text-slate-900">{question.text}</h4>
+      <span className="text-xs text-slate-400 shrink-0">{stats.responses} answers</span>
+    </div>
+    {stats.responses === 0 ? (
+      <p className="text-xs text-slate-400">No usable answers.</p>
+    ) : stats.kind === 'choice' ? (
+      <div className="space-y-2">
+        {stats.counts.map(c => <Bar key={c.option} label={c.option} count={c.count} total={stats.responses} />)}
+        {question.type === 'multiple' && <p className="text-xs text-slate-400">Respondents could pick several options.</p>}
+      </div>
+    ) : stats.kind === 'scale' ? (
+      <div className="space-y-2">
+        <p className="text-sm text-slate-600">
+          Average <span className="font-semibold text-slate-900">{stats.mean}</span> of {SCALE_POINTS} · 1 = {question.scaleLabels?.[0]}, {SCALE_POINTS} = {question.scaleLabels?.[1]}
+        </p>
+        {stats.distribution.map((count, i) => <Bar key={i} label={String(i + 1)} count={count} total={stats.responses} />)}
+      </div>
+    ) : stats.kind === 'price' ? (
+      <p className="text-sm text-slate-600">
+        Median <span className="font-semibold text-slate-900">{formatMoney(stats.median, currency)}</span> · average {formatMoney(stats.mean, currency)} · range {formatMoney(stats.min, currency)}-{formatMoney(stats.max, currency)}
+      </p>
+    ) : (
+      <ul className="space-y-1 text-sm text-slate-600 italic">
+        {stats.samples.map((sample, i) => <li key={i}>"{sample}"</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+// The acceptable price range on a line, with the optimal and indifference prices marked inside it
+const PriceRangeChart: React.FC<{ range: PriceRange; currency: string }> = ({ range, currency }) => {
+  const points = [
+    { label: 'Marginal cheapness', value: range.marginalCheapness },
+    { label: 'Optimal price', value: range.optimal },
+    { label: 'Indifference price', value: range.indifference },
+    { label: 'Marginal expensiveness', value: range.marginalExpensiveness }
+  ];
+  const low = Math.min(...points.map(p => p.value));
+  const high = Math.max(...points.map(p => p.value));
+  const padding = (high - low) * 0.2 || Math.max(high * 0.2, 1);
+  const position = (value: number) => `${((value - (low - padding)) / (high - low + 2 * padding)) * 100}%`;
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {points.map(p => (
+          <div key={p.label} className="p-3 rounded-lg bg-slate-50 border border-slate-100">
+            <div className="text-xs text-slate-500">{p.label}</div>
+            <div className="text-lg font-bold text-slate-900">{formatMoney(p.value, currency)}</div>
+          </div>
+        ))}
+      </div>
+      <div className="relative h-10 mx-2">
+        <div className="absolute top-4 left-0 right-0 h-2 bg-slate-100 rounded-full" />
+        <div
+          className="absolute top-4 h-2 bg-emerald-400 rounded-full"
+          style={{ left: position(range.marginalCheapness), width: `calc(${position(range.marginalExpensiveness)} - ${position(range.marginalCheapness)})` }}
+        />
+        {[range.optimal, range.indifference].map((value, i) => (
+          <div key={i} className="absolute top-2 w-1 h-6 bg-slate-900 rounded-full -translate-x-1/2" style={{ left: position(value) }} title={formatMoney(value, currency)} />
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        The acceptable range (green) runs from {formatMoney(range.marginalCheapness, currency)} to {formatMoney(range.marginalExpensiveness, currency)}, based on {range.responses} respondents who answered all four price questions in order.
+      </p>
+    </div>
+  );
+};
+
+const ResultsCard: React.FC<{ survey: Survey; results: SurveyResults; onRescore?: () => void }> = ({ survey, results, onRescore }) => (
+  <>
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <p className="text-sm text-slate-600">
+        <span className="font-semibold text-slate-900">{results.respondents} respondents</span> imported from {results.fileName} on {new Date(results.importedAt).toLocaleDateString()}.
+        {onRescore && ' Rescoring runs a new version of the idea with these results as evidence.'}
+      </p>
+      {onRescore && (
+        <Button onClick={onRescore} className="gap-2 shrink-0">
+          <RefreshCcw size={16} /> Rescore with evidence
+        </Button>
+      )}
+    </div>
+    <Card title="Price Sensitivity (Van Westendorp)">
+      {results.priceRange ? (
+        <PriceRangeChart range={results.priceRange} currency={survey.currency} />
+      ) : (
+        <p className="text-sm text-slate-500">
+          Not enough answers for a price range yet. It needs at least {MIN_PRICE_RANGE_RESPONSES} respondents who answered all {PRICE_QUESTIONS.length} price questions with {PRICE_QUESTIONS.map(q => q.label.toLowerCase()).reverse().join(' ≤ ')}.
+        </p>
+      )}
+    </Card>
+    <Card title="Responses">
+      <div className="space-y-4">
+        {survey.questions.map(question => {
+          const stats = results.questions.find(s => s.questionId === question.id);
+          return stats && <QuestionResults key={question.id} question={question} stats={stats} currency={survey.currency} />;
+        })}
+      </div>
+    </Card>
+  </>
+);
+
+const ImportCard: React.FC<{ survey: Survey; onImport: SurveyBuilderProps['onImport'] }> = ({ survey, onImport }) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const readCsv = async (file: File) => {
+    setError(null);
+    const [headers, ...rows] = parseCsv(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!headers || rows.length === 0) {
+      setError("The file has no responses. Export them as CSV with a header row.");
+      return;
+    }
+    setPending({ fileName: file.name, headers, rows, matches: matchColumns(survey.questions, headers) });
+  };
+
+  const setColumn = (questionId: string, value: string) => setPending(current => {
+    if (!current) return current;
+    const { [questionId]: _previous, ...matches } = current.matches;
+    return { ...current, matches: value === '' ? matches : { ...matches, [questionId]: Number(value) } };
+  });
+
+  const confirmImport = async () => {
+    if (!pending) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await onImport(pending.fileName, toSurveyResponses(pending.rows, pending.matches));
+      setPending(null);
+    } catch (e: any) {
+      setError(e.message || "Failed to import the responses.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card title="Import Responses">
+      {pending ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Found <span className="font-semibold text-slate-900">{pending.rows.length} responses</span> in {pending.fileName}. Check which column answers each question.
+          </p>
+          <div className="space-y-2">
+            {survey.questions.map((question, i) => (
+              <div key={question.id} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+                <span className="text-sm text-slate-700">{i + 1}. {question.text}</span>
+                <select value={pending.matches[question.id] ?? ''} onChange={(e) => setColumn(question.id, e.target.value)} className={inputClassName}>
+                  <option value="">Not in this file</option>
+                  {pending.headers.map((header, column) => <option key={column} value={column}>{header || `Column ${column + 1}`}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={confirmImport} disabled={isImporting || Object.keys(pending.matches).length === 0} className="gap-2">
+              {isImporting && <Loader2 size={14} className="animate-spin" />} Import {pending.rows.length} responses
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPending(null)} disabled={isImporting}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={(e) => e.target.files?.[0] && readCsv(e.target.files[0])} />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-2">
+            <FileUp size={14} /> Upload CSV
+          </Button>
+          <span className="text-xs text-slate-400">
+            Export the responses from your survey tool with one row per respondent{survey.results && '. Importing again replaces the current results'}.
+          </span>
+        </div>
+      )}
+      {error && <div className="mt-4"><ErrorMessage message={error} /></div>}
+    </Card>
+  );
+};
+
+// A demand validation survey for the report, and the summarized responses once imported
+export const SurveyBuilder: React.FC<SurveyBuilderProps> = ({ survey, onGenerate, onImport, onRescore }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async () => {
+    if (survey?.results && !window.confirm("Writing a new survey discards the imported results. Continue?")) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate();
+    } catch (e: any) {
+      setError(e.message || "Failed to write the survey.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatSurvey(survey!));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (e) {
+      setError("Failed to copy to clipboard.");
+    }
+  };
+
+  if (!survey) {
+    return (
+      <Card>
+        <div className="text-center py-6">
+          <ClipboardList className="mx-auto text-slate-300 mb-3" size={32} />
+          <h3 className="font-semibold text-slate-900 mb-1">Validate demand with a survey</h3>
+          <p className="text-sm text-slate-500 max-w-md mx-auto mb-4">
+            Get a survey on how often your audience hits the problem, what they use today and what they would pay. Run it in any survey tool, then import the responses as CSV.
+          </p>
+          <Button onClick={generate} disabled={isGenerating} className="gap-2">
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <ClipboardList size={16} />} {isGenerating ? "Writing survey..." : "Create survey"}
+          </Button>
+          {error && <div className="mt-4 text-left"><ErrorMessage message={error} /></div>}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card title={survey.title}>
+        <div className="flex flex-wrap justify-end gap-2 -mt-2 mb-4">
+          <Button variant="outline" size="sm" onClick={copy} className="gap-2">
+            {isCopied ? <Check size={14} /> : <Copy size={14} />} {isCopied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => downloadCsv('survey-template.csv', [survey.questions.map(q => q.text)])} className="gap-2" title="A header row with one column per question, for entering responses by hand">
+            <Download size={14} /> CSV template
+          </Button>
+          <Button variant="outline" size="sm" onClick={generate} disabled={isGenerating} className="gap-2">
+            {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />} Rewrite
+          </Button>
+        </div>
+        {error && <div className="mb-4"><ErrorMessage message={error} /></div>}
+        <p className="text-sm text-slate-600 mb-6">{survey.intro}</p>
+        <ol className="space-y-4">
+          {survey.questions.map((question, i) => (
+            <li key={question.id} className="text-sm text-slate-700">
+              <div className="flex items-start justify-between gap-3">
+                <span className="font-medium text-slate-900">{i + 1}. {question.text}</span>
+                <span className="text-xs text-slate-400 shrink-0">
+                  {question.type === 'price' ? `${PRICE_QUESTIONS.find(q => q.id === question.priceQuestion)?.label} (${survey.currency})` : QUESTION_TYPE_LABELS[question.type]}
+                </span>
+              </div>
+              {question.options && (
+                <ul className="mt-1 ml-5 text-slate-500 list-disc">
+                  {question.options.map(option => <li key={option}>{option}</li>)}
+                </ul>
+              )}
+              {question.scaleLabels && <p className="mt-1 ml-5 text-slate-500">1 = {question.scaleLabels[0]}, {SCALE_POINTS} = {question.scaleLabels[1]}</p>}
+            </li>
+          ))}
+        </ol>
+      </Card>
+
+      <ImportCard survey={survey} onImport={onImport} />
+      {survey.results && <ResultsCard survey={survey} results={survey.results} onRescore={onRescore} />}
+    </div>
+  );
+};
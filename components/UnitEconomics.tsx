@@ -0,0 +1,192 @@
+import React from 'react';
+import { Assumption, UnitEconomics as UnitEconomicsData, PROJECTION_MONTHS, UNIT_ECONOMICS_INPUTS } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { AssumptionField, AssumptionSaveBar, isValidAssumption, useAssumptionDraft } from './AssumptionField';
+import { ProjectionMonth, UnitEconomicsMetrics, computeUnitEconomicsMetrics, projectUnitEconomics } from '../services/unitEconomics';
+import { formatMoney } from '../services/marketSizing';
+import { downloadCsv } from '../services/csv';
+import { downloadXlsx } from '../services/xlsx';
+import { Download, FileSpreadsheet } from 'lucide-react';
+
+interface UnitEconomicsProps {
+  economics: UnitEconomicsData;
+  onSave: (economics: UnitEconomicsData) => Promise<void>;
+  className?: string;
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 10, right: 10, bottom: 20, left: 56 };
+
+// A plain SVG line chart over the projection months, with the zero line marked when values go negative
+const ProjectionChart: React.FC<{ title: string; series: ChartSeries[]; currency: string }> = ({ title, series, currency }) => {
+  const values = series.flatMap(s => s.values);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values) || 1;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (i: number) => CHART_PADDING.left + (i / (PROJECTION_MONTHS - 1)) * plotWidth;
+  const y = (value: number) => CHART_PADDING.top + ((max - value) / (max - min)) * plotHeight;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">{title}</h4>
+        <div className="flex flex-wrap gap-3">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1.5 text-xs text-slate-500">
+              <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: s.color }} /> {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {[max, 0, min].filter((value, i, all) => all.indexOf(value) === i).map(value => (
+          <g key={value}>
+            <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(value)} y2={y(value)} stroke={value === 0 ? '#94a3b8' : '#e2e8f0'} strokeDasharray={value === 0 ? undefined : '4 4'} />
+            <text x={CHART_PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="11" fill="#94a3b8">{formatMoney(value, currency)}</text>
+          </g>
+        ))}
+        {[1, 6, 12, 18, 24].filter(month => month <= PROJECTION_MONTHS).map(month => (
+          <text key={month} x={x(month - 1)} y={CHART_HEIGHT - 4} textAnchor="middle" fontSize="11" fill="#94a3b8">M{month}</text>
+        ))}
+        {series.map(s => (
+          <polyline key={s.label} points={s.values.map((value, i) => `${x(i)},${y(value)}`).join(' ')} fill="none" stroke={s.color} strokeWidth="2" strokeLinejoin="round" />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatMonths = (months: number | null) => months === null ? 'Never' : `${months.toFixed(1)} mo`;
+
+const inputRows = (economics: UnitEconomicsData) =>
+  UNIT_ECONOMICS_INPUTS.map(({ key, label, unit }) => [label, economics.inputs[key].value, unit === 'currency' ? economics.currency : unit, economics.inputs[key].source]);
+
+const metricRows = (metrics: UnitEconomicsMetrics, currency: string) => [
+  [`LTV (${currency})`, metrics.ltv === null ? 'Unbounded (no churn)' : round(metrics.ltv)],
+  ['LTV : CAC', metrics.ltvToCac === null ? 'n/a' : round(metrics.ltvToCac)],
+  ['Payback (months)', metrics.paybackMonths === null ? 'Never' : round(metrics.paybackMonths)],
+  [`Gross profit per customer / month (${currency})`, round(metrics.grossProfitPerMonth)]
+];
+
+const PROJECTION_HEADER = ['Month', 'New customers', 'Customers', 'Revenue', 'Gross profit', 'Acquisition spend', 'Fixed costs', 'Net cash flow', 'Cumulative cash'];
+
+const projectionRows = (projection: ProjectionMonth[]) => projection.map(m => [
+  m.month, round(m.newCustomers), round(m.customers), round(m.revenue), round(m.grossProfit), round(m.acquisitionSpend), round(m.fixedCosts), round(m.netCashFlow), round(m.cumulativeCash)
+]);
+
+// Unit metrics and the 24-month projection, both recalculated from the editable inputs as you type
+export const UnitEconomics: React.FC<UnitEconomicsProps> = ({ economics, onSave, className = '' }) => {
+  const { draft, setDraft, isDirty, isSaving, saveError, save, reset } = useAssumptionDraft(economics, onSave);
+  const isValid = UNIT_ECONOMICS_INPUTS.every(({ key, unit }) => isValidAssumption(draft.inputs[key], unit));
+  // Inputs being retyped count as 0 until they hold a number again
+  const figures = { ...draft, inputs: Object.fromEntries(Object.entries(draft.inputs).map(([key, input]) => [key, Number.isFinite(input.value) ? input : { ...input, value: 0 }])) as UnitEconomicsData['inputs'] };
+  const metrics = computeUnitEconomicsMetrics(figures);
+  const projection = projectUnitEconomics(figures);
+  const lastMonth = projection[projection.length - 1];
+  const breakEvenMonth = projection.find(m => m.netCashFlow >= 0)?.month;
+  const fundingNeed = Math.min(0, ...projection.map(m => m.cumulativeCash));
+
+  const updateInput = (key: string, change: Partial<Assumption>) => {
+    setDraft(current => ({
+      ...current,
+      inputs: { ...current.inputs, [key]: { ...(current.inputs as Record<string, Assumption>)[key], ...change } }
+    }));
+  };
+
+  const exportCsv = () => downloadCsv('unit-economics.csv', [
+    ['Input', 'Value', 'Unit', 'Source'],
+    ...inputRows(draft),
+    [],
+    ['Metric', 'Value'],
+    ...metricRows(metrics, draft.currency),
+    [],
+    PROJECTION_HEADER,
+    ...projectionRows(projection)
+  ]);
+
+  const exportXlsx = () => downloadXlsx('unit-economics.xlsx', [
+    { name: 'Inputs', rows: [['Strategy', draft.strategy], [], ['Input', 'Value', 'Unit', 'Source'], ...inputRows(draft)] },
+    { name: 'Metrics', rows: [['Metric', 'Value'], ...metricRows(metrics, draft.currency)] },
+    { name: 'Projection', rows: [PROJECTION_HEADER, ...projectionRows(projection)] }
+  ]);
+
+  const ratioColor = metrics.ltvToCac === null ? 'text-slate-900' : metrics.ltvToCac >= 3 ? 'text-emerald-600' : metrics.ltvToCac < 1 ? 'text-rose-600' : 'text-amber-600';
+  const tiles = [
+    { label: 'LTV', value: metrics.ltv === null ? '∞' : formatMoney(metrics.ltv, draft.currency), className: 'text-slate-900' },
+    { label: 'CAC', value: formatMoney(figures.inputs.cac.value, draft.currency), className: 'text-slate-900' },
+    { label: 'LTV : CAC', value: metrics.ltvToCac === null ? '–' : `${metrics.ltvToCac.toFixed(1)}x`, className: ratioColor },
+    { label: 'Payback', value: formatMonths(metrics.paybackMonths), className: 'text-slate-900' },
+    { label: 'Gross margin', value: `${figures.inputs.grossMargin.value}%`, className: 'text-slate-900' },
+    { label: 'Monthly churn', value: `${figures.inputs.monthlyChurn.value}%`, className: 'text-slate-900' }
+  ];
+
+  return (
+    <Card title={`Unit Economics · ${economics.strategy}`} className={className}>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 mb-6">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+            <div className="text-xs font-bold text-slate-400">{tile.label}</div>
+            <div className={`text-lg font-bold truncate ${tile.className}`}>{tile.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6 mb-6">
+        <ProjectionChart
+          title={`${PROJECTION_MONTHS}-month projection`}
+          currency={draft.currency}
+          series={[
+            { label: 'Revenue', color: '#0f172a', values: projection.map(m => m.revenue) },
+            { label: 'Gross profit', color: '#10b981', values: projection.map(m => m.grossProfit) },
+            { label: 'Costs', color: '#f43f5e', values: projection.map(m => m.acquisitionSpend + m.fixedCosts) }
+          ]}
+        />
+        <ProjectionChart
+          title="Cumulative cash"
+          currency={draft.currency}
+          series={[{ label: 'Cumulative cash', color: '#6366f1', values: projection.map(m => m.cumulativeCash) }]}
+        />
+        <p className="text-sm text-slate-700">
+          By month {PROJECTION_MONTHS}: {Math.round(lastMonth.customers).toLocaleString()} customers and {formatMoney(lastMonth.revenue, draft.currency)} monthly revenue.{' '}
+          {breakEvenMonth ? `Cash flow turns positive in month ${breakEvenMonth}` : `Cash flow is still negative in month ${PROJECTION_MONTHS}`}
+          {fundingNeed < 0 ? `, after needing up to ${formatMoney(-fundingNeed, draft.currency)} of funding.` : '.'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-4">
+        {UNIT_ECONOMICS_INPUTS.map(info => (
+          <AssumptionField
+            key={info.key}
+            info={info}
+            assumption={draft.inputs[info.key]}
+            currency={draft.currency}
+            onChange={change => updateInput(info.key, change)}
+          />
+        ))}
+      </div>
+
+      {/* Left out of the PDF export */}
+      <div data-html2canvas-ignore className="flex justify-end gap-2 mt-6">
+        <Button variant="outline" size="sm" onClick={exportCsv} disabled={!isValid} className="gap-2">
+          <Download size={14} /> CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportXlsx} disabled={!isValid} className="gap-2">
+          <FileSpreadsheet size={14} /> Excel
+        </Button>
+      </div>
+
+      <AssumptionSaveBar editedAt={economics.editedAt} isDirty={isDirty} isValid={isValid} isSaving={isSaving} saveError={saveError} onSave={save} onReset={reset} />
+    </Card>
+  );
+};
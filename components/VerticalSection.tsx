@@ -0,0 +1,57 @@
+import React from 'react';
+import { ValidationReport, RiskLevel, INDUSTRY_VERTICALS, VERTICAL_SECTION_FIELDS } from '../types';
+import { Card } from './Card';
+
+interface VerticalSectionProps {
+  report: ValidationReport;
+  className?: string;
+}
+
+const getRiskColor = (risk: RiskLevel) =>
+  risk === 'Low' ? 'bg-emerald-100 text-emerald-800 border-emerald-200'
+    : risk === 'High' ? 'bg-rose-100 text-rose-800 border-rose-200'
+    : 'bg-amber-100 text-amber-800 border-amber-200';
+
+// The report section specific to the idea's industry vertical, if it has one
+export const VerticalSection: React.FC<VerticalSectionProps> = ({ report, className = '' }) => {
+  const vertical = INDUSTRY_VERTICALS.find(v => v.id === report.vertical);
+  // Sections are looked up by the vertical's key, so read their fields generically
+  const values = vertical && (report[vertical.section] as unknown as Record<string, string | string[]> | undefined);
+  if (!vertical || !values) return null;
+
+  const { title, fields } = VERTICAL_SECTION_FIELDS[vertical.section];
+
+  return (
+    <Card title={`${title} · ${vertical.label}`} className={className}>
+      <div className="space-y-4">
+        {fields.map(({ key, label, type }) => {
+          const value = values[key];
+          return (
+            <div key={key}>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">{label}</h4>
+              {type === 'risk' ? (
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${getRiskColor(value as RiskLevel)}`}>
+                  {value}
+                </span>
+              ) : Array.isArray(value) ? (
+                value.length > 0 ? (
+                  <ul className="space-y-1">
+                    {value.map((item, i) => (
+                      <li key={i} className="text-sm text-slate-700 flex gap-2">
+                        <span className="text-slate-300">–</span>{item}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-slate-400">None</p>
+                )
+              ) : (
+                <p className="text-sm text-slate-700">{value}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
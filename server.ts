@@ -4,11 +4,24 @@ import cors from 'cors';
 import Stripe from 'stripe';
 import pkg from '@prisma/client';
 const { PrismaClient } = pkg;
-import { GoogleGenAI, Type } from "@google/genai";
 import { Resend } from 'resend';
 import { OAuth2Client } from 'google-auth-library';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import crypto from 'crypto';
+import { resolveProvider } from './server/llm';
+import { checkAttachmentLimits } from './server/analysis';
+import { createAnalyzeHandler } from './server/analyzeHandler';
+import { readAttachmentText, toSourceDocument } from './server/documents';
+import { buildChatSystemPrompt, prepareChatTurn } from './server/chat';
+import { translateReport } from './server/translation';
+import { EDITABLE_SECTION_READERS, isRecord } from './server/reportValidator';
+import { draftExperiments, toEvidence, toExperiment } from './server/experiments';
+import { analyzeInterviewNotes, generateInterviewScript } from './server/interviews';
+import { MAX_SURVEY_RESPONSES, computeSurveyResults, generateSurvey } from './server/surveys';
+import { openEventStream } from './server/sse';
+import { EXPERIMENT_STATUSES, getReportLanguage } from './types';
+import type { EditableSection, EvidenceKind, Attachment, InterviewInsights, InterviewKit, ReportTranslation, Survey, SurveyResponse, ValidationReport } from './types';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -20,9 +33,6 @@ const PORT = 4242;
 // Initialize Resend
 const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
 
-// Initialize Gemini on Backend
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 // Initialize Google OAuth
 const googleClient = new OAuth2Client(
   process.env.GOOGLE_CLIENT_ID,
@@ -205,146 +215,639 @@ async function startServer() {
   // AI Routes (Secure Server-Side Calls)
   // ---------------------------------------------------------
 
-  app.post('/api/analyze', async (req, res) => {
-    const { idea, attachment, email } = req.body;
+  // The same handler serves the serverless function (api/analyze.js)
+  app.post('/api/analyze', createAnalyzeHandler(prisma));
 
-    try {
-      // 1. SECURITY CHECK: Verify Credits if user is logged in
-      if (email) {
-        const user = await prisma.user.findUnique({ where: { email } });
-        
-        if (!user) {
-          return res.status(404).json({ error: "User account not found." });
-        }
-
-        if (!user.isPro && user.credits <= 0) {
-          return res.status(403).json({ error: "Insufficient credits. Please upgrade or purchase more." });
-        }
+  app.post('/api/chat', async (req, res) => {
+      const { message, context, customModel, history, memory } = req.body;
+      
+      try {
+          const provider = resolveProvider(customModel, "gemini-2.0-flash-exp");
+          const turn = await prepareChatTurn(provider, history, memory, message);
+          const text = await provider.generate({
+              system: buildChatSystemPrompt(context, turn.memory),
+              messages: turn.messages,
+              maxTokens: 1000
+          });
+          res.json({ text, memory: turn.memory });
+      } catch (error: any) {
+          console.error("Chat Error:", error);
+          res.status(500).json({ error: error.message || "Chat failed" });
       }
+  });
 
-      // 2. Perform Analysis
-      const systemPrompt = `
-        You are an expert startup advisor and product manager. Your goal is to provide honest, clear, and encouraging feedback to founders.
-        Do not use hype. Do not use investor jargon. Be direct but kind.
-        Analyze the user's startup idea. Return a structured validation report in JSON.
-      `;
-
-      const parts: any[] = [];
-      if (attachment) {
-        parts.push({
-          inlineData: {
-            mimeType: attachment.mimeType,
-            data: attachment.data
-          }
-        });
-      }
-      if (idea) parts.push({ text: idea });
-
-      const modelName = attachment ? 'gemini-2.0-flash-exp' : 'gemini-2.0-flash-thinking-exp-1219';
-
-      const response = await genAI.models.generateContent({
-        model: modelName,
-        contents: { parts },
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              summaryVerdict: { type: Type.STRING, enum: ["Promising", "Risky", "Needs Refinement"] },
-              oneLineTakeaway: { type: Type.STRING },
-              marketReality: { type: Type.STRING },
-              pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-              cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-              competitors: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    name: { type: Type.STRING },
-                    differentiation: { type: Type.STRING }
+  // Streams the co-founder reply token by token as Server-Sent Events (`memory`?, `token`..., then `done` or `error`)
+  // With a `threadId` (and the `email` of the report's owner), history and memory come from the database and the
+  // exchange is saved back to the thread.
+  app.post('/api/chat/stream', async (req, res) => {
+      const { message, customModel, threadId, email } = req.body;
+      let { context, history, memory } = req.body;
+      const stream = openEventStream(res);
+      let reply = '';
+      let replied = false;
+      let nextMemory = memory;
+
+      try {
+          if (threadId) {
+              const thread = email && await prisma.chatThread.findFirst({
+                  where: { id: threadId, report: { user: { email } } },
+                  include: {
+                      messages: { orderBy: { createdAt: 'asc' } },
+                      report: { select: { documents: { orderBy: { position: 'asc' } } } }
                   }
-                }
-              },
-              monetizationStrategies: { type: Type.ARRAY, items: { type: Type.STRING } },
-              whyPeoplePay: { type: Type.STRING },
-              viabilityScore: { type: Type.INTEGER },
-              nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
-            }
-          }
-        }
-      });
+              });
+              if (!thread) throw new Error("Conversation not found.");
 
-      const analysisResult = JSON.parse(response.text);
+              // The report sent along only has excerpts of its documents
+              if (thread.report.documents.length > 0) {
+                  context = { ...context, report: { ...context?.report, sourceDocuments: thread.report.documents.map(toSourceDocument) } };
+              }
 
-      // 3. TRANSACTION: Deduct Credit & Save Report (Server-Side Source of Truth)
-      if (email) {
-        await prisma.$transaction(async (tx) => {
-          const user = await tx.user.findUnique({ where: { email } });
-          
-          if (!user) throw new Error("User not found");
+              history = thread.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', text: m.text }));
+              memory = thread.memory;
+          }
 
-          // Double check credit inside transaction
-          if (!user.isPro && user.credits <= 0) {
-             throw new Error("Insufficient credits");
+          const provider = resolveProvider(customModel, "gemini-2.0-flash-exp");
+          const turn = await prepareChatTurn(provider, history, memory, message, stream.signal);
+          nextMemory = turn.memory;
+          if (turn.memoryChanged) {
+              stream.send('memory', turn.memory);
           }
 
-          // Deduct credit if not pro
-          if (!user.isPro) {
-            await tx.user.update({
-              where: { email },
-              data: { credits: { decrement: 1 } }
-            });
+          const tokens = provider.stream({
+              system: buildChatSystemPrompt(context, turn.memory),
+              messages: turn.messages,
+              maxTokens: 1000,
+              signal: stream.signal
+          });
+
+          for await (const text of tokens) {
+              reply += text;
+              stream.send('token', { text });
+          }
+          replied = true;
+      } catch (error: any) {
+          // A client-side stop aborts the upstream request; nothing left to report
+          if (!stream.signal.aborted) {
+              console.error("Chat Stream Error:", error);
+              stream.send('error', { error: error.message || "Chat failed" });
           }
+      }
 
-          // Save Report automatically
-          await tx.report.create({
-              data: {
-                  userId: user.id,
-                  originalIdea: idea || "Attachment Analysis",
-                  summaryVerdict: analysisResult.summaryVerdict,
-                  viabilityScore: analysisResult.viabilityScore,
-                  oneLineTakeaway: analysisResult.oneLineTakeaway,
-                  marketReality: analysisResult.marketReality,
-                  fullReportData: analysisResult
+      // Persist the exchange (including replies cut short by a stop) before the stream is closed, so the thread
+      // can be continued later and the client hears about a failed save
+      if (threadId && reply) {
+          try {
+              const askedAt = new Date();
+              await prisma.$transaction([
+                  prisma.chatMessage.create({ data: { threadId, role: 'user', text: message, createdAt: askedAt } }),
+                  prisma.chatMessage.create({ data: { threadId, role: 'model', text: reply, createdAt: new Date(askedAt.getTime() + 1) } }),
+                  prisma.chatThread.update({ where: { id: threadId }, data: { memory: nextMemory ?? undefined, updatedAt: new Date() } })
+              ]);
+          } catch (dbError) {
+              console.error("Failed to save chat exchange:", dbError);
+              replied = false;
+              if (!stream.signal.aborted) {
+                  stream.send('error', { error: "The reply couldn't be saved to this conversation." });
               }
-          });
-        });
+          }
       }
 
-      res.json(analysisResult);
+      if (replied) stream.send('done', {});
+      stream.close();
+  });
+
+  // Translates a report into `language`. With `email` the report is looked up on the backend and the copy is
+  // saved alongside the original (replacing an older translation into the same language); otherwise the
+  // `report` sent along is translated and the copy is only returned.
+  // Applies `change` to the latest saved data of a report the caller already owns. The row is locked from the read to
+  // the write, so saves that overlap (a section edit during a translation, two interview uploads) each build on the
+  // other's result instead of overwriting it. `change` returns the fields to replace, or null to leave the report as is.
+  const updateReportData = (reportId: string, change: (current: ValidationReport) => Partial<ValidationReport> | null) =>
+    prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Report" WHERE id = ${reportId} FOR UPDATE`;
+      const { fullReportData } = await tx.report.findUniqueOrThrow({ where: { id: reportId }, select: { fullReportData: true } });
+      const current = fullReportData as unknown as ValidationReport;
+      const fields = change(current);
+      if (!fields) return null;
+      await tx.report.update({ where: { id: reportId }, data: { fullReportData: { ...current, ...fields } as any } });
+      return { ...current, ...fields };
+    });
+
+  app.post('/api/reports/:reportId/translations', async (req, res) => {
+    const { reportId } = req.params;
+    const { language, email, customModel } = req.body;
 
+    if (!getReportLanguage(language)) {
+      return res.status(400).json({ error: "Unsupported report language." });
+    }
+
+    try {
+      const saved = email ? await prisma.report.findFirst({ where: { id: reportId, user: { email } } }) : null;
+      const report = (saved?.fullReportData ?? req.body.report) as ValidationReport | undefined;
+      if (!report) {
+        return res.status(404).json({ error: "Report not found." });
+      }
+      if ((report.language || 'en') === language) {
+        return res.status(400).json({ error: "The report is already in this language." });
+      }
+
+      const provider = resolveProvider(customModel, "gemini-2.0-flash-exp");
+      const translation: ReportTranslation = {
+        language,
+        createdAt: Date.now(),
+        report: await translateReport(provider, report, language)
+      };
+
+      // Merged into the report as it is now, since it may have changed while the translation was written
+      if (saved) {
+        await updateReportData(reportId, current => ({
+          translations: [...(current.translations || []).filter(t => t.language !== language), translation]
+        }));
+      }
+      res.json(translation);
     } catch (error: any) {
-      console.error("Gemini/DB Error:", error);
-      if (error.message === "Insufficient credits") {
-          res.status(403).json({ error: "Insufficient credits." });
-      } else {
-          res.status(500).json({ error: error.message || "AI Analysis Failed" });
+      console.error("Translation Error:", error);
+      res.status(500).json({ error: error.message || "Translation failed" });
+    }
+  });
+
+  // Saves a section the founder edited (see EditableSection) over the one the analysis estimated
+  app.put('/api/reports/:reportId/sections/:section', async (req, res) => {
+    const { reportId, section } = req.params;
+    const { email } = req.body;
+    if (!email) {
+      return res.status(401).json({ error: "Sign in to save your changes." });
+    }
+    if (!Object.hasOwn(EDITABLE_SECTION_READERS, section)) {
+      return res.status(400).json({ error: "This section can't be edited." });
+    }
+
+    const errors: string[] = [];
+    const value = EDITABLE_SECTION_READERS[section as EditableSection](req.body.value, errors);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join(' ') });
+    }
+
+    try {
+      const saved = await prisma.report.findFirst({ where: { id: reportId, user: { email } }, select: { id: true } });
+      if (!saved) {
+        return res.status(404).json({ error: "Report not found." });
       }
+
+      const edited = { ...value, editedAt: Date.now() };
+      await updateReportData(reportId, () => ({ [section]: edited }));
+      res.json(edited);
+    } catch (error: any) {
+      console.error("Save Section Error:", error);
+      res.status(500).json({ error: "Failed to save your changes." });
     }
   });
 
-  app.post('/api/chat', async (req, res) => {
-      const { message, context } = req.body;
-      
-      try {
-          const response = await genAI.models.generateContent({
-              model: "gemini-2.0-flash-exp",
-              contents: [{ parts: [{ text: message }] }],
-              config: {
-                  systemInstruction: `
-                    Context: You are discussing a startup idea.
-                    Idea: ${context.originalIdea}
-                    Report Summary: ${JSON.stringify(context.report)}
-                    Role: Helpful Co-founder.
-                  `
-              }
-          });
-          res.json({ text: response.text });
-      } catch (error) {
-          console.error("Chat Error:", error);
-          res.status(500).json({ error: "Chat failed" });
+  // ---------------------------------------------------------
+  // Customer Research Routes (interview kit and survey)
+  // ---------------------------------------------------------
+
+  // Like translations: with `email` the report is read from (and the research saved to) the backend,
+  // otherwise the `report` sent along is used and the result is only returned.
+  // Research is saved with updateReportData, merged into the report as it is after the model call.
+  const loadResearchReport = async (reportId: string, email: string | undefined, report: ValidationReport | undefined) => {
+    const saved = email ? await prisma.report.findFirst({ where: { id: reportId, user: { email } } }) : null;
+    if (saved) return { saved, report: { ...(saved.fullReportData as any), originalIdea: saved.originalIdea } as ValidationReport };
+    return { saved: null, report };
+  };
+
+  app.post('/api/reports/:reportId/interview-script', async (req, res) => {
+    const { reportId } = req.params;
+    const { email, customModel } = req.body;
+    try {
+      const { saved, report } = await loadResearchReport(reportId, email, req.body.report);
+      if (!report) return res.status(404).json({ error: "Report not found." });
+
+      const script = await generateInterviewScript(resolveProvider(customModel, "gemini-2.0-flash-exp"), report);
+      const withScript = (kit?: InterviewKit): InterviewKit => ({ interviews: [], ...kit, script });
+      const updated = saved && await updateReportData(reportId, current => ({ interviewKit: withScript(current.interviewKit) }));
+      res.json(updated ? updated.interviewKit : withScript(report.interviewKit));
+    } catch (error: any) {
+      console.error("Interview Script Error:", error);
+      res.status(500).json({ error: error.message || "Failed to write the interview script" });
+    }
+  });
+
+  // Notes are pasted as `notes` or uploaded as a transcript `attachment` (text, PDF, DOCX or RTF)
+  app.post('/api/reports/:reportId/interviews', async (req, res) => {
+    const { reportId } = req.params;
+    const { email, customModel } = req.body;
+    const attachment: Attachment | undefined = req.body.attachment;
+    const notes = String(req.body.notes ?? '').trim();
+
+    if (!notes && !attachment) {
+      return res.status(400).json({ error: "Paste your interview notes or upload a transcript." });
+    }
+    if (attachment) {
+      const attachmentError = checkAttachmentLimits([attachment]);
+      if (attachmentError) return res.status(400).json({ error: attachmentError });
+    }
+
+    try {
+      const { saved, report } = await loadResearchReport(reportId, email, req.body.report);
+      if (!report) return res.status(404).json({ error: "Report not found." });
+
+      const text = attachment ? await readAttachmentText(attachment) : notes;
+      if (!text) {
+        return res.status(400).json({ error: "Only text, PDF, DOCX and RTF transcripts with readable text can be analyzed." });
+      }
+
+      const extracted = await analyzeInterviewNotes(resolveProvider(customModel, "gemini-2.0-flash-exp"), report, text);
+      const interviewee = String(req.body.interviewee ?? '').trim().substring(0, 120);
+      const interview: InterviewInsights = {
+        ...extracted,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        ...(interviewee && { interviewee }),
+        ...(attachment && { sourceName: attachment.name || 'Transcript' })
+      };
+      const withInterview = (kit?: InterviewKit): InterviewKit => ({ ...kit, interviews: [...(kit?.interviews || []), interview] });
+      const updated = saved && await updateReportData(reportId, current => ({ interviewKit: withInterview(current.interviewKit) }));
+      res.json(updated ? updated.interviewKit : withInterview(report.interviewKit));
+    } catch (error: any) {
+      console.error("Interview Notes Error:", error);
+      res.status(500).json({ error: error.message || "Failed to analyze the interview" });
+    }
+  });
+
+  app.delete('/api/reports/:reportId/interviews/:interviewId', async (req, res) => {
+    const { reportId, interviewId } = req.params;
+    const { email } = req.body;
+    if (!email) {
+      return res.status(401).json({ error: "Sign in to change saved interviews." });
+    }
+    try {
+      const { saved } = await loadResearchReport(reportId, email, undefined);
+      if (!saved) return res.status(404).json({ error: "Report not found." });
+
+      const updated = await updateReportData(reportId, current => ({
+        interviewKit: { ...current.interviewKit, interviews: (current.interviewKit?.interviews || []).filter(i => i.id !== interviewId) }
+      }));
+      res.json(updated!.interviewKit);
+    } catch (error) {
+      console.error("Delete Interview Error:", error);
+      res.status(500).json({ error: 'Delete failed' });
+    }
+  });
+
+  // Writes a new survey; results imported for an earlier one are dropped with it
+  app.post('/api/reports/:reportId/survey', async (req, res) => {
+    const { reportId } = req.params;
+    const { email, customModel } = req.body;
+    try {
+      const { saved, report } = await loadResearchReport(reportId, email, req.body.report);
+      if (!report) return res.status(404).json({ error: "Report not found." });
+
+      const survey = await generateSurvey(resolveProvider(customModel, "gemini-2.0-flash-exp"), report);
+      if (saved) await updateReportData(reportId, () => ({ survey }));
+      res.json(survey);
+    } catch (error: any) {
+      console.error("Survey Error:", error);
+      res.status(500).json({ error: error.message || "Failed to write the survey" });
+    }
+  });
+
+  // `responses` are the rows of the founder's export, already matched to question ids in the browser.
+  // Only the summary is kept, replacing the results of an earlier import.
+  app.post('/api/reports/:reportId/survey/responses', async (req, res) => {
+    const { reportId } = req.params;
+    const { email, responses } = req.body;
+    const fileName = String(req.body.fileName ?? '').trim().substring(0, 200) || 'Responses';
+
+    if (!Array.isArray(responses) || responses.length === 0) {
+      return res.status(400).json({ error: "The file has no responses." });
+    }
+    if (responses.length > MAX_SURVEY_RESPONSES) {
+      return res.status(400).json({ error: `You can import up to ${MAX_SURVEY_RESPONSES.toLocaleString('en-US')} responses at once.` });
+    }
+    if (!responses.every(r => isRecord(r) && Object.values(r).every(answer => typeof answer === 'string'))) {
+      return res.status(400).json({ error: "Each response must map question ids to answers." });
+    }
+
+    try {
+      const { saved, report } = await loadResearchReport(reportId, email, req.body.report);
+      if (!report) return res.status(404).json({ error: "Report not found." });
+      if (!report.survey) return res.status(400).json({ error: "Create the survey before importing its results." });
+
+      const results = computeSurveyResults(report.survey, responses as SurveyResponse[], fileName);
+      if (results.respondents === 0) {
+        return res.status(400).json({ error: "None of the responses answer a survey question. Check which column each question was matched to." });
+      }
+      const survey: Survey = { ...report.survey, results };
+      // The columns were matched to this survey's questions, so results are dropped if it was rewritten meanwhile
+      const updated = saved && await updateReportData(reportId, current =>
+        current.survey?.createdAt === survey.createdAt ? { survey: { ...current.survey, results } } : null);
+      if (saved && !updated) return res.status(409).json({ error: "The survey was rewritten while importing. Import the responses again." });
+      res.json(updated ? updated.survey : survey);
+    } catch (error) {
+      console.error("Survey Import Error:", error);
+      res.status(500).json({ error: "Failed to import the responses" });
+    }
+  });
+
+  // ---------------------------------------------------------
+  // Chat Thread Routes
+  // ---------------------------------------------------------
+
+  const toThreadSummary = (t: { id: string; reportId: string; title: string; createdAt: Date; updatedAt: Date }, messageCount?: number) => ({
+    id: t.id,
+    reportId: t.reportId,
+    title: t.title,
+    createdAt: t.createdAt.getTime(),
+    updatedAt: t.updatedAt.getTime(),
+    messageCount
+  });
+
+  // Threads belong to the owner of the report; every route takes their `email` (in the query string for GETs)
+  const ownedThread = (threadId: string, email: unknown) => ({ id: threadId, report: { user: { email: String(email) } } });
+
+  app.get('/api/reports/:reportId/threads', async (req, res) => {
+    const { reportId } = req.params;
+    const { email } = req.query;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to see saved conversations.' });
+    }
+    try {
+      const report = await prisma.report.findFirst({
+        where: { id: reportId, user: { email: String(email) } },
+        include: {
+          chatThreads: {
+            orderBy: { updatedAt: 'desc' },
+            include: { _count: { select: { messages: true } } }
+          }
+        }
+      });
+
+      if (!report) return res.status(404).json({ error: 'Report not found' });
+
+      res.json(report.chatThreads.map(t => toThreadSummary(t, t._count.messages)));
+    } catch (error) {
+      console.error("Fetch Threads Error:", error);
+      res.status(500).json({ error: 'Failed to fetch conversations' });
+    }
+  });
+
+  app.post('/api/reports/:reportId/threads', async (req, res) => {
+    const { reportId } = req.params;
+    const { email } = req.body;
+    const title = (req.body.title || '').trim() || 'New conversation';
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to save conversations.' });
+    }
+    try {
+      const report = await prisma.report.findFirst({ where: { id: reportId, user: { email } }, select: { id: true } });
+      if (!report) return res.status(404).json({ error: 'Report not found' });
+
+      const thread = await prisma.chatThread.create({
+        data: { reportId, title: title.substring(0, 120) }
+      });
+      res.json(toThreadSummary(thread, 0));
+    } catch (error) {
+      console.error("Create Thread Error:", error);
+      res.status(500).json({ error: 'Failed to create conversation' });
+    }
+  });
+
+  app.get('/api/threads/:threadId', async (req, res) => {
+    const { threadId } = req.params;
+    const { email } = req.query;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to see saved conversations.' });
+    }
+    try {
+      const thread = await prisma.chatThread.findFirst({
+        where: ownedThread(threadId, email),
+        include: { messages: { orderBy: { createdAt: 'asc' } } }
+      });
+
+      if (!thread) return res.status(404).json({ error: 'Conversation not found' });
+
+      res.json({
+        thread: toThreadSummary(thread, thread.messages.length),
+        messages: thread.messages.map(m => ({
+          id: m.id,
+          role: m.role,
+          text: m.text,
+          timestamp: m.createdAt.getTime()
+        }))
+      });
+    } catch (error) {
+      console.error("Fetch Thread Error:", error);
+      res.status(500).json({ error: 'Failed to load conversation' });
+    }
+  });
+
+  app.patch('/api/threads/:threadId', async (req, res) => {
+    const { threadId } = req.params;
+    const { email } = req.body;
+    const title = (req.body.title || '').trim();
+
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to rename conversations.' });
+    }
+    if (!title) {
+      return res.status(400).json({ error: 'Title is required.' });
+    }
+
+    try {
+      const { count } = await prisma.chatThread.updateMany({
+        where: ownedThread(threadId, email),
+        data: { title: title.substring(0, 120) }
+      });
+      if (count === 0) return res.status(404).json({ error: 'Conversation not found' });
+
+      const thread = await prisma.chatThread.findUniqueOrThrow({ where: { id: threadId } });
+      res.json(toThreadSummary(thread));
+    } catch (error) {
+      console.error("Rename Thread Error:", error);
+      res.status(500).json({ error: 'Rename failed' });
+    }
+  });
+
+  app.delete('/api/threads/:threadId', async (req, res) => {
+    const { threadId } = req.params;
+    const { email } = req.body;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to delete conversations.' });
+    }
+    try {
+      const { count } = await prisma.chatThread.deleteMany({ where: ownedThread(threadId, email) });
+      if (count === 0) return res.status(404).json({ error: 'Conversation not found' });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Delete failed' });
+    }
+  });
+
+  // ---------------------------------------------------------
+  // Experiment Routes
+  // ---------------------------------------------------------
+
+  const experimentInclude = { evidence: { orderBy: { createdAt: 'asc' as const } } };
+
+  // Experiments belong to the owner of the report; every route takes their `email` (in the query string for GETs)
+  const ownedExperiment = (experimentId: string, email: string) => ({ id: experimentId, report: { user: { email } } });
+
+  app.get('/api/reports/:reportId/experiments', async (req, res) => {
+    const { reportId } = req.params;
+    const { email } = req.query;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to track experiments.' });
+    }
+    try {
+      const experiments = await prisma.experiment.findMany({
+        where: { reportId, report: { user: { email: String(email) } } },
+        include: experimentInclude,
+        orderBy: { position: 'asc' }
+      });
+      res.json(experiments.map(toExperiment));
+    } catch (error) {
+      console.error("Fetch Experiments Error:", error);
+      res.status(500).json({ error: 'Failed to fetch experiments' });
+    }
+  });
+
+  // Turns the report's next steps into experiments, drafting a hypothesis, metric and due date for each
+  app.post('/api/reports/:reportId/experiments', async (req, res) => {
+    const { reportId } = req.params;
+    const { email, customModel } = req.body;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to track experiments.' });
+    }
+    try {
+      const saved = await prisma.report.findFirst({ where: { id: reportId, user: { email } }, include: { _count: { select: { experiments: true } } } });
+      if (!saved) return res.status(404).json({ error: 'Report not found' });
+      if (saved._count.experiments > 0) {
+        return res.status(409).json({ error: 'This report already has experiments.' });
       }
+
+      const report = { ...(saved.fullReportData as any), originalIdea: saved.originalIdea } as ValidationReport;
+      const drafts = await draftExperiments(resolveProvider(customModel, "gemini-2.0-flash-exp"), report);
+      const experiments = await prisma.$transaction(drafts.map((draft, position) => prisma.experiment.create({
+        data: {
+          reportId,
+          step: draft.step,
+          hypothesis: draft.hypothesis.substring(0, 500),
+          metric: draft.metric.substring(0, 500),
+          dueDate: new Date(Date.now() + draft.dueInDays * 24 * 60 * 60 * 1000),
+          position
+        },
+        include: experimentInclude
+      })));
+      res.json(experiments.map(toExperiment));
+    } catch (error: any) {
+      console.error("Create Experiments Error:", error);
+      res.status(500).json({ error: error.message || 'Failed to create experiments' });
+    }
+  });
+
+  app.patch('/api/experiments/:experimentId', async (req, res) => {
+    const { experimentId } = req.params;
+    const { email, hypothesis, metric, status, dueDate } = req.body;
+
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to track experiments.' });
+    }
+    if ((hypothesis !== undefined && !String(hypothesis).trim()) || (metric !== undefined && !String(metric).trim())) {
+      return res.status(400).json({ error: 'Hypothesis and metric cannot be empty.' });
+    }
+    if (status !== undefined && !EXPERIMENT_STATUSES.some(s => s.id === status)) {
+      return res.status(400).json({ error: `Unknown status. Choose one of: ${EXPERIMENT_STATUSES.map(s => s.id).join(', ')}.` });
+    }
+    if (dueDate !== undefined && dueDate !== null && !Number.isFinite(dueDate)) {
+      return res.status(400).json({ error: 'The due date must be a timestamp.' });
+    }
+
+    try {
+      const owned = await prisma.experiment.findFirst({ where: ownedExperiment(experimentId, email), select: { id: true } });
+      if (!owned) return res.status(404).json({ error: 'Experiment not found' });
+
+      const experiment = await prisma.experiment.update({
+        where: { id: experimentId },
+        data: {
+          ...(hypothesis !== undefined && { hypothesis: String(hypothesis).trim().substring(0, 500) }),
+          ...(metric !== undefined && { metric: String(metric).trim().substring(0, 500) }),
+          ...(status !== undefined && { status }),
+          ...(dueDate !== undefined && { dueDate: dueDate === null ? null : new Date(dueDate) })
+        },
+        include: experimentInclude
+      });
+      res.json(toExperiment(experiment));
+    } catch (error) {
+      console.error("Update Experiment Error:", error);
+      res.status(500).json({ error: 'Update failed' });
+    }
+  });
+
+  // Notes and numbers are stored as given; files as the text extracted from them
+  app.post('/api/experiments/:experimentId/evidence', async (req, res) => {
+    const { experimentId } = req.params;
+    const { email } = req.body;
+    const kind: EvidenceKind = req.body.kind;
+    const text = String(req.body.text ?? '').trim();
+    const attachment: Attachment | undefined = req.body.attachment;
+
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to track experiments.' });
+    }
+    if (!['note', 'number', 'file'].includes(kind)) {
+      return res.status(400).json({ error: 'Evidence must be a note, a number or a file.' });
+    }
+    if (kind !== 'file' && !text) {
+      return res.status(400).json({ error: kind === 'number' ? 'Describe what the number measures.' : 'The note is empty.' });
+    }
+    if (kind === 'number' && !Number.isFinite(req.body.value)) {
+      return res.status(400).json({ error: 'Enter a number.' });
+    }
+    if (kind === 'file') {
+      const attachmentError = attachment ? checkAttachmentLimits([attachment]) : 'Attach a file.';
+      if (attachmentError) return res.status(400).json({ error: attachmentError });
+    }
+
+    try {
+      const owned = await prisma.experiment.findFirst({ where: ownedExperiment(experimentId, email), select: { id: true } });
+      if (!owned) return res.status(404).json({ error: 'Experiment not found' });
+
+      const fileText = kind === 'file' ? await readAttachmentText(attachment!) : null;
+      if (kind === 'file' && !fileText) {
+        return res.status(400).json({ error: 'Only text, PDF, DOCX and RTF files with readable text can be added as evidence.' });
+      }
+
+      const evidence = await prisma.evidence.create({
+        data: {
+          experimentId,
+          kind,
+          text: fileText ?? text,
+          ...(kind === 'number' && { value: req.body.value }),
+          ...(kind === 'file' && { fileName: attachment!.name || 'Attachment' })
+        }
+      });
+      res.json(toEvidence(evidence));
+    } catch (error) {
+      console.error("Add Evidence Error:", error);
+      res.status(500).json({ error: 'Failed to add evidence' });
+    }
+  });
+
+  app.delete('/api/evidence/:evidenceId', async (req, res) => {
+    const { evidenceId } = req.params;
+    const { email } = req.body;
+    if (!email) {
+      return res.status(401).json({ error: 'Sign in to track experiments.' });
+    }
+    try {
+      const { count } = await prisma.evidence.deleteMany({ where: { id: evidenceId, experiment: { report: { user: { email } } } } });
+      if (count === 0) return res.status(404).json({ error: 'Evidence not found' });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Delete failed' });
+    }
   });
 
   // ---------------------------------------------------------
@@ -435,6 +938,7 @@ async function startServer() {
       const history = user.reports.map(r => ({
         ...(r.fullReportData as any), 
         id: r.id,
+        ideaId: r.ideaId ?? undefined,
         createdAt: new Date(r.createdAt).getTime(),
         originalIdea: r.originalIdea
       }));
@@ -0,0 +1,427 @@
+import { LLMAttachment, LLMMessage, LLMProvider, LLMRequest } from './llm';
+import { ReportFields, ReportValidationResult, RubricOptions, deriveViabilityScore, readSubScores, validateReport } from './reportValidator';
+import { VERTICAL_JSON_SCHEMA, buildVerticalInstructions, describeVerticalValue } from './verticals';
+import { INVALID_JSON_ERROR, MAX_REPAIR_ATTEMPTS, buildRepairPrompt, extractJsonObject } from './json';
+import { isTextMimeType } from './mime';
+import { MARKET_SIZING_ASSUMPTIONS, MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES, MAX_TOTAL_ATTACHMENT_BYTES, PROJECTION_MONTHS, SUB_SCORE_DIMENSIONS, UNIT_ECONOMICS_INPUTS, getLens, getReportLanguage } from '../types';
+import type { AnalysisLens, AnalysisProgress, AnalysisStage, Attachment, SizingApproach, SourceDocument, SubScoreDimension, ValidationReport } from '../types';
+
+// How each lens changes the persona, what the report stresses and how some rubric dimensions are read
+const LENS_PROMPTS: Record<AnalysisLens, { persona: string; focus?: string; rubric?: Partial<Record<SubScoreDimension, string>> }> = {
+  general: {
+    persona: 'You are an expert startup advisor and product manager.'
+  },
+  vc: {
+    persona: 'You are an experienced venture capital partner screening deals.',
+    focus: 'Judge whether this can become a venture-scale company: a market big enough for $100M+ in revenue, defensibility and fast growth. Stress what would have to be true for a 10x return.',
+    rubric: {
+      marketSize: 'how big the reachable market is at venture scale; a market under $1B scores low.',
+      timing: 'whether a recent shift makes this the moment for rapid growth.'
+    }
+  },
+  bootstrapper: {
+    persona: 'You are a profitable bootstrapped founder advising another founder without outside funding.',
+    focus: 'Judge how quickly this can reach first revenue and pay for itself. Stress the cheapest path to the first paying customers, time to first revenue and running costs.',
+    rubric: {
+      monetizationClarity: 'how quickly and cheaply the first paying customers can be reached; months to first revenue matter most.',
+      technicalFeasibility: 'whether one or two people can build and run it on a small budget.'
+    }
+  },
+  corporate: {
+    persona: 'You are a corporate innovation lead deciding whether to incubate this inside an established company.',
+    focus: "Judge the fit with an incumbent's assets (customers, distribution, data, brand), build vs. buy vs. partner, and cannibalization or compliance risks. Stress what a pilot with existing customers would look like.",
+    rubric: {
+      founderFit: "how well the team and the company's existing assets fit the problem."
+    }
+  },
+  grant: {
+    persona: 'You are a reviewer for a public innovation grant programme.',
+    focus: "Judge innovation, feasibility of the work plan, societal or economic impact and the team's capacity to deliver. Stress measurable milestones and impact rather than investor returns.",
+    rubric: {
+      competitionIntensity: 'how novel the approach is compared with existing solutions; 100 means clearly beyond the state of the art.',
+      monetizationClarity: 'how the project sustains itself after the grant (revenue, follow-on funding or adoption).',
+      founderFit: "the team's capability and track record to deliver the proposed work; use 50 if they shared nothing about themselves."
+    }
+  }
+};
+
+const DEFAULT_RUBRIC: Record<SubScoreDimension, string> = {
+  marketSize: 'how many people or businesses have this problem and can pay to solve it.',
+  competitionIntensity: '100 means an open field, 0 means dominated by entrenched players.',
+  monetizationClarity: 'how obvious and proven the path to revenue is.',
+  technicalFeasibility: 'how realistically a small team can build the first version.',
+  timing: 'whether there is a clear "why now".',
+  founderFit: "how well the founder's stated background matches the problem; use 50 if they shared nothing about themselves."
+};
+
+const SIZING_APPROACHES = Object.keys(MARKET_SIZING_ASSUMPTIONS) as SizingApproach[];
+
+const ASSUMPTION_UNIT_HINTS = { count: 'a count', currency: 'an amount in "currency"', percent: 'a percentage, 0-100' };
+
+// Prompts stay in English; `language` (a REPORT_LANGUAGES code) only changes the language the report is written in
+
+export const buildAnalysisSystemPrompt = ({ lens = 'general', vertical }: RubricOptions = {}, language?: string) => {
+  const { persona, focus, rubric } = LENS_PROMPTS[lens];
+  const { weights } = getLens(lens);
+  const reportLanguage = getReportLanguage(language);
+
+  return `${persona} Your goal is to provide honest, clear, and encouraging feedback to founders. Do not use hype. Do not use investor jargon. Be direct but kind. Analyze the user's startup idea.${focus ? ` ${focus}` : ''} Return a structured validation report in JSON.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting like \`\`\`json. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema, with the fields in this order:
+{
+  "vertical": ${describeVerticalValue(vertical)},
+  "marketReality": "string",
+  "marketSizing": {
+    "currency": "USD",
+${SIZING_APPROACHES.map(approach => `    "${approach}": {${MARKET_SIZING_ASSUMPTIONS[approach].map(({ key }) => `"${key}": {"value": number, "source": "string"}`).join(', ')}}`).join(',\n')}
+  },
+  "pros": ["string"],
+  "cons": ["string"],
+  "competitors": [{"name": "string", "differentiation": "string"}],
+  "monetizationStrategies": ["string"],
+  "whyPeoplePay": "string",
+  "unitEconomics": {
+    "currency": "USD",
+    "strategy": "string",
+    "inputs": {${UNIT_ECONOMICS_INPUTS.map(({ key }) => `"${key}": {"value": number, "source": "string"}`).join(', ')}}
+  },
+  "verticalSection": {see below}${vertical ? '' : ' | null'},
+  "subScores": {
+    "marketSize": {"score": 70, "rationale": "string"},
+    "competitionIntensity": {"score": 70, "rationale": "string"},
+    "monetizationClarity": {"score": 70, "rationale": "string"},
+    "technicalFeasibility": {"score": 70, "rationale": "string"},
+    "timing": {"score": 70, "rationale": "string"},
+    "founderFit": {"score": 70, "rationale": "string"}
+  },
+  "summaryVerdict": "Promising" | "Risky" | "Needs Refinement",
+  "oneLineTakeaway": "string",
+  "nextSteps": ["string"]
+}
+
+Score every sub-score from 0 to 100, where higher is always better for the founder, with a one-sentence rationale:
+${SUB_SCORE_DIMENSIONS.map(({ id }) => `- ${id}: ${rubric?.[id] || DEFAULT_RUBRIC[id]}`).join('\n')}
+The overall viability score is calculated from these (weights: ${SUB_SCORE_DIMENSIONS.map(({ id }) => `${id} ${Math.round(weights[id] * 100)}%`).join(', ')}), so do not return one.
+
+Size the market from explicit assumptions, both bottom-up (TAM = customers × annual price, SAM = TAM × servable share, SOM = SAM × penetration rate) and top-down (TAM = industry spend, SAM = TAM × segment share, SOM = SAM × market share). The totals are calculated from the assumptions, so only return the assumptions:
+${SIZING_APPROACHES.flatMap(approach => MARKET_SIZING_ASSUMPTIONS[approach].map(({ key, unit, description }) => `- ${approach}.${key}: ${description} (${ASSUMPTION_UNIT_HINTS[unit]}).`)).join('\n')}
+Give every assumption a "source": a named report or public statistic where you know one, otherwise "Estimate: " followed by the reasoning.
+
+Model the unit economics of the most likely of your monetization strategies: name it in "unitEconomics.strategy" and use the same currency as the market sizing. LTV, payback period and a ${PROJECTION_MONTHS}-month projection are calculated from these inputs, so only return the inputs, each with a "source" as above:
+${UNIT_ECONOMICS_INPUTS.map(({ key, unit, description }) => `- ${key}: ${description} (${ASSUMPTION_UNIT_HINTS[unit]}).`).join('\n')}
+
+${buildVerticalInstructions(vertical)}${reportLanguage && reportLanguage.code !== 'en' ? `
+
+Write every text value in ${reportLanguage.label}. Keep the JSON keys and the fixed values of "vertical", "summaryVerdict" and the risk levels exactly as given above, in English.` : ''}`;
+};
+
+const ASSUMPTION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    value: { type: 'number' },
+    source: { type: 'string' }
+  },
+  required: ['value', 'source']
+};
+
+// Property order matters: models write fields in this order, which is what drives the live progress stages.
+export const REPORT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    vertical: VERTICAL_JSON_SCHEMA.vertical,
+    marketReality: { type: 'string' },
+    marketSizing: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string' },
+        ...Object.fromEntries(SIZING_APPROACHES.map(approach => [approach, {
+          type: 'object',
+          properties: Object.fromEntries(MARKET_SIZING_ASSUMPTIONS[approach].map(({ key }) => [key, ASSUMPTION_JSON_SCHEMA])),
+          required: MARKET_SIZING_ASSUMPTIONS[approach].map(({ key }) => key)
+        }]))
+      },
+      required: ['currency', ...SIZING_APPROACHES]
+    },
+    pros: { type: 'array', items: { type: 'string' } },
+    cons: { type: 'array', items: { type: 'string' } },
+    competitors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          differentiation: { type: 'string' }
+        }
+      }
+    },
+    monetizationStrategies: { type: 'array', items: { type: 'string' } },
+    whyPeoplePay: { type: 'string' },
+    unitEconomics: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string' },
+        strategy: { type: 'string' },
+        inputs: {
+          type: 'object',
+          properties: Object.fromEntries(UNIT_ECONOMICS_INPUTS.map(({ key }) => [key, ASSUMPTION_JSON_SCHEMA])),
+          required: UNIT_ECONOMICS_INPUTS.map(({ key }) => key)
+        }
+      },
+      required: ['currency', 'strategy', 'inputs']
+    },
+    verticalSection: VERTICAL_JSON_SCHEMA.verticalSection,
+    subScores: {
+      type: 'object',
+      properties: Object.fromEntries(SUB_SCORE_DIMENSIONS.map(({ id }) => [id, {
+        type: 'object',
+        properties: {
+          score: { type: 'integer' },
+          rationale: { type: 'string' }
+        },
+        required: ['score', 'rationale']
+      }])),
+      required: SUB_SCORE_DIMENSIONS.map(({ id }) => id)
+    },
+    summaryVerdict: { type: 'string', enum: ['Promising', 'Risky', 'Needs Refinement'] },
+    oneLineTakeaway: { type: 'string' },
+    nextSteps: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+// Each stage is reported once all of its fields have been fully written by the model.
+export const ANALYSIS_STAGES: { stage: AnalysisStage; fields: (keyof ValidationReport)[] }[] = [
+  { stage: 'market', fields: ['marketReality', 'marketSizing'] },
+  { stage: 'strengths', fields: ['pros', 'cons'] },
+  { stage: 'competitors', fields: ['competitors'] },
+  { stage: 'monetization', fields: ['monetizationStrategies', 'whyPeoplePay', 'unitEconomics'] },
+  { stage: 'verdict', fields: ['subScores', 'summaryVerdict', 'oneLineTakeaway'] },
+  { stage: 'nextSteps', fields: ['nextSteps'] }
+];
+
+// Returns the top-level fields of a (possibly still streaming) JSON object whose values are completely written.
+const readCompletedFields = (text: string): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  const start = text.indexOf('{');
+  if (start === -1) return fields;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let afterColon = false;
+  let key: string | null = null;
+  let keyStart = -1;
+  let valueStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (keyStart !== -1) {
+          key = JSON.parse(text.slice(keyStart, i + 1));
+          keyStart = -1;
+        }
+      }
+      continue;
+    }
+
+    if (afterColon && !/\s/.test(ch)) {
+      valueStart = i;
+      afterColon = false;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      if (depth === 1 && key === null) keyStart = i;
+      continue;
+    }
+    if (ch === '{' || ch === '[') depth++;
+    if (ch === '}' || ch === ']') depth--;
+    if (ch === ':' && depth === 1 && key !== null && valueStart === -1) afterColon = true;
+
+    // A top-level value ends at the next top-level comma or at the closing brace
+    if ((ch === ',' && depth === 1) || depth === 0) {
+      if (key !== null && valueStart !== -1) {
+        try {
+          fields[key] = JSON.parse(text.slice(valueStart, i).trim());
+        } catch (e) {
+          // Value not parseable yet; final validation decides
+        }
+      }
+      key = null;
+      valueStart = -1;
+      if (depth === 0) break;
+    }
+  }
+
+  return fields;
+};
+
+// Returns progress events for stages that finished since the last call; `reported` tracks what was already sent.
+export const collectFinishedStages = (partialJson: string, reported: Set<AnalysisStage>, lens?: AnalysisLens): AnalysisProgress[] => {
+  const fields = readCompletedFields(partialJson);
+  const finished: AnalysisProgress[] = [];
+
+  ANALYSIS_STAGES.forEach(({ stage, fields: stageFields }) => {
+    if (reported.has(stage) || !stageFields.every(field => field in fields)) return;
+    reported.add(stage);
+    const section = Object.fromEntries(stageFields.map(field => [field, fields[field]])) as Partial<ValidationReport>;
+
+    // Show the overall score as soon as the rubric is complete
+    if (stage === 'verdict') {
+      const errors: string[] = [];
+      const subScores = readSubScores(section.subScores, errors);
+      if (errors.length === 0) section.viabilityScore = deriveViabilityScore(subScores, lens);
+    }
+    finished.push({ stage, section });
+  });
+
+  return finished;
+};
+
+const describeMimeType = (mimeType: string) => {
+  if (mimeType === 'application/pdf') return 'PDF';
+  if (mimeType.startsWith('audio/') || mimeType.includes('webm') || mimeType.includes('mp4') || mimeType.includes('mpeg')) return 'Audio';
+  return 'file';
+};
+
+// Size of the decoded file behind a base64 string
+const decodedSize = (base64: string) => Math.floor(base64.length * 3 / 4) - (base64.match(/=+$/)?.[0].length || 0);
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
+
+// Returns a user-facing error when the attachments are malformed or over the count or size limits, otherwise null.
+export const checkAttachmentLimits = (attachments: unknown): string | null => {
+  if (!Array.isArray(attachments)) return 'Attachments must be a list of files.';
+  if (attachments.length > MAX_ATTACHMENTS) return `You can attach up to ${MAX_ATTACHMENTS} files per analysis.`;
+
+  let totalSize = 0;
+  for (const attachment of attachments as Partial<Attachment>[]) {
+    if (typeof attachment?.name !== 'string' || typeof attachment.mimeType !== 'string' || typeof attachment.data !== 'string') {
+      return 'Each attachment needs a name, a MIME type and base64 data.';
+    }
+    const size = decodedSize(attachment.data);
+    if (size > MAX_ATTACHMENT_BYTES) return `${attachment.name} is too large. Max size per file is ${formatMegabytes(MAX_ATTACHMENT_BYTES)}.`;
+    totalSize += size;
+  }
+  if (totalSize > MAX_TOTAL_ATTACHMENT_BYTES) return `Attachments are too large together. Max total size is ${formatMegabytes(MAX_TOTAL_ATTACHMENT_BYTES)}.`;
+  return null;
+};
+
+// Returns a user-facing error when the chosen provider cannot read the attachment, otherwise null.
+// Pass no attachment when its text was already extracted (see extractDocument).
+export const checkAttachmentSupport = (provider: LLMProvider, attachment?: LLMAttachment): string | null => {
+  const label = attachment?.name ? ` (${attachment.name})` : '';
+  if (attachment?.mimeType === 'application/msword') {
+    return `Legacy Word (.doc) files cannot be read${label}. Please save it as .docx or PDF and try again.`;
+  }
+  if (!attachment || isTextMimeType(attachment.mimeType) || provider.supportsAttachment(attachment.mimeType)) {
+    return null;
+  }
+  return `${provider.name} cannot read this ${describeMimeType(attachment.mimeType)} attachment${label}. Please remove it or switch to ZauriScore / Google.`;
+};
+
+// Every attachment is labeled "Document N: name" so the report can say where a point came from.
+// documents[i] is the extracted text of attachments[i] (if any) and replaces it, so the model only sees the normalized text.
+// `evidence` is what the founder learned from the experiments and survey of an earlier version, when rescoring
+export const buildAnalysisMessages = (idea: string | undefined, attachments: LLMAttachment[] = [], documents: (SourceDocument | null)[] = [], evidence?: string): LLMMessage[] => {
+  let userText = idea ? idea.trim() : '';
+  const files: LLMAttachment[] = [];
+
+  attachments.forEach((attachment, i) => {
+    const label = `Document ${i + 1}: ${attachment.name || `Attachment ${i + 1}`}`;
+    const document = documents[i];
+    if (document) {
+      userText += `\n\n--- ${label} (${document.format.toUpperCase()}) ---\n${document.text}`;
+    } else if (isTextMimeType(attachment.mimeType)) {
+      const decodedText = Buffer.from(attachment.data, 'base64').toString('utf8');
+      userText += `\n\n--- ${label} ---\n${decodedText}`;
+    } else {
+      userText += `\n\n--- ${label} (attached file ${files.length + 1}) ---`;
+      files.push(attachment);
+    }
+  });
+
+  if (!userText) {
+    userText = 'Please analyze the attached file and provide the startup validation report.';
+  }
+
+  const citation = attachments.length > 0
+    ? '\nWhen a point comes from one of the documents, name the document in that point, e.g. "(per pitch-deck.pdf)".'
+    : '';
+
+  // Real-world results outweigh the model's own assumptions, in both directions
+  const evidenceText = evidence
+    ? `\n=== EVIDENCE FROM THE FOUNDER'S EXPERIMENTS AND SURVEY ===\n${evidence}\n========================\nThe founder has tested parts of this idea since the last analysis. Weigh this evidence above your own assumptions: validated hypotheses and survey answers showing frequent, painful problems and acceptable prices should raise the sub-scores they bear on, while invalidated hypotheses and weak survey demand lower them. Prefer the survey's price range over your own pricing estimates. Cite the evidence in the affected rationales, and base the next steps on what is still untested.\n`
+    : '';
+
+  return [{
+    role: 'user',
+    text: `=== STARTUP IDEA TO ANALYZE ===\n${userText}\n========================\n${evidenceText}${citation}\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.`,
+    attachments: files
+  }];
+};
+
+// Parses raw model output (tolerating code fences and chatter around the JSON) and validates it.
+export const parseReportOutput = (resultText: string, rubric?: RubricOptions): ReportValidationResult => {
+  if (!resultText?.trim()) {
+    return { report: null, errors: ['The response was empty.'] };
+  }
+
+  try {
+    return validateReport(JSON.parse(extractJsonObject(resultText)), rubric);
+  } catch (e) {
+    return { report: null, errors: [INVALID_JSON_ERROR] };
+  }
+};
+
+// Turns the model's first answer into a valid report, asking the model to fix its own output when
+// validation fails. Throws with the remaining problems if it still isn't valid, so nothing half-valid gets saved.
+export const ensureValidReport = async (provider: LLMProvider, request: LLMRequest, firstOutput: string, rubric?: RubricOptions): Promise<ReportFields> => {
+  let output = firstOutput;
+  let messages = request.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const { report, errors } = parseReportOutput(output, rubric);
+    if (report) return report;
+
+    console.warn(`Invalid report from ${provider.name} (attempt ${attempt + 1}):`, errors);
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      // If the model refused to output JSON, show its own words to the user
+      const peek = output.length > 200 ? output.substring(0, 200) + '...' : output;
+      if (!output.includes('{') && /please provide|i need|idea/i.test(peek)) {
+        throw new Error(`The AI requested more information: "${peek.trim()}"\n\nPlease check your input and try again.`);
+      }
+      throw new Error(`${provider.name} returned an invalid report: ${errors.join(' ')}`);
+    }
+
+    messages = [
+      ...messages,
+      { role: 'assistant', text: output },
+      { role: 'user', text: buildRepairPrompt(errors) }
+    ];
+    output = await provider.generate({ ...request, messages });
+  }
+};
+
+// Runs one analysis end to end. With `onProgress` the model output is streamed and each stage
+// is reported as soon as it is written; the result is always a validated report.
+// `rubric` must match the one the request's system prompt was built for, so the score uses its weights.
+export const runAnalysis = async (provider: LLMProvider, request: LLMRequest, onProgress?: (progress: AnalysisProgress) => void, rubric: RubricOptions = {}): Promise<ReportFields> => {
+  if (!onProgress) {
+    return ensureValidReport(provider, request, await provider.generate(request), rubric);
+  }
+
+  let responseText = '';
+  const reported = new Set<AnalysisStage>();
+  for await (const text of provider.stream(request)) {
+    responseText += text;
+    collectFinishedStages(responseText, reported, rubric.lens).forEach(onProgress);
+  }
+  return ensureValidReport(provider, request, responseText, rubric);
+};
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import type { Request, Response } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { LLMRequest, resolveProvider } from './llm';
+import { REPORT_JSON_SCHEMA, buildAnalysisMessages, buildAnalysisSystemPrompt, checkAttachmentLimits, checkAttachmentSupport, runAnalysis } from './analysis';
+import { checkDocumentLength, condenseDocuments, extractDocument, toDocumentExcerpt, toSourceDocument } from './documents';
+import { runDeckReview } from './deckReview';
+import { runCompetitorMatrix } from './competitorMatrix';
+import { runEnsemble } from './ensemble';
+import { MAX_SAMPLES, MIN_SAMPLES, runStabilitySamples } from './stability';
+import { formatExperimentEvidence, toExperiment } from './experiments';
+import { formatSurveyEvidence } from './surveys';
+import { openEventStream, EventStream } from './sse';
+import { ANALYSIS_LENSES, EXPERIMENT_STATUSES, INDUSTRY_VERTICALS, MAX_ENSEMBLE_MODELS, getReportLanguage } from '../types';
+import type { AnalysisLens, AnalysisProgress, Attachment, CustomModelConfig, IndustryVertical, Survey } from '../types';
+
+// The /api/analyze handler, shared by the Express server and the serverless function (api/analyze.js)
+
+// Returns the report as JSON, or with `Accept: text/event-stream` streams `progress` events
+// as each report stage is written, followed by `report` (or `error`).
+// With `ensembleModels` (2+ custom models) every model analyzes the idea and the reports are merged.
+// With `samples` (stability mode) the analysis is sampled several times for a confidence interval.
+// With `ideaId` the report is saved as a new version of that idea project.
+// With `deckReview` the attached PDF pitch deck also gets slide-by-slide feedback.
+// With `competitorMatrix` the report's competitors are profiled and compared feature by feature.
+// With `lens` (vc, bootstrapper, corporate, grant) the prompt and rubric weights follow that perspective.
+// With `vertical` the idea's industry is fixed instead of detected; either way it gets that vertical's section.
+// With `language` the report is written in that language instead of English.
+export const createAnalyzeHandler = (prisma: PrismaClient) => async (req: Request, res: Response) => {
+  const { idea, email, customModel, ideaId } = req.body;
+  const attachments: Attachment[] = req.body.attachments ?? [];
+  const lens: AnalysisLens = req.body.lens ?? 'general';
+  const vertical: IndustryVertical | undefined = req.body.vertical || undefined;
+  const language: string | undefined = req.body.language || undefined;
+  const evidenceFrom: string | undefined = req.body.evidenceFrom || undefined;
+  const documentsFrom: string | undefined = req.body.documentsFrom || undefined;
+  const ensembleModels: CustomModelConfig[] = Array.isArray(req.body.ensembleModels) ? req.body.ensembleModels : [];
+  const isEnsemble = ensembleModels.length > 1;
+  const samples = Number(req.body.samples) || 1;
+  // Runs on the user's own models (API key or self-hosted server) don't consume ZauriScore credits
+  const usesOwnKey = isEnsemble || Boolean(customModel?.provider);
+  // Each stability sample is a full analysis; samples that fail are refunded once the run is in
+  const creditCost = samples;
+  let stream: EventStream | null = null;
+  let chargesCredits = false;
+  // Credits taken from the user for this run, given back if it fails
+  let reservedCredits = 0;
+  const refundCredits = async () => {
+    if (reservedCredits === 0) return;
+    const credits = reservedCredits;
+    reservedCredits = 0;
+    await prisma.user.update({ where: { email }, data: { credits: { increment: credits } } })
+      .catch(refundError => console.error("Credit Refund Error:", refundError));
+  };
+
+  try {
+    // 1. SECURITY CHECK: Verify Credits if user is logged in
+    if (email) {
+      const user = await prisma.user.findUnique({ where: { email } });
+      
+      if (!user) {
+        return res.status(404).json({ error: "User account not found." });
+      }
+
+      chargesCredits = !usesOwnKey && !user.isPro;
+      if (chargesCredits && user.credits < creditCost) {
+        return res.status(403).json({ error: "Insufficient credits. Please upgrade or purchase more." });
+      }
+    }
+
+    const attachmentLimitError = checkAttachmentLimits(attachments);
+    if (attachmentLimitError) {
+      return res.status(400).json({ error: attachmentLimitError });
+    }
+
+    if (!idea?.trim() && attachments.length === 0) {
+      return res.status(400).json({ error: "Please provide a startup idea or an attachment to analyze." });
+    }
+
+    if (isEnsemble && (ensembleModels.length > MAX_ENSEMBLE_MODELS || ensembleModels.some(m => !m?.provider))) {
+      return res.status(400).json({ error: `Ensemble mode needs between 2 and ${MAX_ENSEMBLE_MODELS} of your own models.` });
+    }
+
+    if (samples !== 1 && (isEnsemble || !Number.isInteger(samples) || samples < MIN_SAMPLES || samples > MAX_SAMPLES)) {
+      return res.status(400).json({ error: `Stability mode takes ${MIN_SAMPLES} to ${MAX_SAMPLES} samples and can't be combined with ensemble mode.` });
+    }
+
+    if (!ANALYSIS_LENSES.some(l => l.id === lens)) {
+      return res.status(400).json({ error: `Unknown analysis lens. Choose one of: ${ANALYSIS_LENSES.map(l => l.id).join(', ')}.` });
+    }
+
+    if (vertical && !INDUSTRY_VERTICALS.some(v => v.id === vertical)) {
+      return res.status(400).json({ error: `Unknown industry vertical. Choose one of: ${INDUSTRY_VERTICALS.map(v => v.id).join(', ')}.` });
+    }
+
+    if (language && !getReportLanguage(language)) {
+      return res.status(400).json({ error: "Unsupported report language." });
+    }
+
+    // Rescoring: the finished experiments and survey results of the founder's earlier version become evidence for this one
+    const finishedExperiments = evidenceFrom && email ? (await prisma.experiment.findMany({
+      where: { reportId: evidenceFrom, report: { user: { email } }, status: { in: EXPERIMENT_STATUSES.filter(s => s.finished).map(s => s.id) } },
+      include: { evidence: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { position: 'asc' }
+    })).map(toExperiment) : [];
+    const evidenceReport = evidenceFrom && email ? await prisma.report.findFirst({ where: { id: evidenceFrom, user: { email } } }) : null;
+    const survey: Survey | undefined = (evidenceReport?.fullReportData as any)?.survey;
+    if (evidenceFrom && finishedExperiments.length === 0 && !survey?.results) {
+      return res.status(400).json({ error: "Mark at least one experiment as validated or invalidated, or import survey results, before rescoring." });
+    }
+    const evidence = [
+      ...(finishedExperiments.length > 0 ? [formatExperimentEvidence(finishedExperiments)] : []),
+      ...(survey?.results ? [formatSurveyEvidence(survey, survey.results)] : [])
+    ].join('\n\n');
+
+    // 2. Perform Analysis
+    const providers = isEnsemble
+      ? ensembleModels.map(m => resolveProvider(m, m.model))
+      : [resolveProvider(customModel, attachments.length > 0 || documentsFrom ? 'gemini-2.0-flash-exp' : 'gemini-2.0-flash-thinking-exp-1219')];
+
+    // PDF, DOCX and RTF attachments are read as text, so providers without native support can analyze them too.
+    // A rerun of a saved report analyzes the text stored from its documents again (the files aren't kept);
+    // those go after the uploads, as text-only attachments.
+    const storedDocuments = documentsFrom && email ? (await prisma.reportDocument.findMany({
+      where: { reportId: documentsFrom, report: { user: { email } } },
+      orderBy: { position: 'asc' }
+    })).map(toSourceDocument) : [];
+    const documents = [...await Promise.all(attachments.map(extractDocument)), ...storedDocuments];
+    const promptAttachments: Attachment[] = [...attachments, ...storedDocuments.map(document => ({ name: document.name, mimeType: 'text/plain', data: '' }))];
+    const sourceDocuments = documents.filter(document => document !== null);
+
+    const deckDocument = req.body.deckReview ? sourceDocuments.find(document => document.format === 'pdf') : undefined;
+    if (req.body.deckReview && !deckDocument) {
+      return res.status(400).json({ error: "Deck review needs a PDF pitch deck with selectable text." });
+    }
+
+    for (const provider of providers) {
+      for (const [i, attachment] of attachments.entries()) {
+        const attachmentError = checkAttachmentSupport(provider, documents[i] ? undefined : attachment);
+        if (attachmentError) {
+          return res.status(400).json({ error: attachmentError });
+        }
+      }
+    }
+
+    // Documents over the token budget of any model in the run are condensed (map-reduce summaries) with the first one
+    const documentBudget = Math.min(...providers.map(p => p.documentTokenBudget || Infinity));
+    const documentLengthError = checkDocumentLength(documents, documentBudget);
+    if (documentLengthError) {
+      return res.status(400).json({ error: documentLengthError });
+    }
+
+    // The credit is taken before any of the report is streamed, so the sections can't be read for free
+    if (chargesCredits) {
+      const { count } = await prisma.user.updateMany({
+        where: { email, credits: { gte: creditCost } },
+        data: { credits: { decrement: creditCost } }
+      });
+      if (count === 0) {
+        return res.status(403).json({ error: "Insufficient credits. Please upgrade or purchase more." });
+      }
+      reservedCredits = creditCost;
+    }
+
+    // A disconnect stops the run (and refunds it) only while none of the report has been sent;
+    // after that a paid run finishes and is saved to the user's history
+    const run = new AbortController();
+    let sectionsSent = false;
+    if (req.headers.accept?.includes('text/event-stream')) {
+      stream = openEventStream(res);
+      stream.signal.addEventListener('abort', () => {
+        if (!sectionsSent || reservedCredits === 0) run.abort();
+      });
+    }
+
+    const promptDocuments = await condenseDocuments(providers[0], documents, documentBudget, run.signal);
+
+    const request: LLMRequest = {
+      system: buildAnalysisSystemPrompt({ lens, vertical }, language),
+      messages: buildAnalysisMessages(idea, promptAttachments, promptDocuments, evidence || undefined),
+      jsonSchema: REPORT_JSON_SCHEMA,
+      maxTokens: 4096,
+      signal: run.signal
+    };
+    const onProgress = stream ? (progress: AnalysisProgress) => {
+      sectionsSent = true;
+      stream?.send('progress', progress);
+    } : undefined;
+
+    // The deck review runs alongside the analysis; if it fails the report is still delivered without it
+    const deckReviewTask = deckDocument && runDeckReview(providers[0], deckDocument, run.signal).catch(error => {
+      console.error("Deck Review Error:", error);
+      return undefined;
+    });
+
+    // Only a report that passes validation (after repair attempts) is saved or charged for
+    const reportFields = isEnsemble
+      ? await runEnsemble(providers, request, onProgress, { lens, vertical })
+      : samples > 1
+        ? await runStabilitySamples(providers[0], request, samples, onProgress, { lens, vertical })
+        : await runAnalysis(providers[0], request, onProgress, { lens, vertical });
+    if (reportFields.ensemble) reportFields.ensemble.modelIds = ensembleModels.map(m => String(m.id));
+
+    // Stability mode only charges for the samples that succeeded; the rest of the reservation goes back
+    if (reservedCredits > 0 && reportFields.stability) {
+      const failedSamples = reservedCredits - reportFields.stability.samples;
+      if (failedSamples > 0) {
+        await prisma.user.update({ where: { email }, data: { credits: { increment: failedSamples } } });
+        reservedCredits -= failedSamples;
+      }
+    }
+
+    // The competitor deep-dive starts from the report's competitors, so it runs once the report is in; like the deck review it is optional
+    const competitorMatrixTask = req.body.competitorMatrix && runCompetitorMatrix(providers[0], idea, reportFields, run.signal).catch(error => {
+      console.error("Competitor Matrix Error:", error);
+      return undefined;
+    });
+    const [deckReview, competitorMatrix] = await Promise.all([deckReviewTask, competitorMatrixTask]);
+    const analysisResult = {
+      ...reportFields,
+      lens,
+      ...(language && language !== 'en' && { language }),
+      // Saved reports keep excerpts; the full text is stored with them below
+      ...(sourceDocuments.length > 0 && { sourceDocuments: email ? sourceDocuments.map(toDocumentExcerpt) : sourceDocuments }),
+      ...(deckReview && { deckReview }),
+      ...(competitorMatrix && { competitorMatrix }),
+      ...(evidenceFrom && { evidenceFrom: { reportId: evidenceFrom, experiments: finishedExperiments.length, ...(survey?.results && { surveyResponses: survey.results.respondents }) } })
+    };
+    let saved = { reportId: crypto.randomUUID() as string, ideaId: (ideaId || crypto.randomUUID()) as string };
+
+    // 3. TRANSACTION: Save Report (Server-Side Source of Truth); the credit was already taken above
+    if (email) {
+      saved = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUnique({ where: { email } });
+        
+        if (!user) throw new Error("User not found");
+
+        // Reports of the same idea are versions of one project; a fresh idea starts a new project
+        const project = (ideaId && await tx.idea.findFirst({ where: { id: ideaId, userId: user.id } }))
+          || await tx.idea.create({ data: { userId: user.id } });
+
+        // Save Report automatically
+        const report = await tx.report.create({
+            data: {
+                userId: user.id,
+                ideaId: project.id,
+                originalIdea: idea || "Attachment Analysis",
+                summaryVerdict: analysisResult.summaryVerdict,
+                viabilityScore: analysisResult.viabilityScore,
+                oneLineTakeaway: analysisResult.oneLineTakeaway,
+                marketReality: analysisResult.marketReality,
+                fullReportData: analysisResult as any
+            }
+        });
+        await tx.reportDocument.createMany({
+            data: sourceDocuments.map((document, position) => ({
+                reportId: report.id,
+                name: document.name,
+                format: document.format,
+                text: document.text,
+                pageCount: document.pageCount ?? null,
+                position
+            }))
+        });
+        return { reportId: report.id, ideaId: project.id };
+      });
+    }
+    reservedCredits = 0;
+
+    const report = {
+      ...analysisResult,
+      id: saved.reportId,
+      ideaId: saved.ideaId,
+      createdAt: Date.now(),
+      originalIdea: idea || "Attachment Analysis"
+    };
+
+    if (stream) {
+      stream.send('report', report);
+      stream.close();
+    } else {
+      res.json(report);
+    }
+
+  } catch (error: any) {
+    console.error("LLM/DB Error:", error);
+    await refundCredits();
+    if (stream) {
+      if (!stream.signal.aborted) {
+        stream.send('error', { error: error.message || "AI Analysis Failed" });
+      }
+      stream.close();
+    } else {
+        res.status(500).json({ error: error.message || "AI Analysis Failed" });
+    }
+  }
+};
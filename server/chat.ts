@@ -0,0 +1,109 @@
+import { LLMMessage, LLMProvider, estimateTokens } from './llm';
+import { getReportLanguage } from '../types';
+import type { SourceDocument } from '../types';
+
+export interface ChatContext {
+  originalIdea?: string;
+  report: unknown;
+  language?: string; // REPORT_LANGUAGES code to reply in
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// Rolling summary of the oldest turns; `upTo` is how many history turns it already covers.
+export interface ChatMemory {
+  summary: string;
+  upTo: number;
+}
+
+// Rough budget for verbatim history, kept well under the smallest context window we route to.
+const HISTORY_TOKEN_BUDGET = 6000;
+// Once over budget, the newest turns worth this many tokens stay verbatim and the rest is summarized.
+const RECENT_TOKEN_BUDGET = 3000;
+
+// The extracted text of attached documents is shared up to this size (~4k tokens), split evenly between them
+const DOCUMENT_CHAR_BUDGET = 16000;
+
+const describeDocuments = (documents: SourceDocument[] = []) => {
+  const budget = Math.floor(DOCUMENT_CHAR_BUDGET / Math.max(documents.length, 1));
+  return documents.map(document => {
+    const excerpt = document.text.length > budget
+      ? `${document.text.slice(0, budget)}\n[...document truncated]`
+      : document.text;
+    return `\nAttached Document "${document.name}" (${document.format.toUpperCase()}):\n${excerpt}`;
+  }).join('');
+};
+
+export const buildChatSystemPrompt = (context: ChatContext, memory?: ChatMemory | null) => {
+  // Documents go in their own sections rather than inside the report JSON
+  // Translated copies would only repeat the report
+  const { sourceDocuments, translations, ...report } = (context.report || {}) as { sourceDocuments?: SourceDocument[]; translations?: unknown };
+  const language = getReportLanguage(context.language);
+
+  return `Context: You are discussing a startup idea.
+Idea: ${context.originalIdea}
+Report Summary: ${JSON.stringify(report)}${describeDocuments(sourceDocuments)}
+Role: Helpful Co-founder.${language && language.code !== 'en' ? `
+Reply in ${language.label} unless the founder writes to you in another language.` : ''}${memory?.summary ? `
+
+Summary of the earlier conversation with the founder:
+${memory.summary}` : ''}`;
+};
+
+const summarizeTurns = async (provider: LLMProvider, previousSummary: string | undefined, turns: ChatTurn[], signal?: AbortSignal) => {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'Founder' : 'Co-founder'}: ${turn.text}`).join('\n\n');
+
+  return provider.generate({
+    system: 'You maintain the running memory of a conversation between a founder and their AI co-founder. Write a concise summary (max 200 words) that keeps decisions, facts about the startup, open questions and anything the founder asked to remember. Reply with the summary only.',
+    messages: [{
+      role: 'user',
+      text: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New conversation to fold in:\n${transcript}`
+    }],
+    maxTokens: 400,
+    signal
+  });
+};
+
+// Returns the messages to send for this turn plus the (possibly updated) memory.
+// Older turns are folded into the summary only when the unsummarized history outgrows the budget.
+export const prepareChatTurn = async (
+  provider: LLMProvider,
+  history: ChatTurn[] = [],
+  memory: ChatMemory | null = null,
+  message: string,
+  signal?: AbortSignal
+): Promise<{ messages: LLMMessage[]; memory: ChatMemory | null; memoryChanged: boolean }> => {
+  const summarizedCount = Math.min(memory?.upTo || 0, history.length);
+  let recent = history.slice(summarizedCount);
+  let nextMemory = memory;
+  let memoryChanged = false;
+
+  const historyTokens = recent.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+  if (historyTokens > HISTORY_TOKEN_BUDGET) {
+    let keepFrom = recent.length;
+    let keptTokens = 0;
+    while (keepFrom > 0 && keptTokens + estimateTokens(recent[keepFrom - 1].text) <= RECENT_TOKEN_BUDGET) {
+      keepFrom--;
+      keptTokens += estimateTokens(recent[keepFrom].text);
+    }
+    // Start the verbatim window on a founder turn so providers that require user-first history accept it
+    while (keepFrom < recent.length && recent[keepFrom].role !== 'user') keepFrom++;
+
+    const summary = await summarizeTurns(provider, memory?.summary, recent.slice(0, keepFrom), signal);
+    nextMemory = { summary, upTo: summarizedCount + keepFrom };
+    memoryChanged = true;
+    recent = recent.slice(keepFrom);
+  }
+
+  return {
+    messages: [
+      ...recent.map(turn => ({ role: turn.role, text: turn.text })),
+      { role: 'user', text: message }
+    ],
+    memory: nextMemory,
+    memoryChanged
+  };
+};
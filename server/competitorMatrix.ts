@@ -0,0 +1,166 @@
+import { LLMProvider } from './llm';
+import { JsonValidationResult, generateValidJson } from './json';
+import { ReportFields, isRecord, readText, readTextList } from './reportValidator';
+import type { CompetitorMatrix, CompetitorProfile, FeatureComparison, FeatureSupport } from '../types';
+
+export const MAX_MATRIX_COMPETITORS = 6;
+const MIN_MATRIX_FEATURES = 4;
+const MAX_MATRIX_FEATURES = 12;
+
+const FEATURE_SUPPORT: FeatureSupport[] = ['yes', 'partial', 'no'];
+
+const COMPETITOR_MATRIX_SYSTEM_PROMPT = `You are a market analyst comparing a startup idea with its competitors. Be factual and specific: name real pricing tiers and features where you know them, and say "Unknown" rather than guessing.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "competitors": [
+    {
+      "name": "string",
+      "targetSegment": "string (who they sell to)",
+      "pricingModel": "string (e.g. freemium, per seat, usage-based, with price points)",
+      "keyFeatures": ["string"],
+      "strengths": ["string"],
+      "weaknesses": ["string"],
+      "positioning": "string (how they describe themselves and where they sit in the market)"
+    }
+  ],
+  "features": [
+    {
+      "feature": "string (a capability buyers compare on)",
+      "idea": "yes" | "partial" | "no",
+      "competitors": ["yes" | "partial" | "no"]
+    }
+  ]
+}
+
+Profile every competitor you are given, in the same order. Then list ${MIN_MATRIX_FEATURES} to ${MAX_MATRIX_FEATURES} features that matter to buyers, including the ones where the idea is different. For each feature, "idea" is whether the founder's planned product has it and "competitors" has one entry per competitor, in the same order as "competitors".`;
+
+const COMPETITOR_MATRIX_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    competitors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          targetSegment: { type: 'string' },
+          pricingModel: { type: 'string' },
+          keyFeatures: { type: 'array', items: { type: 'string' } },
+          strengths: { type: 'array', items: { type: 'string' } },
+          weaknesses: { type: 'array', items: { type: 'string' } },
+          positioning: { type: 'string' }
+        },
+        required: ['name', 'targetSegment', 'pricingModel', 'keyFeatures', 'strengths', 'weaknesses', 'positioning']
+      }
+    },
+    features: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          feature: { type: 'string' },
+          idea: { type: 'string', enum: FEATURE_SUPPORT },
+          competitors: { type: 'array', items: { type: 'string', enum: FEATURE_SUPPORT } }
+        },
+        required: ['feature', 'idea', 'competitors']
+      }
+    }
+  },
+  required: ['competitors', 'features']
+};
+
+const readSupport = (value: unknown, field: string, errors: string[]): FeatureSupport => {
+  const support = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!FEATURE_SUPPORT.includes(support as FeatureSupport)) {
+    errors.push(`"${field}" must be one of ${FEATURE_SUPPORT.map(s => `"${s}"`).join(', ')}.`);
+  }
+  return support as FeatureSupport;
+};
+
+const readProfile = (value: unknown, index: number, errors: string[]): CompetitorProfile | null => {
+  const field = `competitors[${index}]`;
+  if (!isRecord(value)) {
+    errors.push(`"${field}" must be an object.`);
+    return null;
+  }
+  return {
+    name: readText(value.name, `${field}.name`, errors),
+    targetSegment: readText(value.targetSegment, `${field}.targetSegment`, errors),
+    pricingModel: readText(value.pricingModel, `${field}.pricingModel`, errors),
+    keyFeatures: readTextList(value.keyFeatures, `${field}.keyFeatures`, errors),
+    strengths: readTextList(value.strengths, `${field}.strengths`, errors),
+    weaknesses: readTextList(value.weaknesses, `${field}.weaknesses`, errors),
+    positioning: readText(value.positioning, `${field}.positioning`, errors)
+  };
+};
+
+const readFeature = (value: unknown, index: number, competitorCount: number, errors: string[]): FeatureComparison | null => {
+  const field = `features[${index}]`;
+  if (!isRecord(value)) {
+    errors.push(`"${field}" must be an object.`);
+    return null;
+  }
+  if (!Array.isArray(value.competitors) || value.competitors.length !== competitorCount) {
+    errors.push(`"${field}.competitors" must have exactly ${competitorCount} entries, one per competitor.`);
+    return null;
+  }
+  return {
+    feature: readText(value.feature, `${field}.feature`, errors),
+    idea: readSupport(value.idea, `${field}.idea`, errors),
+    competitors: value.competitors.map((support, i) => readSupport(support, `${field}.competitors[${i}]`, errors))
+  };
+};
+
+// Checks every requested competitor is profiled, in order, and every feature row has one cell per competitor
+export const validateCompetitorMatrix = (data: unknown, competitorNames: string[]): JsonValidationResult<CompetitorMatrix> => {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data.competitors) || data.competitors.length !== competitorNames.length) {
+    return { value: null, errors: [`"competitors" must profile exactly these ${competitorNames.length} competitors, in order: ${competitorNames.join(', ')}.`] };
+  }
+  const competitors = data.competitors.map((profile, i) => readProfile(profile, i, errors)).filter(profile => profile !== null);
+
+  if (!Array.isArray(data.features) || data.features.length < MIN_MATRIX_FEATURES) {
+    errors.push(`"features" must be an array of at least ${MIN_MATRIX_FEATURES} features.`);
+  }
+  const features = (Array.isArray(data.features) ? data.features : [])
+    .slice(0, MAX_MATRIX_FEATURES)
+    .map((feature, i) => readFeature(feature, i, competitorNames.length, errors))
+    .filter(feature => feature !== null);
+
+  if (errors.length > 0) return { value: null, errors };
+  return { value: { competitors, features }, errors };
+};
+
+// Profiles the report's competitors (the first MAX_MATRIX_COMPETITORS) and compares them feature by feature with the idea
+export const runCompetitorMatrix = async (provider: LLMProvider, idea: string | undefined, report: ReportFields, signal?: AbortSignal): Promise<CompetitorMatrix> => {
+  const competitors = report.competitors.slice(0, MAX_MATRIX_COMPETITORS);
+  if (competitors.length === 0) {
+    throw new Error('The report names no competitors to compare.');
+  }
+
+  const ideaText = idea?.trim() || `(Only documents were provided. Market summary: ${report.marketReality})`;
+  const competitorList = competitors.map((c, i) => `${i + 1}. ${c.name}: ${c.differentiation}`).join('\n');
+
+  return generateValidJson(
+    provider,
+    {
+      system: COMPETITOR_MATRIX_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        text: `=== STARTUP IDEA ===\n${ideaText}\n\nWhy people would pay: ${report.whyPeoplePay}\n\n=== COMPETITORS ===\n${competitorList}\n========================\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.`
+      }],
+      jsonSchema: COMPETITOR_MATRIX_JSON_SCHEMA,
+      maxTokens: 8192,
+      signal
+    },
+    data => validateCompetitorMatrix(data, competitors.map(c => c.name)),
+    'competitor matrix'
+  );
+};
@@ -0,0 +1,147 @@
+import { LLMProvider } from './llm';
+import { JsonValidationResult, generateValidJson } from './json';
+import { isRecord, readText, readTextList } from './reportValidator';
+import { DECK_SECTIONS } from '../types';
+import type { DeckReview, DeckSection, SlideFeedback, SourceDocument } from '../types';
+
+// Longer documents are unlikely to be decks; only the first pages are reviewed
+export const MAX_DECK_PAGES = 30;
+// Slides are short; anything longer is speaker notes or an appendix and gets cut
+const MAX_SLIDE_CHARS = 1500;
+
+const SLIDE_SECTIONS = [...DECK_SECTIONS.map(s => s.id), 'other'];
+
+const DECK_REVIEW_SYSTEM_PROMPT = `You are a seed-stage investor reviewing a founder's pitch deck slide by slide. Be direct but kind, and concrete: name exactly what is missing and write rewrites the founder could paste onto the slide.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "summary": "string (2-3 sentences on the deck as a whole)",
+  "slides": [
+    {
+      "page": number,
+      "section": "${SLIDE_SECTIONS.join('" | "')}",
+      "purpose": "string (what this slide is trying to say)",
+      "missing": ["string (what an investor would expect here but can't find)"],
+      "clarity": number (1-10, how quickly the point lands),
+      "suggestedRewrite": "string (a tighter version of the slide's headline and key points)"
+    }
+  ]
+}
+
+Give exactly one entry per page, in page order. Tag each slide with the standard deck section it covers:
+${DECK_SECTIONS.map(s => `- ${s.id}: ${s.description}`).join('\n')}
+- other: cover, appendix, contact or anything else`;
+
+const DECK_REVIEW_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    slides: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer' },
+          section: { type: 'string', enum: SLIDE_SECTIONS },
+          purpose: { type: 'string' },
+          missing: { type: 'array', items: { type: 'string' } },
+          clarity: { type: 'integer' },
+          suggestedRewrite: { type: 'string' }
+        },
+        required: ['page', 'section', 'purpose', 'missing', 'clarity', 'suggestedRewrite']
+      }
+    }
+  },
+  required: ['summary', 'slides']
+};
+
+// Splits extracted PDF text back into pages using the "[Page N]" markers written by extractDocument
+export const splitPages = (document: SourceDocument): { page: number; text: string }[] =>
+  document.text
+    .split(/^\[Page (\d+)\]\n?/m)
+    .slice(1)
+    .reduce<{ page: number; text: string }[]>((pages, part, i, parts) => {
+      if (i % 2 === 0) pages.push({ page: Number(part), text: (parts[i + 1] || '').trim() });
+      return pages;
+    }, []);
+
+const readSlide = (value: unknown, index: number, pageCount: number, errors: string[]): SlideFeedback | null => {
+  const field = `slides[${index}]`;
+  if (!isRecord(value)) {
+    errors.push(`"${field}" must be an object.`);
+    return null;
+  }
+
+  const page = Number(value.page);
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+    errors.push(`"${field}.page" must be a page number from 1 to ${pageCount}.`);
+  }
+  const section = typeof value.section === 'string' ? value.section.trim().toLowerCase() : '';
+  if (!SLIDE_SECTIONS.includes(section)) {
+    errors.push(`"${field}.section" must be one of ${SLIDE_SECTIONS.map(s => `"${s}"`).join(', ')}.`);
+  }
+  const clarity = Number(value.clarity);
+  if (!Number.isFinite(clarity) || clarity < 1 || clarity > 10) {
+    errors.push(`"${field}.clarity" must be a number from 1 to 10.`);
+  }
+
+  return {
+    page,
+    section: section as SlideFeedback['section'],
+    purpose: readText(value.purpose, `${field}.purpose`, errors),
+    missing: readTextList(value.missing, `${field}.missing`, errors, true),
+    clarity: Math.round(clarity),
+    suggestedRewrite: readText(value.suggestedRewrite, `${field}.suggestedRewrite`, errors)
+  };
+};
+
+// Checks the model's review covers every page exactly once. The deck structure is derived from the
+// slide tags rather than asked for, so it always agrees with the per-slide feedback.
+export const validateDeckReview = (data: unknown, documentName: string, pageCount: number): JsonValidationResult<DeckReview> => {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  const summary = readText(data.summary, 'summary', errors);
+  const slides = Array.isArray(data.slides)
+    ? data.slides.map((slide, i) => readSlide(slide, i, pageCount, errors)).filter(slide => slide !== null)
+    : [];
+  if (!Array.isArray(data.slides)) errors.push('"slides" must be an array with one entry per page.');
+
+  const pages = new Set(slides.map(slide => slide.page));
+  const uncovered = Array.from({ length: pageCount }, (_, i) => i + 1).filter(page => !pages.has(page));
+  if (uncovered.length > 0) errors.push(`"slides" is missing pages ${uncovered.join(', ')}.`);
+  if (pages.size !== slides.length) errors.push('"slides" must have exactly one entry per page.');
+
+  if (errors.length > 0) return { value: null, errors };
+
+  slides.sort((a, b) => a.page - b.page);
+  const structure = DECK_SECTIONS.map(({ id }) => ({
+    section: id,
+    pages: slides.filter(slide => slide.section === id).map(slide => slide.page)
+  }));
+  return { value: { documentName, summary, slides, structure }, errors };
+};
+
+export const runDeckReview = async (provider: LLMProvider, document: SourceDocument, signal?: AbortSignal): Promise<DeckReview> => {
+  const pages = splitPages(document).slice(0, MAX_DECK_PAGES);
+  const deckText = pages
+    .map(({ page, text }) => `[Page ${page}]\n${text.length > MAX_SLIDE_CHARS ? `${text.slice(0, MAX_SLIDE_CHARS)}...` : text || '(no text on this slide)'}`)
+    .join('\n\n');
+
+  return generateValidJson(
+    provider,
+    {
+      system: DECK_REVIEW_SYSTEM_PROMPT,
+      messages: [{ role: 'user', text: `=== PITCH DECK: ${document.name} (${pages.length} pages) ===\n${deckText}\n========================\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.` }],
+      jsonSchema: DECK_REVIEW_JSON_SCHEMA,
+      maxTokens: 8192,
+      signal
+    },
+    data => validateDeckReview(data, document.name, pages.length),
+    'deck review'
+  );
+};
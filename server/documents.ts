@@ -0,0 +1,295 @@
+import JSZip from 'jszip';
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { DocumentFormat, SourceDocument } from '../types';
+import { LLMAttachment, LLMProvider, estimateTokens } from './llm';
+import { isTextMimeType } from './mime';
+
+const DOCUMENT_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf'
+};
+
+// ---------------------------------------------------------
+// PDF: one "[Page N]" block per page (a slide, for pitch decks)
+// ---------------------------------------------------------
+
+const extractPdf = async (data: Buffer) => {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const pages = text.map((page, i) => `[Page ${i + 1}]\n${page.trim()}`);
+  return { text: pages.join('\n\n'), pageCount: totalPages, hasText: text.some(page => page.trim()) };
+};
+
+// ---------------------------------------------------------
+// DOCX: headings as "#", list items as "-", tables as "| a | b |"
+// ---------------------------------------------------------
+
+const decodeXmlEntities = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Matches <w:p> and <w:p ...> but not <w:pPr>, <w:pStyle> or an empty <w:p/>
+const PARAGRAPH_PATTERN = /<w:p(?:\s[^>]*[^/])?>[\s\S]*?<\/w:p>/g;
+
+const readRuns = (xml: string) => {
+  let text = '';
+  for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+    if (match[2]) text += match[2] === 'tab' ? '\t' : '\n';
+    else text += decodeXmlEntities(match[1]);
+  }
+  return text.trim();
+};
+
+const readParagraph = (xml: string) => {
+  const text = readRuns(xml);
+  if (!text) return '';
+
+  const style = xml.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+  const headingLevel = style === 'Title' ? 1 : Number(style.match(/^heading\s?(\d)$/i)?.[1]);
+  if (headingLevel) return `${'#'.repeat(Math.min(headingLevel, 6))} ${text}`;
+  if (xml.includes('<w:numPr>') || /^list/i.test(style)) return `- ${text}`;
+  return text;
+};
+
+const readTable = (xml: string) => [...xml.matchAll(/<w:tr(?:\s[^>]*)?>[\s\S]*?<\/w:tr>/g)]
+  .map(([row]) => {
+    const cells = [...row.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g)]
+      .map(([cell]) => [...cell.matchAll(PARAGRAPH_PATTERN)].map(([p]) => readRuns(p)).filter(Boolean).join(' '));
+    return `| ${cells.join(' | ')} |`;
+  })
+  .join('\n');
+
+const extractDocx = async (data: Buffer) => {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error('Missing word/document.xml');
+
+  const blocks = [...xml.matchAll(new RegExp(`<w:tbl>[\\s\\S]*?<\\/w:tbl>|${PARAGRAPH_PATTERN.source}`, 'g'))]
+    .map(([block]) => block.startsWith('<w:tbl>') ? readTable(block) : readParagraph(block))
+    .filter(Boolean);
+  return { text: blocks.join('\n\n') };
+};
+
+// ---------------------------------------------------------
+// RTF: plain text with paragraph breaks; fonts, styles and embedded objects are dropped
+// ---------------------------------------------------------
+
+// Groups whose content is formatting or metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer', 'headerl', 'headerr', 'footerl', 'footerr',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl'
+]);
+
+const extractRtf = (rtf: string) => {
+  const groups: { skip: boolean; unicodeSkip: number }[] = [];
+  let state = { skip: false, unicodeSkip: 1 };
+  let text = '';
+  let pendingSkip = 0; // Fallback characters to drop after a \uN escape
+
+  const emit = (chars: string) => {
+    if (pendingSkip > 0) { pendingSkip--; return; }
+    if (!state.skip) text += chars;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === '{') { groups.push(state); state = { ...state }; continue; }
+    if (ch === '}') { state = groups.pop() || state; continue; }
+    if (ch === '\r' || ch === '\n') continue;
+    if (ch !== '\\') { emit(ch); continue; }
+
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') { emit(next); i++; continue; }
+    if (next === '*') { state.skip = true; i++; continue; }
+    if (next === "'") {
+      emit(String.fromCharCode(parseInt(rtf.slice(i + 2, i + 4), 16)));
+      i += 3;
+      continue;
+    }
+
+    const control = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i);
+    if (!control) { i++; continue; }
+    i += control[0].length;
+    const [, word, param] = control;
+
+    if (RTF_SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+    else if (word === 'par' || word === 'line') text += state.skip ? '' : '\n';
+    else if (word === 'tab' || word === 'cell') text += state.skip ? '' : '\t';
+    else if (word === 'row') text += state.skip ? '' : '\n';
+    else if (word === 'uc') state.unicodeSkip = Number(param);
+    else if (word === 'u' && param) {
+      const code = Number(param);
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+      pendingSkip = state.unicodeSkip;
+    }
+  }
+
+  return { text: text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim() };
+};
+
+// Extracts a normalized plain-text version of PDF, DOCX and RTF attachments so every provider can read them.
+// Returns null for other formats, unreadable files and documents without a text layer (e.g. scanned PDFs),
+// in which case the original attachment is sent to providers that read it natively.
+export const extractDocument = async (attachment: LLMAttachment): Promise<SourceDocument | null> => {
+  const format = DOCUMENT_FORMATS[attachment.mimeType];
+  if (!format) return null;
+  const name = attachment.name || `Attachment.${format}`;
+
+  try {
+    const data = Buffer.from(attachment.data, 'base64');
+    if (format === 'pdf') {
+      const { text, pageCount, hasText } = await extractPdf(data);
+      return hasText ? { name, format, text, pageCount } : null;
+    }
+    const { text } = format === 'docx' ? await extractDocx(data) : extractRtf(data.toString('latin1'));
+    return text ? { name, format, text } : null;
+  } catch (error) {
+    console.warn(`Could not extract text from ${name}:`, error);
+    return null;
+  }
+};
+
+// Saved reports keep this much of each document's text; the rest lives in its ReportDocument row
+const DOCUMENT_EXCERPT_CHARS = 1000;
+
+export const toDocumentExcerpt = (document: SourceDocument): SourceDocument => ({
+  ...document,
+  text: document.text.length > DOCUMENT_EXCERPT_CHARS ? `${document.text.slice(0, DOCUMENT_EXCERPT_CHARS)}\n[...document truncated]` : document.text,
+  excerpt: true
+});
+
+export const toSourceDocument = (row: { name: string; format: string; text: string; pageCount: number | null }): SourceDocument => ({
+  name: row.name,
+  format: row.format as DocumentFormat,
+  text: row.text,
+  ...(row.pageCount !== null && { pageCount: row.pageCount })
+});
+
+// The text of an uploaded notes file: extracted from PDF, DOCX and RTF, read directly from text files; null otherwise
+export const readAttachmentText = async (attachment: LLMAttachment): Promise<string | null> => {
+  const document = await extractDocument(attachment);
+  if (document) return document.text;
+  if (!isTextMimeType(attachment.mimeType)) return null;
+  return Buffer.from(attachment.data, 'base64').toString('utf8').trim() || null;
+};
+
+// ---------------------------------------------------------
+// Condensing: documents over the provider's token budget are split into chunks, each chunk is summarized
+// (map) and the combined summaries stand in for the document, summarized again while still too long (reduce)
+// ---------------------------------------------------------
+
+const DEFAULT_DOCUMENT_TOKEN_BUDGET = 6000;
+// Chunks stay well inside even small context windows, together with the summarizing prompt
+const MAX_CHUNK_TOKENS = 6000;
+const MIN_SUMMARY_TOKENS = 150;
+const MAX_REDUCE_ROUNDS = 3;
+// Documents longer than this many chunks together are rejected, which bounds the summarizing calls per analysis
+const MAX_CONDENSE_CHUNKS = 40;
+// Chunks summarized at once, to stay clear of provider rate limits
+const SUMMARY_CONCURRENCY = 4;
+
+// Splits on paragraph (and so page) boundaries; a single paragraph longer than a chunk is cut by length.
+export const chunkText = (text: string, maxTokens: number): string[] => {
+  const maxChars = maxTokens * 4;
+  const chunks: string[] = [];
+  let current = '';
+
+  text.split(/\n{2,}/).forEach(paragraph => {
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars);
+      if (current && estimateTokens(`${current}\n\n${piece}`) > maxTokens) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const summarizeChunk = (provider: LLMProvider, name: string, chunk: string, part: string, targetTokens: number, signal?: AbortSignal) =>
+  provider.generate({
+    system: `You condense part of a founder's document for a startup analyst. Keep concrete facts: numbers, metrics, pricing, customers, competitors, team, traction, market claims and funding ask. Keep "[Page N]" markers for the facts you keep. Write at most ${Math.round(targetTokens * 0.75)} words. Reply with the condensed text only.`,
+    messages: [{ role: 'user', text: `Document: ${name} (${part})\n\n${chunk}` }],
+    maxTokens: targetTokens,
+    signal
+  });
+
+// Chunks are sized from the whole budget rather than a document's share of it, so small shares don't mean more calls
+const chunkTokens = (budget: number) => Math.min(MAX_CHUNK_TOKENS, Math.max(budget, MIN_SUMMARY_TOKENS * 2));
+
+const condenseText = async (provider: LLMProvider, name: string, text: string, budget: number, maxChunkTokens: number, signal?: AbortSignal) => {
+  let condensed = text;
+  for (let round = 1; round <= MAX_REDUCE_ROUNDS && estimateTokens(condensed) > budget; round++) {
+    const chunks = chunkText(condensed, maxChunkTokens);
+    const targetTokens = Math.max(MIN_SUMMARY_TOKENS, Math.floor(budget / chunks.length));
+    const summaries = await mapWithConcurrency(chunks, SUMMARY_CONCURRENCY, (chunk, i) =>
+      summarizeChunk(provider, name, chunk, `part ${i + 1} of ${chunks.length}`, targetTokens, signal));
+    condensed = summaries.map(summary => summary.trim()).join('\n\n');
+  }
+  // Summaries that still overshoot (e.g. a model ignoring the length) are cut to fit
+  return estimateTokens(condensed) > budget ? `${condensed.slice(0, budget * 4)}\n[...truncated]` : condensed;
+};
+
+// Returns a user-facing error when the documents are too long to condense to the budget, otherwise null
+export const checkDocumentLength = (documents: (SourceDocument | null)[], budget: number): string | null => {
+  const total = documents.reduce((sum, document) => sum + (document ? estimateTokens(document.text) : 0), 0);
+  const limit = MAX_CONDENSE_CHUNKS * chunkTokens(budget);
+  if (total <= budget || total <= limit) return null;
+  return `The attached documents are too long for this model (about ${Math.round(total * 0.75).toLocaleString('en-US')} words, max ${Math.round(limit * 0.75).toLocaleString('en-US')}). Attach fewer or shorter documents.`;
+};
+
+// Returns the documents to put in the prompt: unchanged when they fit the budget together, otherwise the
+// budget is shared out (documents under their share keep it all) and oversized ones are replaced by summaries.
+// Keeps nulls in place so the result still lines up with the attachments.
+export const condenseDocuments = async (
+  provider: LLMProvider,
+  documents: (SourceDocument | null)[],
+  budget = provider.documentTokenBudget || DEFAULT_DOCUMENT_TOKEN_BUDGET,
+  signal?: AbortSignal
+): Promise<(SourceDocument | null)[]> => {
+  const sizes = documents.map(document => document ? estimateTokens(document.text) : 0);
+  if (sizes.reduce((sum, size) => sum + size, 0) <= budget) return documents;
+  const lengthError = checkDocumentLength(documents, budget);
+  if (lengthError) throw new Error(lengthError);
+
+  const shares = new Array<number>(documents.length).fill(0);
+  let remaining = budget;
+  let left = documents.filter(Boolean).length;
+  [...sizes.keys()]
+    .filter(i => documents[i])
+    .sort((a, b) => sizes[a] - sizes[b])
+    .forEach(i => {
+      shares[i] = Math.min(sizes[i], Math.floor(remaining / left));
+      remaining -= shares[i];
+      left--;
+    });
+
+  return Promise.all(documents.map(async (document, i) => {
+    if (!document || sizes[i] <= shares[i]) return document;
+    const text = await condenseText(provider, document.name, document.text, shares[i], chunkTokens(budget), signal);
+    return { ...document, text: `[Condensed from a longer document]\n${text}` };
+  }));
+};
@@ -0,0 +1,154 @@
+import { LLMProvider, LLMRequest } from './llm';
+import { runAnalysis } from './analysis';
+import { ReportFields, RubricOptions, deriveViabilityScore } from './reportValidator';
+import { SUB_SCORE_DIMENSIONS } from '../types';
+import type { AnalysisLens, AnalysisProgress, EnsemblePoint, EnsembleSummary, SubScore, SubScoreDimension, ValidationReport } from '../types';
+
+export interface EnsembleResult {
+  model: string;
+  report: ReportFields;
+}
+
+// Matches the "Provider - model" labels shown in the model picker
+export const modelLabel = (provider: LLMProvider) => `${provider.name} - ${provider.model}`;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'their', 'into', 'have', 'will', 'are', 'can', 'more', 'than']);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+// Two phrasings count as the same point when most of their keywords overlap
+const isSamePoint = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return false;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / Math.min(a.size, b.size) >= 0.6;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\b(inc|llc|ltd|corp)\b\.?/g, '').replace(/[^a-z0-9]/g, '');
+
+// Groups the items each model raised into distinct points, keeping the first phrasing seen.
+const groupPoints = <T>(
+  results: EnsembleResult[],
+  items: (report: ReportFields) => T[],
+  text: (item: T) => string,
+  matches: (a: T, b: T) => boolean
+): { item: T, point: EnsemblePoint }[] => {
+  const groups: { item: T, point: EnsemblePoint }[] = [];
+
+  results.forEach(({ model, report }) => {
+    items(report).forEach(item => {
+      const group = groups.find(g => matches(g.item, item));
+      if (!group) {
+        groups.push({ item, point: { text: text(item), models: [model] } });
+      } else if (!group.point.models.includes(model)) {
+        group.point.models.push(model);
+      }
+    });
+  });
+
+  // Points more models agree on come first
+  return groups.sort((a, b) => b.point.models.length - a.point.models.length);
+};
+
+const groupTextPoints = (results: EnsembleResult[], items: (report: ReportFields) => string[]) => {
+  const keywordCache = new Map<string, Set<string>>();
+  const cachedKeywords = (text: string) => {
+    if (!keywordCache.has(text)) keywordCache.set(text, keywords(text));
+    return keywordCache.get(text)!;
+  };
+  return groupPoints(results, items, text => text, (a, b) => a === b || isSamePoint(cachedKeywords(a), cachedKeywords(b)));
+};
+
+export const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Combines several reports of the same idea into one. Sub-scores are averaged and the overall score
+// derived from them as usual; the narrative comes from the report whose score is closest to the consensus.
+// Also returns the grouped pros, cons and competitors with the runs that raised each.
+export const buildConsensus = (results: EnsembleResult[], lens?: AnalysisLens) => {
+  const subScores = Object.fromEntries(SUB_SCORE_DIMENSIONS.map(({ id }) => {
+    const average = Math.round(mean(results.map(r => r.report.subScores![id].score)));
+    const closest = results.reduce((best, r) =>
+      Math.abs(r.report.subScores![id].score - average) < Math.abs(best.report.subScores![id].score - average) ? r : best
+    );
+    return [id, { score: average, rationale: closest.report.subScores![id].rationale }];
+  })) as Record<SubScoreDimension, SubScore>;
+
+  const viabilityScore = deriveViabilityScore(subScores, lens);
+  const representative = results.reduce((best, r) =>
+    Math.abs(r.report.viabilityScore - viabilityScore) < Math.abs(best.report.viabilityScore - viabilityScore) ? r : best
+  ).report;
+
+  // Majority verdict; ties go to the representative report's verdict
+  const votes = new Map<ValidationReport['summaryVerdict'], number>();
+  results.forEach(r => votes.set(r.report.summaryVerdict, (votes.get(r.report.summaryVerdict) || 0) + 1));
+  const topVotes = Math.max(...votes.values());
+  const summaryVerdict = votes.get(representative.summaryVerdict) === topVotes
+    ? representative.summaryVerdict
+    : [...votes.entries()].find(([, count]) => count === topVotes)![0];
+
+  const pros = groupTextPoints(results, r => r.pros);
+  const cons = groupTextPoints(results, r => r.cons);
+  const competitors = groupPoints(results, r => r.competitors, c => c.name, (a, b) => normalizeName(a.name) === normalizeName(b.name));
+
+  const report: ReportFields = {
+    ...representative,
+    subScores,
+    viabilityScore,
+    summaryVerdict,
+    pros: pros.map(g => g.item),
+    cons: cons.map(g => g.item),
+    competitors: competitors.map(g => g.item)
+  };
+
+  return { report, points: { pros, cons, competitors } };
+};
+
+// Merges several models' reports into one consensus report with the ensemble summary attached.
+export const mergeReports = (results: EnsembleResult[], failedModels: EnsembleSummary['failedModels'], lens?: AnalysisLens): ReportFields => {
+  const { report, points: { pros, cons, competitors } } = buildConsensus(results, lens);
+  const scores = results.map(r => r.report.viabilityScore);
+  const isPartial = (group: { point: EnsemblePoint }) => group.point.models.length < results.length;
+
+  return {
+    ...report,
+    ensemble: {
+      models: results.map(({ model, report }) => ({ model, viabilityScore: report.viabilityScore, summaryVerdict: report.summaryVerdict })),
+      failedModels,
+      scoreSpread: {
+        min: Math.min(...scores),
+        max: Math.max(...scores),
+        stdDev: Math.round(Math.sqrt(mean(scores.map(s => (s - mean(scores)) ** 2))) * 10) / 10
+      },
+      partialAgreement: {
+        pros: pros.filter(isPartial).map(g => g.point),
+        cons: cons.filter(isPartial).map(g => g.point),
+        competitors: competitors.filter(isPartial).map(g => g.point)
+      }
+    }
+  };
+};
+
+// Runs the same analysis on every provider in parallel and merges whatever succeeded.
+// Progress events are tagged with the model that produced them.
+export const runEnsemble = async (providers: LLMProvider[], request: LLMRequest, onProgress?: (progress: AnalysisProgress) => void, rubric: RubricOptions = {}): Promise<ReportFields> => {
+  const settled = await Promise.allSettled(providers.map(provider =>
+    runAnalysis(provider, request, onProgress && (progress => onProgress({ ...progress, model: modelLabel(provider) })), rubric)
+  ));
+
+  const results: EnsembleResult[] = [];
+  const failedModels: EnsembleSummary['failedModels'] = [];
+  settled.forEach((outcome, i) => {
+    const model = modelLabel(providers[i]);
+    if (outcome.status === 'fulfilled') {
+      results.push({ model, report: outcome.value });
+    } else {
+      console.error(`Ensemble model ${model} failed:`, outcome.reason);
+      failedModels.push({ model, error: outcome.reason?.message || 'Analysis failed' });
+    }
+  });
+
+  if (results.length === 0) {
+    throw new Error(`All ensemble models failed. ${failedModels.map(f => `${f.model}: ${f.error}`).join(' ')}`);
+  }
+  return mergeReports(results, failedModels, rubric.lens);
+};
@@ -0,0 +1,130 @@
+import { LLMProvider } from './llm';
+import { JsonValidationResult, generateValidJson } from './json';
+import { isRecord, readText } from './reportValidator';
+import { EXPERIMENT_STATUSES } from '../types';
+import type { Evidence, EvidenceKind, Experiment, ExperimentStatus, ValidationReport } from '../types';
+
+// Drafts default to a due date this many days out when the model gives none
+const DEFAULT_DUE_DAYS = 14;
+const MAX_DUE_DAYS = 90;
+// Evidence files can be whole transcripts; only the start of each goes into a rescoring prompt
+const MAX_EVIDENCE_FILE_CHARS = 4000;
+
+export interface ExperimentDraft {
+  step: string;
+  hypothesis: string;
+  metric: string;
+  dueInDays: number;
+}
+
+const EXPERIMENT_SYSTEM_PROMPT = `You are a lean startup coach turning a founder's next steps into experiments. For each step, write the riskiest assumption it tests as a falsifiable hypothesis, and a success metric with a concrete threshold the founder can measure within a few weeks.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "experiments": [
+    {
+      "hypothesis": "string (e.g. \\"Agency owners will pay $15/seat for a single workspace\\")",
+      "metric": "string (e.g. \\"5 of 20 interviewed owners agree to a paid pilot\\")",
+      "dueInDays": number (1-${MAX_DUE_DAYS}, how long the experiment realistically takes)
+    }
+  ]
+}
+
+Give exactly one experiment per next step, in the same order.`;
+
+const EXPERIMENT_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    experiments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hypothesis: { type: 'string' },
+          metric: { type: 'string' },
+          dueInDays: { type: 'integer' }
+        },
+        required: ['hypothesis', 'metric', 'dueInDays']
+      }
+    }
+  },
+  required: ['experiments']
+};
+
+const validateExperimentDrafts = (data: unknown, steps: string[]): JsonValidationResult<ExperimentDraft[]> => {
+  if (!isRecord(data) || !Array.isArray(data.experiments) || data.experiments.length !== steps.length) {
+    return { value: null, errors: [`"experiments" must be an array of exactly ${steps.length} experiments, one per next step.`] };
+  }
+
+  const errors: string[] = [];
+  const drafts = data.experiments.map((experiment, i): ExperimentDraft => {
+    const field = `experiments[${i}]`;
+    const item = isRecord(experiment) ? experiment : {};
+    const days = Number(item.dueInDays);
+    return {
+      step: steps[i],
+      hypothesis: readText(item.hypothesis, `${field}.hypothesis`, errors),
+      metric: readText(item.metric, `${field}.metric`, errors),
+      dueInDays: Number.isFinite(days) && days >= 1 ? Math.min(Math.round(days), MAX_DUE_DAYS) : DEFAULT_DUE_DAYS
+    };
+  });
+
+  if (errors.length > 0) return { value: null, errors };
+  return { value: drafts, errors };
+};
+
+// One draft per next step of the report, in order
+export const draftExperiments = (provider: LLMProvider, report: ValidationReport, signal?: AbortSignal): Promise<ExperimentDraft[]> => {
+  const steps = report.nextSteps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+  return generateValidJson(
+    provider,
+    {
+      system: EXPERIMENT_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        text: `=== STARTUP IDEA ===\n${report.originalIdea || report.oneLineTakeaway}\n\nBiggest risks:\n${report.cons.map(con => `- ${con}`).join('\n')}\n\n=== NEXT STEPS ===\n${steps}\n========================\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.`
+      }],
+      jsonSchema: EXPERIMENT_JSON_SCHEMA,
+      maxTokens: 4096,
+      signal
+    },
+    data => validateExperimentDrafts(data, report.nextSteps),
+    'experiments'
+  );
+};
+
+// The evidence section of a rescoring prompt: each finished experiment with its outcome and what was collected
+export const formatExperimentEvidence = (experiments: Experiment[]) => experiments.map((experiment, i) => {
+  const status = EXPERIMENT_STATUSES.find(s => s.id === experiment.status)?.label || experiment.status;
+  const evidence = experiment.evidence.map(item =>
+    item.kind === 'number' ? `- ${item.text}: ${item.value}`
+      : item.kind === 'file' ? `- File "${item.fileName}":\n${item.text.slice(0, MAX_EVIDENCE_FILE_CHARS)}`
+      : `- ${item.text}`
+  );
+  return `Experiment ${i + 1} (${status.toUpperCase()}): ${experiment.hypothesis}\nSuccess metric: ${experiment.metric}\n${evidence.length > 0 ? `Evidence:\n${evidence.join('\n')}` : 'No evidence recorded.'}`;
+}).join('\n\n');
+
+// Database rows in the shape the API returns
+export const toEvidence = (e: { id: string; kind: string; text: string; value: number | null; fileName: string | null; createdAt: Date }): Evidence => ({
+  id: e.id,
+  kind: e.kind as EvidenceKind,
+  text: e.text,
+  ...(e.value !== null && { value: e.value }),
+  ...(e.fileName !== null && { fileName: e.fileName }),
+  createdAt: e.createdAt.getTime()
+});
+
+export const toExperiment = (x: { id: string; reportId: string; step: string; hypothesis: string; metric: string; status: string; dueDate: Date | null; createdAt: Date; updatedAt: Date; evidence: Parameters<typeof toEvidence>[0][] }): Experiment => ({
+  id: x.id,
+  reportId: x.reportId,
+  step: x.step,
+  hypothesis: x.hypothesis,
+  metric: x.metric,
+  status: x.status as ExperimentStatus,
+  ...(x.dueDate && { dueDate: x.dueDate.getTime() }),
+  evidence: x.evidence.map(toEvidence),
+  createdAt: x.createdAt.getTime(),
+  updatedAt: x.updatedAt.getTime()
+});
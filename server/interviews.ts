@@ -0,0 +1,283 @@
+import { LLMProvider } from './llm';
+import { JsonValidationResult, generateValidJson } from './json';
+import { isMarketSizing, isRecord, readChoice, readText, readTextList } from './reportValidator';
+import { RISK_LEVELS } from './verticals';
+import { MARKET_SIZING_ASSUMPTIONS, UNIT_ECONOMICS_INPUTS, getReportLanguage } from '../types';
+import type { Assumption, AssumptionInfo, InterviewInsights, InterviewScript, InterviewStance, RiskLevel, SizingApproach, ValidationReport } from '../types';
+
+// Long transcripts are cut; the start of an interview carries most of the discovery questions
+const MAX_NOTES_CHARS = 30000;
+const MIN_SECTIONS = 3;
+const MAX_SECTIONS = 6;
+
+const WTP_SIGNALS: InterviewInsights['willingnessToPay']['signal'][] = ['strong', 'weak', 'none'];
+const STANCES: InterviewStance[] = ['supports', 'contradicts'];
+
+// Instructions stay in English; what the founder reads follows the report's language
+export const writeInLanguage = (report: ValidationReport) => {
+  const language = getReportLanguage(report.language);
+  return language && language.code !== 'en' ? `\n\nWrite every text value in ${language.label}.` : '';
+};
+
+// The estimated numbers behind the report; interviews are the cheapest way to check them
+const describeAssumptions = (report: ValidationReport) => {
+  const lines: string[] = [];
+  const describe = ({ label, unit }: AssumptionInfo<string>, { value, source }: Assumption, currency: string) =>
+    lines.push(`- ${label}: ${unit === 'percent' ? `${value}%` : unit === 'currency' ? `${value} ${currency}` : value} (${source})`);
+  // Stored reports aren't re-validated, so a sizing in an unexpected shape is left out
+  if (isMarketSizing(report.marketSizing)) {
+    const sizing = report.marketSizing;
+    (Object.keys(MARKET_SIZING_ASSUMPTIONS) as SizingApproach[]).forEach(approach => MARKET_SIZING_ASSUMPTIONS[approach].forEach(info =>
+      describe(info, (sizing[approach] as Record<string, Assumption>)[info.key], sizing.currency)));
+  }
+  if (report.unitEconomics) {
+    const economics = report.unitEconomics;
+    UNIT_ECONOMICS_INPUTS.forEach(info => describe(info, economics.inputs[info.key], economics.currency));
+  }
+  return lines.join('\n');
+};
+
+// The idea with its claims and estimated numbers, for prompts that plan or read customer research
+export const describeReport = (report: ValidationReport) => `=== STARTUP IDEA ===
+${report.originalIdea || report.oneLineTakeaway}
+
+Why people would pay: ${report.whyPeoplePay}
+
+Strengths:
+${report.pros.map(pro => `- ${pro}`).join('\n')}
+
+Risks:
+${report.cons.map(con => `- ${con}`).join('\n')}
+${report.unitEconomics || report.marketSizing ? `\nAssumptions:\n${describeAssumptions(report)}\n` : ''}========================`;
+
+const SCRIPT_SYSTEM_PROMPT = `You are a customer discovery coach who follows "The Mom Test": ask about past behaviour and real spending, never about the idea or hypothetical futures, and never pitch. Write an interview script the founder can use with potential customers to test the riskiest parts of their idea.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "audience": "string (who to interview and one or two screening questions to find them)",
+  "opening": "string (what to say to set up the conversation without pitching)",
+  "sections": [
+    {
+      "topic": "string",
+      "assumption": "string (the risk or assumption from the report this section tests, quoted or closely paraphrased)",
+      "questions": [{"question": "string", "followUps": ["string"]}]
+    }
+  ],
+  "closing": "string (how to wrap up, including asking for referrals or a concrete next step)"
+}
+
+Write ${MIN_SECTIONS} to ${MAX_SECTIONS} sections, one per risk or assumption worth testing, starting with the riskiest. Give each section 2 to 4 open questions. Include at least one section on what they pay for today and what they would pay for a solution.`;
+
+const SCRIPT_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    audience: { type: 'string' },
+    opening: { type: 'string' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          assumption: { type: 'string' },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                question: { type: 'string' },
+                followUps: { type: 'array', items: { type: 'string' } }
+              },
+              required: ['question', 'followUps']
+            }
+          }
+        },
+        required: ['topic', 'assumption', 'questions']
+      }
+    },
+    closing: { type: 'string' }
+  },
+  required: ['audience', 'opening', 'sections', 'closing']
+};
+
+const validateScript = (data: unknown): JsonValidationResult<Omit<InterviewScript, 'createdAt'>> => {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data.sections) || data.sections.length < MIN_SECTIONS) {
+    errors.push(`"sections" must be an array of at least ${MIN_SECTIONS} sections.`);
+  }
+  const sections = (Array.isArray(data.sections) ? data.sections : []).slice(0, MAX_SECTIONS).map((section, i) => {
+    const field = `sections[${i}]`;
+    const item = isRecord(section) ? section : {};
+    if (!Array.isArray(item.questions) || item.questions.length === 0) {
+      errors.push(`"${field}.questions" must be a non-empty array.`);
+    }
+    return {
+      topic: readText(item.topic, `${field}.topic`, errors),
+      assumption: readText(item.assumption, `${field}.assumption`, errors),
+      questions: (Array.isArray(item.questions) ? item.questions : []).map((question, j) => {
+        const entry = isRecord(question) ? question : {};
+        return {
+          question: readText(entry.question, `${field}.questions[${j}].question`, errors),
+          followUps: readTextList(entry.followUps, `${field}.questions[${j}].followUps`, errors, true)
+        };
+      })
+    };
+  });
+
+  const script = {
+    audience: readText(data.audience, 'audience', errors),
+    opening: readText(data.opening, 'opening', errors),
+    sections,
+    closing: readText(data.closing, 'closing', errors)
+  };
+  if (errors.length > 0) return { value: null, errors };
+  return { value: script, errors };
+};
+
+export const generateInterviewScript = async (provider: LLMProvider, report: ValidationReport, signal?: AbortSignal): Promise<InterviewScript> => {
+  const script = await generateValidJson(
+    provider,
+    {
+      system: SCRIPT_SYSTEM_PROMPT + writeInLanguage(report),
+      messages: [{ role: 'user', text: `${describeReport(report)}\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.` }],
+      jsonSchema: SCRIPT_JSON_SCHEMA,
+      maxTokens: 4096,
+      signal
+    },
+    validateScript,
+    'interview script'
+  );
+  return { ...script, createdAt: Date.now() };
+};
+
+const INSIGHTS_SYSTEM_PROMPT = `You are a customer discovery analyst reading the founder's notes or transcript from one customer interview. Extract only what the interviewee actually said or did; do not infer enthusiasm from politeness, and treat compliments and hypothetical "I would use that" as weak signals.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "interviewee": "string (a short anonymous label, e.g. role and company size)",
+  "painPoints": [{"pain": "string", "severity": ${RISK_LEVELS.map(l => `"${l}"`).join(' | ')}}],
+  "willingnessToPay": {
+    "signal": "strong" | "weak" | "none",
+    "summary": "string (what they pay for today and what they said or did about paying for a solution)",
+    "amount": "string (a price or budget they named) or null"
+  },
+  "quotes": ["string (verbatim from the notes)"],
+  "findings": [{"claim": "string (a claim from the report)", "stance": "supports" | "contradicts", "evidence": "string (what in the interview bears on it)"}]
+}
+
+"severity" is how much the pain costs the interviewee. A "strong" willingness-to-pay signal means money or a commitment (a current budget, a pre-order, a pilot), "weak" means stated interest only. Quotes must appear word for word in the notes; leave the list empty if there are none. In "findings", check the report's strengths, risks, why people would pay and its assumptions against the interview, and only list claims the interview actually bears on.`;
+
+const INSIGHTS_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    interviewee: { type: 'string' },
+    painPoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          pain: { type: 'string' },
+          severity: { type: 'string', enum: RISK_LEVELS }
+        },
+        required: ['pain', 'severity']
+      }
+    },
+    willingnessToPay: {
+      type: 'object',
+      properties: {
+        signal: { type: 'string', enum: WTP_SIGNALS },
+        summary: { type: 'string' },
+        amount: { type: 'string', nullable: true }
+      },
+      required: ['signal', 'summary']
+    },
+    quotes: { type: 'array', items: { type: 'string' } },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim: { type: 'string' },
+          stance: { type: 'string', enum: STANCES },
+          evidence: { type: 'string' }
+        },
+        required: ['claim', 'stance', 'evidence']
+      }
+    }
+  },
+  required: ['interviewee', 'painPoints', 'willingnessToPay', 'quotes', 'findings']
+};
+
+// Whitespace and quote marks vary between the notes and the model's copy, so quotes are compared loosely
+const normalizeQuote = (text: string) => text.toLowerCase().replace(/[“”"'‘’]/g, '').replace(/\s+/g, ' ').trim();
+
+const validateInsights = (data: unknown, notes: string): JsonValidationResult<Omit<InterviewInsights, 'id' | 'createdAt' | 'sourceName'>> => {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  const readList = <T>(value: unknown, field: string, read: (item: Record<string, any>, itemField: string) => T): T[] => {
+    if (!Array.isArray(value)) {
+      errors.push(`"${field}" must be an array.`);
+      return [];
+    }
+    return value.map((item, i) => read(isRecord(item) ? item : {}, `${field}[${i}]`));
+  };
+
+  const wtp = isRecord(data.willingnessToPay) ? data.willingnessToPay : {};
+  if (!isRecord(data.willingnessToPay)) errors.push('"willingnessToPay" must be an object.');
+  const amount = typeof wtp.amount === 'string' ? wtp.amount.trim() : '';
+
+  // Quotes the notes don't contain are dropped rather than repaired; a paraphrase is not a quote
+  const quotes = readTextList(data.quotes, 'quotes', errors, true);
+  const normalizedNotes = normalizeQuote(notes);
+
+  const insights = {
+    interviewee: readText(data.interviewee, 'interviewee', errors),
+    painPoints: readList(data.painPoints, 'painPoints', (item, field) => ({
+      pain: readText(item.pain, `${field}.pain`, errors),
+      severity: readChoice(item.severity, RISK_LEVELS as RiskLevel[], `${field}.severity`, errors)
+    })),
+    willingnessToPay: {
+      signal: readChoice(wtp.signal, WTP_SIGNALS, 'willingnessToPay.signal', errors),
+      summary: readText(wtp.summary, 'willingnessToPay.summary', errors),
+      ...(amount && amount.toLowerCase() !== 'null' && { amount })
+    },
+    quotes: quotes.filter(quote => normalizedNotes.includes(normalizeQuote(quote))),
+    findings: readList(data.findings, 'findings', (item, field) => ({
+      claim: readText(item.claim, `${field}.claim`, errors),
+      stance: readChoice(item.stance, STANCES, `${field}.stance`, errors),
+      evidence: readText(item.evidence, `${field}.evidence`, errors)
+    }))
+  };
+  if (errors.length > 0) return { value: null, errors };
+  return { value: insights, errors };
+};
+
+export const analyzeInterviewNotes = async (provider: LLMProvider, report: ValidationReport, notes: string, signal?: AbortSignal) => {
+  const transcript = notes.slice(0, MAX_NOTES_CHARS);
+  return generateValidJson(
+    provider,
+    {
+      system: INSIGHTS_SYSTEM_PROMPT + writeInLanguage(report),
+      messages: [{
+        role: 'user',
+        text: `${describeReport(report)}\n\n=== INTERVIEW NOTES ===\n${transcript}\n========================\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.`
+      }],
+      jsonSchema: INSIGHTS_JSON_SCHEMA,
+      maxTokens: 4096,
+      signal
+    },
+    data => validateInsights(data, transcript),
+    'interview insights'
+  );
+};
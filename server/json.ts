@@ -0,0 +1,60 @@
+import { LLMProvider, LLMRequest } from './llm';
+
+// Model output that should be a JSON object: extracting it from the raw text and asking the model to repair
+// output that doesn't validate. Shared by the report and every section generated in its own call.
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Cuts the JSON object out of raw model output, tolerating code fences and chatter around it
+export const extractJsonObject = (resultText: string) => {
+  const cleanedText = resultText.trim();
+  const firstBrace = cleanedText.indexOf('{');
+  const lastBrace = cleanedText.lastIndexOf('}');
+  return firstBrace !== -1 && lastBrace !== -1 && lastBrace >= firstBrace
+    ? cleanedText.substring(firstBrace, lastBrace + 1)
+    : cleanedText;
+};
+
+export const INVALID_JSON_ERROR = 'The response was not valid JSON. Return only the JSON object, with no text around it.';
+
+export const buildRepairPrompt = (errors: string[], what = 'report') =>
+  `Your previous response is not a valid ${what}:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReturn the complete corrected ${what} as a single raw JSON object matching the schema. NO CONVERSATIONAL TEXT.`;
+
+export interface JsonValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+// Runs a request whose answer is a JSON object checked by `validate`, asking the model to fix invalid
+// output the way ensureValidReport does for reports. Used for optional sections generated in their own call.
+export const generateValidJson = async <T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  validate: (data: unknown) => JsonValidationResult<T>,
+  what: string
+): Promise<T> => {
+  let messages = request.messages;
+  let output = await provider.generate(request);
+
+  for (let attempt = 0; ; attempt++) {
+    let result: JsonValidationResult<T>;
+    try {
+      result = output.trim() ? validate(JSON.parse(extractJsonObject(output))) : { value: null, errors: ['The response was empty.'] };
+    } catch (e) {
+      result = { value: null, errors: [INVALID_JSON_ERROR] };
+    }
+    if (result.value) return result.value;
+
+    console.warn(`Invalid ${what} from ${provider.name} (attempt ${attempt + 1}):`, result.errors);
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`${provider.name} returned an invalid ${what}: ${result.errors.join(' ')}`);
+    }
+
+    messages = [
+      ...messages,
+      { role: 'assistant', text: output },
+      { role: 'user', text: buildRepairPrompt(result.errors, what) }
+    ];
+    output = await provider.generate({ ...request, messages });
+  }
+};
@@ -0,0 +1,49 @@
+import { LLMProvider, LLMRequest, ProviderConfig } from './types';
+import { postJson, postEventStream } from './http';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+
+export const createAnthropicProvider = (config: ProviderConfig): LLMProvider => {
+  const headers = {
+    'x-api-key': config.apiKey,
+    'anthropic-version': '2023-06-01'
+  };
+
+  const buildPayload = (request: LLMRequest) => ({
+    model: config.model,
+    max_tokens: request.maxTokens || 2000,
+    system: request.system,
+    messages: request.messages.map(message => {
+      const content: any[] = [];
+      (message.attachments || []).forEach(attachment => {
+        content.push({
+          type: attachment.mimeType === 'application/pdf' ? 'document' : 'image',
+          source: { type: 'base64', media_type: attachment.mimeType, data: attachment.data }
+        });
+      });
+      content.push({ type: 'text', text: message.text });
+      return { role: message.role, content };
+    })
+  });
+
+  return {
+    name: 'Anthropic',
+    model: config.model,
+
+    supportsAttachment: (mimeType) => mimeType.startsWith('image/') || mimeType === 'application/pdf',
+
+    generate: async (request) => {
+      const data = await postJson('Anthropic', ANTHROPIC_URL, headers, buildPayload(request), request.signal);
+      return data.content?.[0]?.text || '';
+    },
+
+    stream: async function* (request) {
+      const events = postEventStream('Anthropic', ANTHROPIC_URL, headers, { ...buildPayload(request), stream: true }, request.signal);
+      for await (const event of events) {
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          yield event.delta.text;
+        }
+      }
+    }
+  };
+};
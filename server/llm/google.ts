@@ -0,0 +1,46 @@
+import { GoogleGenAI, GenerateContentParameters } from '@google/genai';
+import { LLMProvider, LLMRequest, ProviderConfig } from './types';
+
+export const createGoogleProvider = (config: ProviderConfig): LLMProvider => {
+  const genAI = new GoogleGenAI({ apiKey: config.apiKey });
+
+  const buildParams = (request: LLMRequest): GenerateContentParameters => ({
+    model: config.model,
+    contents: request.messages.map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...(message.attachments || []).map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+        { text: message.text }
+      ]
+    })),
+    config: {
+      systemInstruction: request.system,
+      maxOutputTokens: request.maxTokens,
+      abortSignal: request.signal,
+      ...(request.jsonSchema && {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.jsonSchema
+      })
+    }
+  });
+
+  return {
+    name: 'Google',
+    model: config.model,
+
+    // Gemini reads images, PDFs, audio and most office formats inline.
+    supportsAttachment: () => true,
+
+    generate: async (request) => {
+      const response = await genAI.models.generateContent(buildParams(request));
+      return response.text || '';
+    },
+
+    stream: async function* (request) {
+      const chunks = await genAI.models.generateContentStream(buildParams(request));
+      for await (const chunk of chunks) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -0,0 +1,180 @@
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Agent } from 'undici';
+
+// A whole JSON response, or the start of a streamed one, must arrive within REQUEST_TIMEOUT_MS. A stream may then
+// run for as long as it needs, but fails once nothing has arrived for STREAM_IDLE_TIMEOUT_MS.
+const REQUEST_TIMEOUT_MS = 90000;
+const STREAM_IDLE_TIMEOUT_MS = 60000;
+
+// Loopback, private, carrier-grade NAT, link-local, benchmarking, multicast, reserved and unspecified ranges, and
+// NAT64 (which can reach any of them over IPv4): a user-supplied base URL must not make the server call its own network
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10]]
+  .forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1, which URL parsing turns into ::ffff:7f00:1) are checked as IPv4
+const toMappedIPv4 = (address: string) => {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (dotted) return dotted;
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+};
+
+const isPrivateAddress = (address: string) => {
+  const mappedIPv4 = toMappedIPv4(address);
+  if (mappedIPv4) return PRIVATE_ADDRESSES.check(mappedIPv4, 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Hosts a self-hosting operator explicitly allows despite resolving to a private address, e.g. "localhost,ollama"
+const allowedHosts = () => (process.env.ALLOWED_MODEL_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const INVALID_BASE_URL = 'The base URL must be a public http(s) address.';
+
+// Synchronous part of the check, for a readable error before any request is made
+export const parseBaseUrl = (baseUrl: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch (e) {
+    throw new Error(INVALID_BASE_URL);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(INVALID_BASE_URL);
+  return url;
+};
+
+// Rejects base URLs whose host is, or resolves to, a private address, unless the host is allowlisted.
+// Gives the readable error up front; the connection itself is checked again by `publicOnly`.
+export const checkBaseUrl = async (baseUrl: string): Promise<void> => {
+  const { hostname } = parseBaseUrl(baseUrl);
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts().includes(host)) return;
+
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true }).catch(() => [])).map(a => a.address);
+  if (addresses.length === 0) throw new Error(`Could not resolve the base URL host ${host}.`);
+  if (addresses.some(isPrivateAddress)) throw new Error(INVALID_BASE_URL);
+};
+
+// Checks the addresses a host resolves to when the connection is made, so a DNS answer that changes after
+// checkBaseUrl (rebinding) still can't reach a private address. IP literals aren't looked up; checkBaseUrl covers them.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address: string | dns.LookupAddress[], family?: number) => {
+    if (err) return callback(err, '', 0);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    if (!allowedHosts().includes(hostname.toLowerCase()) && addresses.some(isPrivateAddress)) {
+      return callback(new Error(INVALID_BASE_URL), '', 0);
+    }
+    (callback as (...args: unknown[]) => void)(null, address, family);
+  });
+};
+
+const publicOnly = new Agent({ connect: { lookup: publicLookup } });
+
+// An abort signal that fires `ms` after it was last restarted
+const createTimeout = (ms: number) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restart = (next = ms) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(new DOMException('The operation timed out.', 'TimeoutError')), next);
+  };
+  restart();
+  return { signal: controller.signal, restart, clear: () => clearTimeout(timer) };
+};
+
+type Timeout = ReturnType<typeof createTimeout>;
+
+const timeoutError = (providerName: string, err: any) => err?.name === 'TimeoutError'
+  ? new Error(`Request to ${providerName} timed out. The model took too long to respond.`)
+  : err;
+
+// Shared fetch wrapper for REST-based providers: adds the timeout and turns failed responses into errors.
+// Upstream error bodies are only logged; callers get the status, so a response never leaks through an error.
+const send = async (providerName: string, url: string, headers: Record<string, string>, body: unknown, timeout: Timeout, signal?: AbortSignal): Promise<Response> => {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+      // A redirect could point a checked base URL at a private address
+      redirect: 'error',
+      // Node's fetch takes an undici dispatcher; the DOM RequestInit type doesn't know the option
+      dispatcher: publicOnly
+    } as RequestInit);
+  } catch (err: any) {
+    // fetch wraps connection errors, including publicLookup's rejection, in a generic "fetch failed"
+    throw timeoutError(providerName, err?.cause?.message === INVALID_BASE_URL ? err.cause : err);
+  }
+
+  if (!res.ok) {
+    const errText = await res.text().catch(() => '');
+    console.error(`${providerName} responded with ${res.status}:`, errText.substring(0, 2000));
+    throw new Error(`${providerName} Error: the request failed with status ${res.status}${res.status === 401 || res.status === 403 ? ' (check the API key)' : res.status === 429 ? ' (rate limited, try again shortly)' : ''}.`);
+  }
+
+  return res;
+};
+
+export const postJson = async (providerName: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<any> => {
+  const timeout = createTimeout(REQUEST_TIMEOUT_MS);
+  try {
+    const res = await send(providerName, url, headers, body, timeout, signal);
+    return await res.json();
+  } catch (err: any) {
+    throw timeoutError(providerName, err);
+  } finally {
+    timeout.clear();
+  }
+};
+
+// Yields the parsed `data:` payload of every server-sent event in a streaming provider response.
+export async function* postEventStream(providerName: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): AsyncGenerator<any> {
+  const timeout = createTimeout(REQUEST_TIMEOUT_MS);
+  try {
+    yield* readEvents(providerName, await send(providerName, url, headers, body, timeout, signal), timeout);
+  } finally {
+    timeout.clear();
+  }
+}
+
+async function* readEvents(providerName: string, res: Response, timeout: Timeout): AsyncGenerator<any> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    timeout.restart(STREAM_IDLE_TIMEOUT_MS);
+    const { done, value } = await reader.read().catch(err => { throw timeoutError(providerName, err); });
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.substring(5).trim();
+      if (!data || data === '[DONE]') continue;
+
+      try {
+        yield JSON.parse(data);
+      } catch (e) {
+        // Ignore keep-alive comments and partial payloads
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { LLMProvider, ProviderConfig } from './types';
+import { createGoogleProvider } from './google';
+import { createAnthropicProvider } from './anthropic';
+import { createOpenAICompatibleProvider } from './openai';
+import { parseBaseUrl } from './http';
+
+export * from './types';
+
+// One adapter per provider name stored in CustomModelConfig.provider.
+const ADAPTERS: Record<string, (config: ProviderConfig) => LLMProvider> = {
+  'Google': createGoogleProvider,
+  'Anthropic': createAnthropicProvider,
+  'OpenAI': (config) => createOpenAICompatibleProvider({
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: config.apiKey,
+    model: config.model
+  }),
+  'OpenRouter': (config) => createOpenAICompatibleProvider({
+    name: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey: config.apiKey,
+    model: config.model,
+    headers: { 'HTTP-Referer': 'https://zauriscore.com', 'X-Title': 'ZauriScore' },
+    inlineSystemPrompt: true
+  }),
+  'OpenAI-Compatible': (config) => {
+    if (!config.baseUrl) {
+      throw new Error('OpenAI-Compatible models need a base URL (e.g. https://models.example.com/v1).');
+    }
+    parseBaseUrl(config.baseUrl);
+    return createOpenAICompatibleProvider({
+      name: 'OpenAI-Compatible',
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+      apiKey: config.apiKey,
+      model: config.model,
+      headers: config.headers,
+      checkHost: true
+    });
+  }
+};
+
+export const SUPPORTED_PROVIDERS = Object.keys(ADAPTERS);
+
+// Default document budgets per provider, well inside their usual context windows so the system prompt
+// and the report still fit. Self-hosted models often run with small windows, so they get the least.
+const DOCUMENT_TOKEN_BUDGETS: Record<string, number> = {
+  'Google': 100000,
+  'Anthropic': 100000,
+  'OpenAI': 60000,
+  'OpenRouter': 24000,
+  'OpenAI-Compatible': 6000
+};
+
+// Room for at least two chunk summaries when condensing (see server/documents.ts)
+const MIN_DOCUMENT_TOKEN_BUDGET = 300;
+
+// A custom model's budget can lower the provider default but not raise it; anything but a whole number is ignored
+const readDocumentTokenBudget = (value: unknown, providerDefault: number) => {
+  const budget = Number(value);
+  if (!Number.isInteger(budget)) return providerDefault;
+  return Math.min(providerDefault, Math.max(MIN_DOCUMENT_TOKEN_BUDGET, budget));
+};
+
+// ~4 characters per token is close enough for budgeting across providers.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Falls back to ZauriScore's own Gemini key when the user has not picked one of their custom models.
+export const resolveProvider = (customModel: ProviderConfig | undefined, defaultModel: string): LLMProvider => {
+  if (!customModel?.provider) {
+    return {
+      ...createGoogleProvider({ provider: 'Google', model: defaultModel, apiKey: process.env.API_KEY || '' }),
+      documentTokenBudget: Number(process.env.DOCUMENT_TOKEN_BUDGET) || DOCUMENT_TOKEN_BUDGETS['Google']
+    };
+  }
+
+  const adapter = ADAPTERS[customModel.provider];
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${customModel.provider}`);
+  }
+  return {
+    ...adapter(customModel),
+    documentTokenBudget: readDocumentTokenBudget(customModel.documentTokenBudget, DOCUMENT_TOKEN_BUDGETS[customModel.provider])
+  };
+};
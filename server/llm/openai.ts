@@ -0,0 +1,84 @@
+import { LLMProvider, LLMRequest } from './types';
+import { checkBaseUrl, postJson, postEventStream } from './http';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  headers?: Record<string, string>;
+  // Some routed models reject the system role, so the prompt is folded into the first user turn instead.
+  inlineSystemPrompt?: boolean;
+  // User-supplied base URLs are checked before every request, since their DNS can change
+  checkHost?: boolean;
+}
+
+const toMessages = (request: LLMRequest, inlineSystemPrompt: boolean) => {
+  const messages: any[] = inlineSystemPrompt ? [] : [{ role: 'system', content: request.system }];
+
+  request.messages.forEach((message, index) => {
+    const text = inlineSystemPrompt && index === 0 ? `${request.system}\n\n${message.text}` : message.text;
+    const images = (message.attachments || []).filter(a => a.mimeType.startsWith('image/'));
+
+    if (images.length === 0) {
+      messages.push({ role: message.role, content: text });
+      return;
+    }
+
+    messages.push({
+      role: message.role,
+      content: [
+        { type: 'text', text },
+        ...images.map(image => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+        }))
+      ]
+    });
+  });
+
+  return messages;
+};
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => {
+  const url = `${options.baseUrl}/chat/completions`;
+  // Self-hosted servers usually run without auth, so the key is optional
+  const headers: Record<string, string> = {
+    ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+    ...options.headers
+  };
+
+  const buildPayload = (request: LLMRequest) => {
+    const payload: any = {
+      model: options.model,
+      messages: toMessages(request, !!options.inlineSystemPrompt)
+    };
+    if (request.jsonSchema && !options.inlineSystemPrompt) {
+      payload.response_format = { type: 'json_object' };
+    }
+    if (request.maxTokens) payload.max_tokens = request.maxTokens;
+    return payload;
+  };
+
+  return {
+    name: options.name,
+    model: options.model,
+
+    supportsAttachment: (mimeType) => mimeType.startsWith('image/'),
+
+    generate: async (request) => {
+      if (options.checkHost) await checkBaseUrl(options.baseUrl);
+      const data = await postJson(options.name, url, headers, buildPayload(request), request.signal);
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    stream: async function* (request) {
+      if (options.checkHost) await checkBaseUrl(options.baseUrl);
+      const events = postEventStream(options.name, url, headers, { ...buildPayload(request), stream: true }, request.signal);
+      for await (const event of events) {
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+};
@@ -0,0 +1,41 @@
+export interface LLMAttachment {
+  name?: string;
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  attachments?: LLMAttachment[];
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: LLMMessage[];
+  // When set, the provider is asked to return a single JSON object matching this JSON Schema.
+  jsonSchema?: Record<string, unknown>;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// Every model vendor is wrapped in one of these so routes never build provider payloads themselves.
+export interface LLMProvider {
+  name: string;
+  model: string;
+  supportsAttachment: (mimeType: string) => boolean;
+  // Tokens of attached document text one prompt may carry; larger documents are condensed first (set by resolveProvider)
+  documentTokenBudget?: number;
+  generate: (request: LLMRequest) => Promise<string>;
+  // Yields text deltas as the model produces them; aborting request.signal stops generation upstream.
+  stream: (request: LLMRequest) => AsyncGenerator<string>;
+}
+
+export interface ProviderConfig {
+  provider: string;
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  documentTokenBudget?: number;
+}
@@ -0,0 +1,3 @@
+// Attachments with these types are read as plain text rather than sent to the model as files
+export const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith('text/') || mimeType.includes('json') || mimeType.includes('csv') || mimeType.includes('xml');
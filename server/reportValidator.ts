@@ -0,0 +1,301 @@
+import { INDUSTRY_VERTICALS, MARKET_SIZING_ASSUMPTIONS, SUB_SCORE_DIMENSIONS, UNIT_ECONOMICS_INPUTS, VERTICAL_SECTION_FIELDS, getLens } from '../types';
+import type { AnalysisLens, AnalysisOptions, Assumption, AssumptionInfo, Competitor, EditableSection, IndustryVertical, MarketSizing, RiskLevel, SizingApproach, SubScore, SubScoreDimension, UnitEconomics, ValidationReport, VerticalSectionKey } from '../types';
+import { RISK_LEVELS } from './verticals';
+
+// The fields a model has to produce; ids, createdAt, originalIdea and the attachment-based sections are added by the server.
+export type ReportFields = Omit<ValidationReport, 'id' | 'createdAt' | 'originalIdea' | 'ideaId' | 'sourceDocuments' | 'deckReview' | 'competitorMatrix' | 'lens' | 'language' | 'translations' | 'evidenceFrom' | 'interviewKit' | 'survey'>;
+
+// What a report is analyzed against: the lens sets the score weights, a chosen vertical fixes the industry
+export type RubricOptions = Pick<AnalysisOptions, 'lens' | 'vertical'>;
+
+export interface ReportValidationResult {
+  report: ReportFields | null;
+  errors: string[];
+}
+
+const VERDICTS = ['Promising', 'Risky', 'Needs Refinement'];
+
+// Fields the model writes itself, as opposed to ones the server derives or adds
+// (the vertical and its section are read separately, since the section's key depends on the vertical)
+type ModelField = Exclude<keyof ReportFields, 'viabilityScore' | 'ensemble' | 'stability' | 'vertical' | VerticalSectionKey>;
+
+// Alternative names models tend to use for each field (compared lowercase)
+const FIELD_ALIASES: Record<ModelField, string[]> = {
+  marketReality: ['marketreality', 'market', 'reality', 'analysis'],
+  marketSizing: ['marketsizing', 'sizing', 'tamsamsom'],
+  pros: ['pros', 'strengths', 'advantages'],
+  cons: ['cons', 'risks', 'weaknesses'],
+  competitors: ['competitors', 'competition'],
+  monetizationStrategies: ['monetizationstrategies', 'monetization', 'revenue', 'businessmodel'],
+  whyPeoplePay: ['whypeoplepay', 'valueproposition', 'value'],
+  unitEconomics: ['uniteconomics', 'economics', 'financials'],
+  subScores: ['subscores', 'scores', 'breakdown', 'rubric'],
+  summaryVerdict: ['summaryverdict', 'verdict', 'summary'],
+  oneLineTakeaway: ['onelinetakeaway', 'takeaway', 'headline'],
+  nextSteps: ['nextsteps', 'steps', 'actionplan']
+};
+
+export const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Case-insensitive key lookup to handle renamed fields
+const getField = (obj: Record<string, any>, aliases: string[]) => {
+  const foundKey = Object.keys(obj).find(k => aliases.includes(k.toLowerCase()));
+  return foundKey ? obj[foundKey] : undefined;
+};
+
+export const readText = (value: unknown, field: string, errors: string[]): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`"${field}" must be a non-empty string.`);
+    return '';
+  }
+  return value.trim();
+};
+
+export const readTextList = (value: unknown, field: string, errors: string[], allowEmpty = false): string[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be an array of strings.`);
+    return [];
+  }
+  if (value.some(item => typeof item !== 'string' || !item.trim())) {
+    errors.push(`"${field}" must only contain non-empty strings.`);
+    return [];
+  }
+  if (!allowEmpty && value.length === 0) {
+    errors.push(`"${field}" must contain at least one item.`);
+  }
+  return value.map(item => item.trim());
+};
+
+const readCompetitors = (value: unknown, errors: string[]): Competitor[] => {
+  if (!Array.isArray(value)) {
+    errors.push('"competitors" must be an array of {"name", "differentiation"} objects.');
+    return [];
+  }
+  const invalid = value.findIndex(item =>
+    !isRecord(item) || typeof item.name !== 'string' || !item.name.trim() || typeof item.differentiation !== 'string' || !item.differentiation.trim()
+  );
+  if (invalid !== -1) {
+    errors.push(`"competitors[${invalid}]" must have non-empty "name" and "differentiation" strings.`);
+    return [];
+  }
+  return value.map(item => ({ name: item.name.trim(), differentiation: item.differentiation.trim() }));
+};
+
+const readScore = (value: unknown, field: string, errors: string[]): number => {
+  const score = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+    errors.push(`"${field}" must be a number from 0 to 100.`);
+    return 0;
+  }
+  return Math.round(score);
+};
+
+export const readSubScores = (value: unknown, errors: string[]): Record<SubScoreDimension, SubScore> => {
+  const subScores = {} as Record<SubScoreDimension, SubScore>;
+  if (!isRecord(value)) {
+    errors.push(`"subScores" must be an object with ${SUB_SCORE_DIMENSIONS.map(d => `"${d.id}"`).join(', ')}.`);
+    return subScores;
+  }
+
+  SUB_SCORE_DIMENSIONS.forEach(({ id }) => {
+    const entry = getField(value, [id.toLowerCase()]);
+    if (!isRecord(entry)) {
+      errors.push(`"subScores.${id}" must be a {"score", "rationale"} object.`);
+      return;
+    }
+    subScores[id] = {
+      score: readScore(entry.score, `subScores.${id}.score`, errors),
+      rationale: readText(entry.rationale, `subScores.${id}.rationale`, errors)
+    };
+  });
+
+  return subScores;
+};
+
+const readCurrency = (value: unknown, field: string, errors: string[]): string => {
+  const currency = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!/^[A-Z]{3}$/.test(currency)) errors.push(`"${field}" must be a 3-letter currency code like "USD".`);
+  return currency;
+};
+
+// Reads one {"value", "source"} entry per assumption; percentages must be 0-100 and every value needs a source
+const readAssumptions = <K extends string>(group: Record<string, any>, assumptions: AssumptionInfo<K>[], field: string, errors: string[]) =>
+  Object.fromEntries(assumptions.map(({ key, unit }) => {
+    const entryField = `${field}.${key}`;
+    const entry = getField(group, [key.toLowerCase()]);
+    if (!isRecord(entry)) {
+      errors.push(`"${entryField}" must be a {"value", "source"} object.`);
+      return [key, { value: 0, source: '' }];
+    }
+    const number = typeof entry.value === 'string' && entry.value.trim() !== '' ? Number(entry.value) : entry.value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0 || (unit === 'percent' && number > 100)) {
+      errors.push(`"${entryField}.value" must be a number${unit === 'percent' ? ' from 0 to 100 (a percentage)' : ' of 0 or more'}.`);
+    }
+    return [key, { value: Number(number) || 0, source: readText(entry.source, `${entryField}.source`, errors) }];
+  })) as Record<K, Assumption>;
+
+const isAssumption = (value: unknown): value is Assumption =>
+  isRecord(value) && typeof value.value === 'number' && Number.isFinite(value.value) && typeof value.source === 'string';
+
+// Checks the whole shape, e.g. of a sizing read back from a stored report
+export const isMarketSizing = (value: unknown): value is MarketSizing =>
+  isRecord(value) && typeof value.currency === 'string' && (Object.keys(MARKET_SIZING_ASSUMPTIONS) as SizingApproach[]).every(approach =>
+    isRecord(value[approach]) && MARKET_SIZING_ASSUMPTIONS[approach].every(({ key }) => isAssumption(value[approach][key])));
+
+// Every assumption at 0 without a source
+const defaultMarketSizing = (currency: string): MarketSizing => {
+  const defaults = (approach: SizingApproach) => Object.fromEntries(MARKET_SIZING_ASSUMPTIONS[approach].map(({ key }) => [key, { value: 0, source: '' }]));
+  const sizing = { currency, bottomUp: defaults('bottomUp'), topDown: defaults('topDown') };
+  if (!isMarketSizing(sizing)) throw new Error('MARKET_SIZING_ASSUMPTIONS does not match MarketSizing.');
+  return sizing;
+};
+
+// Also used for the founder's edits, which must keep every assumption and source.
+// Whatever can't be read is reported in `errors` and the default assumptions are returned in its place.
+export const readMarketSizing = (value: unknown, errors: string[]): MarketSizing => {
+  if (!isRecord(value)) {
+    errors.push('"marketSizing" must be an object with "currency", "bottomUp" and "topDown".');
+    return defaultMarketSizing('USD');
+  }
+
+  const currency = readCurrency(value.currency, 'marketSizing.currency', errors);
+  const sizing: Record<string, unknown> = { currency };
+  (Object.keys(MARKET_SIZING_ASSUMPTIONS) as SizingApproach[]).forEach(approach => {
+    const group = value[approach];
+    if (!isRecord(group)) {
+      errors.push(`"marketSizing.${approach}" must be an object with ${MARKET_SIZING_ASSUMPTIONS[approach].map(a => `"${a.key}"`).join(', ')}.`);
+      return;
+    }
+    sizing[approach] = readAssumptions(group, MARKET_SIZING_ASSUMPTIONS[approach] as AssumptionInfo<string>[], `marketSizing.${approach}`, errors);
+  });
+  if (typeof value.editedAt === 'number') sizing.editedAt = value.editedAt;
+
+  return isMarketSizing(sizing) ? sizing : defaultMarketSizing(currency);
+};
+
+// Checks the whole shape, like isMarketSizing
+export const isUnitEconomics = (value: unknown): value is UnitEconomics =>
+  isRecord(value) && typeof value.currency === 'string' && typeof value.strategy === 'string' &&
+  isRecord(value.inputs) && UNIT_ECONOMICS_INPUTS.every(({ key }) => isAssumption(value.inputs[key]));
+
+// Every input at 0 without a source
+const defaultUnitEconomics = (currency: string, strategy = ''): UnitEconomics => {
+  const economics = { currency, strategy, inputs: Object.fromEntries(UNIT_ECONOMICS_INPUTS.map(({ key }) => [key, { value: 0, source: '' }])) };
+  if (!isUnitEconomics(economics)) throw new Error('UNIT_ECONOMICS_INPUTS does not match UnitEconomics.');
+  return economics;
+};
+
+// Also used for the founder's edits, which must keep every input and source.
+// Whatever can't be read is reported in `errors` and the default inputs are returned in its place.
+export const readUnitEconomics = (value: unknown, errors: string[]): UnitEconomics => {
+  if (!isRecord(value)) {
+    errors.push('"unitEconomics" must be an object with "currency", "strategy" and "inputs".');
+    return defaultUnitEconomics('USD');
+  }
+
+  const currency = readCurrency(value.currency, 'unitEconomics.currency', errors);
+  const strategy = readText(value.strategy, 'unitEconomics.strategy', errors);
+  const economics: Record<string, unknown> = { currency, strategy };
+  if (!isRecord(value.inputs)) {
+    errors.push(`"unitEconomics.inputs" must be an object with ${UNIT_ECONOMICS_INPUTS.map(i => `"${i.key}"`).join(', ')}.`);
+  } else {
+    economics.inputs = readAssumptions(value.inputs, UNIT_ECONOMICS_INPUTS, 'unitEconomics.inputs', errors);
+  }
+  if (typeof value.editedAt === 'number') economics.editedAt = value.editedAt;
+
+  return isUnitEconomics(economics) ? economics : defaultUnitEconomics(currency, strategy);
+};
+
+// How each section founders can edit is checked before it's saved
+export const EDITABLE_SECTION_READERS: { [S in EditableSection]: (value: unknown, errors: string[]) => NonNullable<ValidationReport[S]> } = {
+  marketSizing: readMarketSizing,
+  unitEconomics: readUnitEconomics
+};
+
+// Case-insensitive match against a fixed set of values
+export const readChoice = <T extends string>(value: unknown, choices: readonly T[], field: string, errors: string[]): T => {
+  const choice = choices.find(c => typeof value === 'string' && c.toLowerCase() === value.trim().toLowerCase());
+  if (!choice) errors.push(`"${field}" must be one of ${choices.map(c => `"${c}"`).join(', ')}.`);
+  return choice as T;
+};
+
+const readRiskLevel = (value: unknown, field: string, errors: string[]): RiskLevel =>
+  readChoice(value, RISK_LEVELS as RiskLevel[], field, errors);
+
+// Reads the idea's vertical and the matching section, stored under that section's own key.
+// "none" is a valid answer for ideas outside the known verticals and yields no section.
+const readVertical = (value: unknown, section: unknown, expected: IndustryVertical | undefined, errors: string[]): Pick<ReportFields, 'vertical' | VerticalSectionKey> => {
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const vertical = INDUSTRY_VERTICALS.find(v => v.id.toLowerCase() === name);
+  if (expected && vertical?.id !== expected) {
+    errors.push(`"vertical" must be "${expected}".`);
+    return {};
+  }
+  if (!vertical) {
+    if (name !== 'none') errors.push(`"vertical" must be one of ${INDUSTRY_VERTICALS.map(v => `"${v.id}"`).join(', ')} or "none".`);
+    return {};
+  }
+  if (!isRecord(section)) {
+    errors.push(`"verticalSection" must be the ${vertical.label} section object.`);
+    return {};
+  }
+
+  const fields = Object.fromEntries(VERTICAL_SECTION_FIELDS[vertical.section].fields.map(({ key, type }) => {
+    const entry = getField(section, [key.toLowerCase()]);
+    const field = `verticalSection.${key}`;
+    return [key, type === 'risk' ? readRiskLevel(entry, field, errors) : type === 'list' ? readTextList(entry, field, errors, true) : readText(entry, field, errors)];
+  }));
+  return { vertical: vertical.id, [vertical.section]: fields };
+};
+
+// Weighted average of the rubric, using the lens weights (SUB_SCORE_DIMENSIONS for the general lens)
+export const deriveViabilityScore = (subScores: Record<SubScoreDimension, SubScore>, lens?: AnalysisLens): number => {
+  const { weights } = getLens(lens);
+  return Math.round(SUB_SCORE_DIMENSIONS.reduce((total, { id }) => total + subScores[id].score * weights[id], 0));
+};
+
+// The single runtime check for model-produced reports. Tolerates wrapper keys, renamed fields
+// and numeric strings, but never fills in defaults: anything missing or malformed is an error.
+export const validateReport = (data: unknown, { lens, vertical }: RubricOptions = {}): ReportValidationResult => {
+  if (!isRecord(data)) {
+    return { report: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  // Unpack if the model nested the response under a single root key (like {"report": {...}})
+  let obj = data;
+  const keys = Object.keys(data);
+  if (keys.length === 1 && isRecord(data[keys[0]])) {
+    obj = data[keys[0]];
+  }
+
+  const errors: string[] = [];
+  const field = (name: ModelField) => getField(obj, FIELD_ALIASES[name]);
+
+  const summaryVerdict = readText(field('summaryVerdict'), 'summaryVerdict', errors);
+  if (summaryVerdict && !VERDICTS.includes(summaryVerdict)) {
+    errors.push(`"summaryVerdict" must be one of ${VERDICTS.map(v => `"${v}"`).join(', ')}.`);
+  }
+
+  const report: ReportFields = {
+    marketReality: readText(field('marketReality'), 'marketReality', errors),
+    marketSizing: readMarketSizing(field('marketSizing'), errors),
+    pros: readTextList(field('pros'), 'pros', errors),
+    cons: readTextList(field('cons'), 'cons', errors),
+    competitors: readCompetitors(field('competitors'), errors),
+    monetizationStrategies: readTextList(field('monetizationStrategies'), 'monetizationStrategies', errors),
+    whyPeoplePay: readText(field('whyPeoplePay'), 'whyPeoplePay', errors),
+    unitEconomics: readUnitEconomics(field('unitEconomics'), errors),
+    subScores: readSubScores(field('subScores'), errors),
+    viabilityScore: 0,
+    summaryVerdict: summaryVerdict as ReportFields['summaryVerdict'],
+    oneLineTakeaway: readText(field('oneLineTakeaway'), 'oneLineTakeaway', errors),
+    nextSteps: readTextList(field('nextSteps'), 'nextSteps', errors),
+    ...readVertical(getField(obj, ['vertical', 'industry']), getField(obj, ['verticalsection', 'industrysection']), vertical, errors)
+  };
+
+  if (errors.length > 0) return { report: null, errors };
+
+  // The overall score is never taken from the model; it is derived from the rubric
+  return { report: { ...report, viabilityScore: deriveViabilityScore(report.subScores!, lens) }, errors };
+};
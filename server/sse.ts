@@ -0,0 +1,33 @@
+import type { Response } from 'express';
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  // Aborted when the client disconnects, so upstream model calls can be cancelled.
+  signal: AbortSignal;
+}
+
+export const openEventStream = (res: Response): EventStream => {
+  const controller = new AbortController();
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  return {
+    send: (event, data) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      if (!res.writableEnded) res.end();
+    },
+    signal: controller.signal
+  };
+};
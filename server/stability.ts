@@ -0,0 +1,83 @@
+import { LLMProvider, LLMRequest } from './llm';
+import { runAnalysis } from './analysis';
+import { ReportFields, RubricOptions } from './reportValidator';
+import { EnsembleResult, buildConsensus, mean } from './ensemble';
+import { SUB_SCORE_DIMENSIONS } from '../types';
+import type { AnalysisProgress, StabilitySummary } from '../types';
+
+export const MIN_SAMPLES = 2;
+export const MAX_SAMPLES = 5;
+
+// Two-sided 95% Student's t critical values by degrees of freedom (samples - 1)
+const T_CRITICAL: Record<number, number> = { 1: 12.706, 2: 4.303, 3: 3.182, 4: 2.776 };
+
+// A sub-score whose samples deviate more than this (standard deviation, in points) is flagged
+const UNSTABLE_SUB_SCORE_STD_DEV = 10;
+// A list is flagged when fewer than this share of its points were raised by most samples
+const MIN_LIST_AGREEMENT = 0.5;
+
+const sampleStdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Samples the same analysis several times in parallel and returns the consensus report with a
+// confidence interval for the score and the sections the samples disagreed on.
+export const runStabilitySamples = async (provider: LLMProvider, request: LLMRequest, samples: number, onProgress?: (progress: AnalysisProgress) => void, rubric: RubricOptions = {}): Promise<ReportFields> => {
+  const settled = await Promise.allSettled(Array.from({ length: samples }, (_, i) =>
+    runAnalysis(provider, request, onProgress && (progress => onProgress({ ...progress, model: `Sample ${i + 1}` })), rubric)
+  ));
+
+  const results: EnsembleResult[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      results.push({ model: `Sample ${i + 1}`, report: outcome.value });
+    } else {
+      console.error(`Stability sample ${i + 1} failed:`, outcome.reason);
+    }
+  });
+
+  // A confidence interval needs at least two successful samples
+  if (results.length < MIN_SAMPLES) {
+    const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    throw failure?.reason || new Error('Stability check failed.');
+  }
+
+  const { report, points } = buildConsensus(results, rubric.lens);
+  const scores = results.map(r => r.report.viabilityScore);
+  const unstableSections: StabilitySummary['unstableSections'] = [];
+
+  const verdicts = new Set(results.map(r => r.report.summaryVerdict));
+  if (verdicts.size > 1) {
+    unstableSections.push({ section: 'Verdict', detail: `Samples disagreed: ${[...verdicts].join(', ')}` });
+  }
+
+  SUB_SCORE_DIMENSIONS.forEach(({ id, label }) => {
+    const values = results.map(r => r.report.subScores![id].score);
+    const stdDev = sampleStdDev(values);
+    if (stdDev > UNSTABLE_SUB_SCORE_STD_DEV) {
+      unstableSections.push({ section: label, detail: `Scored ${Math.min(...values)}–${Math.max(...values)} across samples (± ${round1(stdDev)})` });
+    }
+  });
+
+  ([['Strengths', points.pros], ['Risks', points.cons], ['Competitors', points.competitors]] as const).forEach(([section, groups]) => {
+    if (groups.length === 0) return;
+    const agreed = groups.filter(g => g.point.models.length > results.length / 2).length;
+    if (agreed / groups.length < MIN_LIST_AGREEMENT) {
+      unstableSections.push({ section, detail: `Only ${agreed} of ${groups.length} points came up in most samples` });
+    }
+  });
+
+  return {
+    ...report,
+    stability: {
+      samples: results.length,
+      scores,
+      mean: round1(mean(scores)),
+      margin: round1(T_CRITICAL[results.length - 1] * sampleStdDev(scores) / Math.sqrt(results.length)),
+      unstableSections
+    }
+  };
+};
@@ -0,0 +1,312 @@
+import { LLMProvider } from './llm';
+import { JsonValidationResult, generateValidJson } from './json';
+import { isRecord, readChoice, readText, readTextList } from './reportValidator';
+import { describeReport, writeInLanguage } from './interviews';
+import { MIN_PRICE_RANGE_RESPONSES, PRICE_QUESTIONS, SCALE_POINTS } from '../types';
+import type { PriceQuestion, PriceRange, Survey, SurveyQuestion, SurveyQuestionStats, SurveyQuestionType, SurveyResponse, SurveyResults, SurveyTopic, ValidationReport } from '../types';
+
+const MIN_QUESTIONS = 8;
+const MAX_QUESTIONS = 14;
+const MAX_TEXT_SAMPLES = 5;
+const MAX_SAMPLE_CHARS = 300;
+export const MAX_SURVEY_RESPONSES = 20000;
+
+const QUESTION_TYPES: SurveyQuestionType[] = ['single', 'multiple', 'scale', 'price', 'text'];
+const TOPICS: SurveyTopic[] = ['screening', 'frequency', 'alternatives', 'price'];
+
+const surveyCurrency = (report: ValidationReport) => report.unitEconomics?.currency || report.marketSizing?.currency || 'USD';
+
+const buildSurveySystemPrompt = (currency: string) => `You are a customer research expert designing a short online survey that validates demand for a startup idea before it is built. The survey goes to people in the target audience, who fill it in on their own in a survey tool such as Google Forms or Typeform, so every question must be self-explanatory and neutral: no pitching, no leading questions, and no questions about the idea itself.
+
+CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.
+
+The JSON must strictly match this schema:
+{
+  "title": "string",
+  "intro": "string (one or two sentences shown before the first question; say what the survey is about and how long it takes)",
+  "questions": [
+    {
+      "topic": ${TOPICS.map(t => `"${t}"`).join(' | ')},
+      "type": ${QUESTION_TYPES.map(t => `"${t}"`).join(' | ')},
+      "text": "string",
+      "options": ["string"] (only for "single" and "multiple"),
+      "scaleLabels": ["string (what 1 means)", "string (what ${SCALE_POINTS} means)"] (only for "scale"),
+      "priceQuestion": ${PRICE_QUESTIONS.map(q => `"${q.id}"`).join(' | ')} (only for "price")
+    }
+  ]
+}
+
+Write ${MIN_QUESTIONS} to ${MAX_QUESTIONS} questions in this order:
+- "screening": one or two questions that tell whether the respondent is in the target audience.
+- "frequency": how often the respondent runs into the problem and how painful it is (use a "scale" from 1 to ${SCALE_POINTS} for pain).
+- "alternatives": what they use or do today to solve it, and what it costs them in money or time.
+- "price": exactly the four Van Westendorp questions, one of each "priceQuestion", answered with an amount in ${currency}. Describe the solution in a neutral sentence first so respondents know what they are pricing, and ask at what price they would consider it:
+${PRICE_QUESTIONS.map(q => `  - "${q.id}": ${q.description}`).join('\n')}
+
+Choice options must be short and mutually exclusive for "single" questions, and should include an "Other" or "None" option where relevant. Use "text" questions sparingly; at most one.`;
+
+const SURVEY_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    intro: { type: 'string' },
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string', enum: TOPICS },
+          type: { type: 'string', enum: QUESTION_TYPES },
+          text: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          scaleLabels: { type: 'array', items: { type: 'string' } },
+          priceQuestion: { type: 'string', enum: PRICE_QUESTIONS.map(q => q.id) }
+        },
+        required: ['topic', 'type', 'text']
+      }
+    }
+  },
+  required: ['title', 'intro', 'questions']
+};
+
+const validateSurvey = (data: unknown): JsonValidationResult<Pick<Survey, 'title' | 'intro' | 'questions'>> => {
+  if (!isRecord(data)) {
+    return { value: null, errors: ['The response must be a JSON object.'] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data.questions) || data.questions.length < MIN_QUESTIONS || data.questions.length > MAX_QUESTIONS) {
+    errors.push(`"questions" must be an array of ${MIN_QUESTIONS} to ${MAX_QUESTIONS} questions.`);
+  }
+
+  const questions = (Array.isArray(data.questions) ? data.questions : []).map((question, i): SurveyQuestion => {
+    const field = `questions[${i}]`;
+    const item = isRecord(question) ? question : {};
+    const type = readChoice(item.type, QUESTION_TYPES, `${field}.type`, errors);
+    const parsed: SurveyQuestion = {
+      id: `q${i + 1}`,
+      topic: readChoice(item.topic, TOPICS, `${field}.topic`, errors),
+      type,
+      text: readText(item.text, `${field}.text`, errors)
+    };
+
+    if (type === 'single' || type === 'multiple') {
+      const options = readTextList(item.options, `${field}.options`, errors);
+      if (options.length === 1) errors.push(`"${field}.options" must contain at least two options.`);
+      parsed.options = options;
+    } else if (type === 'scale') {
+      const labels = readTextList(item.scaleLabels, `${field}.scaleLabels`, errors);
+      if (labels.length !== 2) errors.push(`"${field}.scaleLabels" must contain exactly two labels.`);
+      parsed.scaleLabels = [labels[0] || '', labels[1] || ''];
+    } else if (type === 'price') {
+      parsed.priceQuestion = readChoice(item.priceQuestion, PRICE_QUESTIONS.map(q => q.id), `${field}.priceQuestion`, errors);
+    }
+    return parsed;
+  });
+
+  PRICE_QUESTIONS.forEach(({ id }) => {
+    const count = questions.filter(q => q.priceQuestion === id).length;
+    if (count !== 1) errors.push(`The survey must contain exactly one "price" question with "priceQuestion": "${id}" (found ${count}).`);
+  });
+
+  const survey = {
+    title: readText(data.title, 'title', errors),
+    intro: readText(data.intro, 'intro', errors),
+    questions
+  };
+  if (errors.length > 0) return { value: null, errors };
+  return { value: survey, errors };
+};
+
+export const generateSurvey = async (provider: LLMProvider, report: ValidationReport, signal?: AbortSignal): Promise<Survey> => {
+  const currency = surveyCurrency(report);
+  const survey = await generateValidJson(
+    provider,
+    {
+      system: buildSurveySystemPrompt(currency) + writeInLanguage(report),
+      messages: [{ role: 'user', text: `${describeReport(report)}\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.` }],
+      jsonSchema: SURVEY_JSON_SCHEMA,
+      maxTokens: 4096,
+      signal
+    },
+    validateSurvey,
+    'survey'
+  );
+  return { ...survey, currency, createdAt: Date.now() };
+};
+
+// ---------------------------------------------------------
+// Results: imported answers are matched against the survey's questions and summarized
+// ---------------------------------------------------------
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Amounts arrive as "$25", "25.00", "1,200", "1.200,50" or "12,50 €", in either decimal convention. With both
+// separators the last one is the decimal point. A lone separator groups thousands when it repeats ("1.200.000") or
+// is followed by exactly three digits after a non-zero integer part ("1,200", "1.200"); otherwise it is the
+// decimal point ("12,50", "12.5", "0.500").
+const parseAmount = (answer: string): number | null => {
+  const cleaned = answer.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+  const separators = cleaned.match(/[.,]/g) || [];
+  const decimalAt = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  const groupsThousands = separators.length > 1
+    ? new Set(separators).size === 1
+    : separators.length === 1 && cleaned.length - decimalAt - 1 === 3 && /[1-9]/.test(cleaned.slice(0, decimalAt));
+  const normalized = separators.length === 0 || groupsThousands
+    ? cleaned.replace(/[.,]/g, '')
+    : `${cleaned.slice(0, decimalAt).replace(/[.,]/g, '')}.${cleaned.slice(decimalAt + 1)}`;
+  const amount = Number(normalized);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+// Scale answers may carry their label, e.g. "4 - Often"
+const parseScale = (answer: string): number | null => {
+  const match = answer.match(/^\s*(\d+(?:[.,]\d+)?)/);
+  const value = match ? Number(match[1].replace(',', '.')) : NaN;
+  return value >= 1 && value <= SCALE_POINTS ? value : null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Survey tools join multiple choices with commas, semicolons or pipes, and options may contain commas themselves,
+// so an option matches when it is the whole answer or a whole delimited part of it ("No" never matches "Not sure").
+// Longer options are matched first and taken out, so "Yes" isn't also found in "Yes, often".
+const matchOptions = (answer: string, options: string[]) => {
+  let rest = normalize(answer);
+  const exact = options.filter(option => normalize(option) === rest);
+  if (exact.length > 0) return exact;
+
+  const matched = new Set<string>();
+  [...options].sort((a, b) => b.length - a.length).forEach(option => {
+    const part = new RegExp(`(^|[,;|]\\s*)${escapeRegExp(normalize(option))}(?=\\s*(?:[,;|]|$))`);
+    if (!part.test(rest)) return;
+    matched.add(option);
+    rest = rest.replace(part, '$1');
+  });
+  return options.filter(option => matched.has(option));
+};
+
+const summarizeQuestion = (question: SurveyQuestion, answers: string[]): SurveyQuestionStats => {
+  const base = { questionId: question.id };
+
+  if (question.type === 'single' || question.type === 'multiple') {
+    const options = question.options || [];
+    const counts = new Map(options.map(option => [option, 0]));
+    let other = 0;
+    answers.forEach(answer => {
+      const matched = matchOptions(answer, options);
+      if (matched.length === 0) other++;
+      (question.type === 'single' ? matched.slice(0, 1) : matched).forEach(option => counts.set(option, counts.get(option)! + 1));
+    });
+    return {
+      ...base,
+      kind: 'choice',
+      responses: answers.length,
+      counts: [...[...counts].map(([option, count]) => ({ option, count })), ...(other > 0 ? [{ option: 'Other', count: other }] : [])]
+    };
+  }
+
+  if (question.type === 'scale' || question.type === 'price') {
+    const values = answers.map(question.type === 'scale' ? parseScale : parseAmount).filter((value): value is number => value !== null);
+    if (values.length === 0) {
+      return question.type === 'scale'
+        ? { ...base, kind: 'scale', responses: 0, mean: 0, median: 0, distribution: new Array(SCALE_POINTS).fill(0) }
+        : { ...base, kind: 'price', responses: 0, mean: 0, median: 0, min: 0, max: 0 };
+    }
+    if (question.type === 'scale') {
+      const distribution = new Array(SCALE_POINTS).fill(0);
+      values.forEach(value => distribution[Math.round(value) - 1]++);
+      return { ...base, kind: 'scale', responses: values.length, mean: round(mean(values)), median: round(median(values)), distribution };
+    }
+    return { ...base, kind: 'price', responses: values.length, mean: round(mean(values)), median: round(median(values)), min: Math.min(...values), max: Math.max(...values) };
+  }
+
+  return { ...base, kind: 'text', responses: answers.length, samples: answers.slice(0, MAX_TEXT_SAMPLES).map(answer => answer.slice(0, MAX_SAMPLE_CHARS)) };
+};
+
+// Where a falling curve meets a rising one, interpolated between the prices either side of the crossing
+const findCrossing = (prices: number[], falling: (price: number) => number, rising: (price: number) => number) => {
+  let previous = prices[0];
+  let previousGap = falling(previous) - rising(previous);
+  if (previousGap <= 0) return previous;
+  for (const price of prices.slice(1)) {
+    const gap = falling(price) - rising(price);
+    if (gap <= 0) return round(previous + (price - previous) * previousGap / (previousGap - gap));
+    previous = price;
+    previousGap = gap;
+  }
+  return previous;
+};
+
+// Van Westendorp price sensitivity meter. Respondents whose four prices aren't in order (too cheap ≤ bargain
+// ≤ getting expensive ≤ too expensive) misread a question and are left out.
+const computePriceRange = (answers: Record<PriceQuestion, number>[]): PriceRange | undefined => {
+  const valid = answers.filter(a => a.tooCheap <= a.cheap && a.cheap <= a.expensive && a.expensive <= a.tooExpensive);
+  if (valid.length < MIN_PRICE_RANGE_RESPONSES) return undefined;
+
+  const share = (predicate: (a: Record<PriceQuestion, number>) => boolean) => valid.filter(predicate).length / valid.length;
+  const tooCheap = (price: number) => share(a => a.tooCheap >= price);
+  const cheap = (price: number) => share(a => a.cheap >= price);
+  const expensive = (price: number) => share(a => a.expensive <= price);
+  const tooExpensive = (price: number) => share(a => a.tooExpensive <= price);
+  const prices = [...new Set(valid.flatMap(a => PRICE_QUESTIONS.map(q => a[q.id])))].sort((a, b) => a - b);
+
+  return {
+    responses: valid.length,
+    marginalCheapness: findCrossing(prices, tooCheap, price => 1 - cheap(price)),
+    optimal: findCrossing(prices, tooCheap, tooExpensive),
+    indifference: findCrossing(prices, cheap, expensive),
+    marginalExpensiveness: findCrossing(prices, price => 1 - expensive(price), tooExpensive)
+  };
+};
+
+export const computeSurveyResults = (survey: Survey, responses: SurveyResponse[], fileName: string): SurveyResults => {
+  const answered = responses.filter(response => survey.questions.some(q => response[q.id]?.trim()));
+  const answersTo = (question: SurveyQuestion) => answered.map(response => response[question.id]?.trim() || '').filter(Boolean);
+
+  const priceQuestions = PRICE_QUESTIONS.map(({ id }) => survey.questions.find(q => q.priceQuestion === id));
+  const priceAnswers = priceQuestions.every(Boolean)
+    ? answered.flatMap(response => {
+        const amounts = priceQuestions.map(q => parseAmount(response[q!.id] || ''));
+        return amounts.every(amount => amount !== null) ? [Object.fromEntries(PRICE_QUESTIONS.map(({ id }, i) => [id, amounts[i]!])) as Record<PriceQuestion, number>] : [];
+      })
+    : [];
+  const priceRange = computePriceRange(priceAnswers);
+
+  return {
+    importedAt: Date.now(),
+    fileName,
+    respondents: answered.length,
+    questions: survey.questions.map(question => summarizeQuestion(question, answersTo(question))),
+    ...(priceRange && { priceRange })
+  };
+};
+
+// The evidence section of a rescoring prompt: what the survey asked and how people answered
+export const formatSurveyEvidence = (survey: Survey, results: SurveyResults) => {
+  const percent = (count: number, total: number) => `${Math.round(count / Math.max(total, 1) * 100)}%`;
+  const lines = survey.questions.map(question => {
+    const stats = results.questions.find(s => s.questionId === question.id);
+    if (!stats || stats.responses === 0) return `- ${question.text}: no usable answers`;
+    const summary = stats.kind === 'choice' ? stats.counts.map(c => `${c.option} ${percent(c.count, stats.responses)}`).join(', ')
+      : stats.kind === 'scale' ? `mean ${stats.mean} of ${SCALE_POINTS} (1 = ${question.scaleLabels?.[0]}, ${SCALE_POINTS} = ${question.scaleLabels?.[1]})`
+      : stats.kind === 'price' ? `median ${stats.median} ${survey.currency}, range ${stats.min}-${stats.max}`
+      : stats.samples.map(sample => `"${sample}"`).join('; ');
+    return `- ${question.text} (${stats.responses} answers): ${summary}`;
+  });
+  const range = results.priceRange;
+  return `Survey "${survey.title}" with ${results.respondents} respondents:\n${lines.join('\n')}${range
+    ? `\nVan Westendorp price range (${range.responses} consistent respondents): acceptable ${range.marginalCheapness}-${range.marginalExpensiveness} ${survey.currency}, optimal ${range.optimal}, indifference ${range.indifference}`
+    : ''}`;
+};
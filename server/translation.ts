@@ -0,0 +1,73 @@
+import { LLMProvider } from './llm';
+import { generateValidJson } from './json';
+import { isRecord } from './reportValidator';
+import { VERTICAL_SECTION_FIELDS, getReportLanguage } from '../types';
+import type { TranslatableReport, ValidationReport, VerticalSectionKey } from '../types';
+
+const TRANSLATABLE_FIELDS: (keyof TranslatableReport)[] = [
+  'oneLineTakeaway', 'marketReality', 'pros', 'cons', 'competitors', 'monetizationStrategies', 'whyPeoplePay', 'subScores', 'nextSteps',
+  ...(Object.keys(VERTICAL_SECTION_FIELDS) as VerticalSectionKey[])
+];
+
+// Values that are fixed labels rather than prose; they are neither sent nor translated
+const UNTRANSLATED_KEYS = new Set(Object.values(VERTICAL_SECTION_FIELDS).flatMap(({ fields }) =>
+  fields.filter(({ type }) => type === 'risk').map(({ key }) => key as string)
+));
+
+const buildTranslationPrompt = (language: string) => `You translate startup validation reports into ${language}. Translate every string value in the JSON you are given. Keep the keys, the order of every array and the number of items in it exactly the same. Keep company, product and brand names as they are. Write naturally, as a native-speaking startup advisor would, and keep the meaning and tone.
+
+CRITICAL INSTRUCTION: You MUST return ONLY the translated, valid JSON object. Do not include any markdown formatting. Do not include any conversational text before or after the JSON.`;
+
+// Rebuilds the source's structure, taking each string from the translation at the same position.
+// Numbers and untranslated labels always come from the source, so a translation can't change a score.
+const mergeTranslation = (source: unknown, translated: unknown, path: string, errors: string[]): unknown => {
+  if (typeof source === 'string') {
+    if (typeof translated !== 'string' || !translated.trim()) {
+      errors.push(`"${path}" must be a non-empty string.`);
+      return source;
+    }
+    return translated.trim();
+  }
+  if (Array.isArray(source)) {
+    if (!Array.isArray(translated) || translated.length !== source.length) {
+      errors.push(`"${path}" must be an array of ${source.length} items, in the original order.`);
+      return source;
+    }
+    return source.map((item, i) => mergeTranslation(item, translated[i], `${path}[${i}]`, errors));
+  }
+  if (isRecord(source)) {
+    if (!isRecord(translated)) {
+      errors.push(`"${path}" must be an object.`);
+      return source;
+    }
+    return Object.fromEntries(Object.entries(source).map(([key, value]) => [
+      key,
+      UNTRANSLATED_KEYS.has(key) ? value : mergeTranslation(value, translated[key], path ? `${path}.${key}` : key, errors)
+    ]));
+  }
+  return source;
+};
+
+export const translateReport = async (provider: LLMProvider, report: ValidationReport, languageCode: string, signal?: AbortSignal): Promise<TranslatableReport> => {
+  const language = getReportLanguage(languageCode);
+  if (!language) throw new Error(`Unsupported language: ${languageCode}`);
+
+  const source = Object.fromEntries(TRANSLATABLE_FIELDS.filter(field => report[field] !== undefined).map(field => [field, report[field]]));
+  const sourceJson = JSON.stringify(source, (key, value) => UNTRANSLATED_KEYS.has(key) || typeof value === 'number' ? undefined : value, 2);
+
+  return generateValidJson(
+    provider,
+    {
+      system: buildTranslationPrompt(language.label),
+      messages: [{ role: 'user', text: `=== REPORT TO TRANSLATE INTO ${language.label.toUpperCase()} ===\n${sourceJson}\n========================\n\nRemember: Output strictly valid JSON with the same structure. NO CONVERSATIONAL TEXT.` }],
+      maxTokens: 8192,
+      signal
+    },
+    data => {
+      const errors: string[] = [];
+      const value = mergeTranslation(source, data, '', errors) as TranslatableReport;
+      return { value: errors.length > 0 ? null : value, errors };
+    },
+    'translation'
+  );
+};
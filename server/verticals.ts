@@ -0,0 +1,78 @@
+import { INDUSTRY_VERTICALS, VERTICAL_SECTION_FIELDS } from '../types';
+import type { IndustryVertical, VerticalSectionKey } from '../types';
+
+export const RISK_LEVELS = ['Low', 'Medium', 'High'];
+
+// How to recognize each vertical, and how it changes the reading of the rubric
+const VERTICAL_PROMPTS: Record<IndustryVertical, { signals: string; rubric: string }> = {
+  marketplace: {
+    signals: 'connects two or more groups (buyers and sellers, hosts and guests) and earns on the transactions between them',
+    rubric: 'Judge marketSize by the transaction volume the platform can capture, and score monetizationClarity low if users could easily transact off the platform.'
+  },
+  b2bSaas: {
+    signals: 'software sold to businesses on a subscription',
+    rubric: 'Judge monetizationClarity by who owns the budget and how long the sales cycle is, and competitionIntensity by the tools buyers already pay for.'
+  },
+  hardware: {
+    signals: 'a physical device or product that has to be manufactured',
+    rubric: 'Judge technicalFeasibility including manufacturing, certification and the cash tied up in inventory, not just a working prototype.'
+  },
+  consumerApp: {
+    signals: 'an app or website for individual consumers',
+    rubric: 'Judge marketSize by the users the product can realistically reach, and monetizationClarity by realistic conversion or ad revenue per user.'
+  },
+  fintech: {
+    signals: 'moves, stores, lends or invests money, or handles payments',
+    rubric: 'Judge technicalFeasibility and timing including licensing and the banking partners needed before launch.'
+  },
+  health: {
+    signals: 'diagnoses, treats or monitors patients, or handles medical data',
+    rubric: 'Judge technicalFeasibility and timing including clinical validation and approval timelines, and monetizationClarity by who actually pays (patient, provider or insurer).'
+  }
+};
+
+const FIELD_TYPE_SCHEMAS = {
+  text: { type: 'string' },
+  list: { type: 'array', items: { type: 'string' } },
+  risk: { type: 'string', enum: RISK_LEVELS }
+};
+
+const FIELD_TYPE_EXAMPLES = {
+  text: '"string"',
+  list: '["string"]',
+  risk: RISK_LEVELS.map(level => `"${level}"`).join(' | ')
+};
+
+const sectionJsonSchema = (section: VerticalSectionKey) => ({
+  type: 'object',
+  properties: Object.fromEntries(VERTICAL_SECTION_FIELDS[section].fields.map(({ key, type }) => [key, FIELD_TYPE_SCHEMAS[type]])),
+  required: VERTICAL_SECTION_FIELDS[section].fields.map(({ key }) => key)
+});
+
+// "vertical" is written first so it can inform the scores; "verticalSection" holds the fields of that vertical's section
+export const VERTICAL_JSON_SCHEMA = {
+  vertical: { type: 'string', enum: [...INDUSTRY_VERTICALS.map(v => v.id), 'none'] },
+  verticalSection: {
+    anyOf: [...(Object.keys(VERTICAL_SECTION_FIELDS) as VerticalSectionKey[]).map(sectionJsonSchema), { type: 'null' }]
+  }
+};
+
+const describeSection = (section: VerticalSectionKey) =>
+  `{${VERTICAL_SECTION_FIELDS[section].fields.map(({ key, type, description }) => `"${key}": ${FIELD_TYPE_EXAMPLES[type]} (${description})`).join(', ')}}`;
+
+// The "vertical" value shown in the prompt's schema: fixed when the founder picked one, otherwise detected
+export const describeVerticalValue = (vertical?: IndustryVertical) =>
+  vertical ? `"${vertical}"` : [...INDUSTRY_VERTICALS.map(v => `"${v.id}"`), '"none"'].join(' | ');
+
+// Explains the verticals (or only the chosen one) to the model: how to spot it, how it shifts the
+// rubric, and the section to fill in for it.
+export const buildVerticalInstructions = (vertical?: IndustryVertical) => {
+  const intro = vertical
+    ? `This idea is in the ${INDUSTRY_VERTICALS.find(v => v.id === vertical)!.label} vertical. Set "vertical" to "${vertical}", apply its scoring notes and fill in "verticalSection" for it:`
+    : 'Set "vertical" to the industry vertical the idea belongs to, apply its scoring notes and fill in "verticalSection" for it. If none fits, set "vertical" to "none" and "verticalSection" to null.';
+
+  return `${intro}
+${INDUSTRY_VERTICALS.filter(v => !vertical || v.id === vertical).map(({ id, section }) =>
+  `- ${id}: ${VERTICAL_PROMPTS[id].signals}. ${VERTICAL_PROMPTS[id].rubric}\n  verticalSection: ${describeSection(section)}`
+).join('\n')}`;
+};
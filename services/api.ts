@@ -1,494 +1,318 @@
-import { UserProfile, ValidationReport, MOCK_REPORT, CustomModelConfig } from "../types";
-import { GoogleGenAI, Type } from "@google/genai";
+import { UserProfile, ValidationReport, MOCK_REPORT, CustomModelConfig, ChatTurn, ChatMemory, ChatStreamChunk, ChatConversation, ChatThread, ChatMessage, AnalysisProgress, AnalysisOptions, Attachment, ReportTranslation, EditableSection, Evidence, EvidenceKind, Experiment, ExperimentUpdate, InterviewKit, InterviewUpload, Survey, SurveyResponse } from "../types";
+import { readEventStream } from "./sse";
 
 const API_URL = (import.meta as any).env.VITE_API_URL || "https://zauriscore-vo.vercel.app/api";
 
 export const api = {
   // --- AI ---
-  analyzeIdea: async (idea: string, attachment?: { mimeType: string, data: string }, email?: string, customModel?: CustomModelConfig): Promise<ValidationReport> => {
-    
-    // ----------------------------------------------------------------------
-    // CUSTOM MODEL LOGIC (Client-side routing with user's own API Key)
-    // ----------------------------------------------------------------------
-    if (customModel && customModel.apiKey) {
-        
-        let userText = idea ? idea.trim() : "";
-        let isTextAttachment = false;
-
-        // Process attachments and enforce provider limits
-        if (attachment) {
-            const isImage = attachment.mimeType.startsWith('image/');
-            const isPdf = attachment.mimeType === 'application/pdf';
-            const isAudio = attachment.mimeType.startsWith('audio/') || attachment.mimeType.includes('webm') || attachment.mimeType.includes('mp4') || attachment.mimeType.includes('mpeg');
-            isTextAttachment = attachment.mimeType.startsWith('text/') || attachment.mimeType.includes('json') || attachment.mimeType.includes('csv') || attachment.mimeType.includes('xml');
-
-            if (isTextAttachment) {
-                try {
-                    const decodedText = decodeURIComponent(escape(atob(attachment.data)));
-                    userText += `\n\n--- Attached Document ---\n${decodedText}`;
-                } catch (e) {
-                    throw new Error("Failed to read the attached text document. Please try pasting the text directly.");
-                }
-            } else if (customModel.provider !== 'Google') {
-                // Non-Google models have strict attachment limitations in this app architecture
-                if ((customModel.provider === 'OpenAI' || customModel.provider === 'OpenRouter') && !isImage) {
-                    throw new Error(`${customModel.provider} only supports image attachments. Please remove the ${isPdf ? 'PDF' : isAudio ? 'Audio' : 'file'} or switch to ZauriScore / Google.`);
-                }
-                if (customModel.provider === 'Anthropic' && !isImage && !isPdf) {
-                    throw new Error(`Anthropic only supports image and PDF attachments. Please remove the ${isAudio ? 'Audio' : 'file'} or switch to ZauriScore / Google.`);
-                }
-            }
-        }
-
-        if (!userText && !attachment) {
-            throw new Error("Please provide a startup idea or an attachment to analyze.");
-        }
-        if (!userText && attachment) {
-            userText = "Please analyze the attached file and provide the startup validation report.";
-        }
-
-        const systemPrompt = `You are an expert startup advisor and product manager. Your goal is to provide honest, clear, and encouraging feedback to founders. Do not use hype. Do not use investor jargon. Be direct but kind. Analyze the user's startup idea. Return a structured validation report in JSON.
-
-CRITICAL INSTRUCTION: You MUST return ONLY a raw, valid JSON object. Do not include any markdown formatting like \`\`\`json. Do not include any conversational text before or after the JSON.
-
-The JSON must strictly match this schema:
-{
-  "summaryVerdict": "Promising" | "Risky" | "Needs Refinement",
-  "oneLineTakeaway": "string",
-  "marketReality": "string",
-  "pros": ["string"],
-  "cons": ["string"],
-  "competitors": [{"name": "string", "differentiation": "string"}],
-  "monetizationStrategies": ["string"],
-  "whyPeoplePay": "string",
-  "viabilityScore": 85,
-  "nextSteps": ["string"]
-}`;
-
-        const enforcedUserPrompt = `=== STARTUP IDEA TO ANALYZE ===\n${userText}\n========================\n\nRemember: Output strictly valid JSON matching the schema. NO CONVERSATIONAL TEXT.`;
-        
-        try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 90000); // 90s timeout
-
-            let endpoint = '';
-            let headers: any = { 'Content-Type': 'application/json' };
-            let payload: any = {};
-
-            if (customModel.provider === 'OpenAI') {
-                endpoint = 'https://api.openai.com/v1/chat/completions';
-                headers['Authorization'] = `Bearer ${customModel.apiKey}`;
-                
-                const contentArray: any[] = [{ type: "text", text: enforcedUserPrompt }];
-                if (attachment && !isTextAttachment && attachment.mimeType.startsWith('image/')) {
-                    contentArray.push({
-                        type: "image_url",
-                        image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
-                    });
-                }
-
-                payload = {
-                    model: customModel.model,
-                    messages: [
-                        { role: "system", content: systemPrompt }, 
-                        { role: "user", content: contentArray }
-                    ],
-                    response_format: { type: "json_object" }
-                };
-            } else if (customModel.provider === 'Anthropic') {
-                endpoint = 'https://api.anthropic.com/v1/messages';
-                headers['x-api-key'] = customModel.apiKey;
-                headers['anthropic-version'] = '2023-06-01';
-                headers['anthropic-dangerously-allow-browser'] = 'true';
-
-                const contentArray: any[] = [];
-                if (attachment && !isTextAttachment) {
-                    if (attachment.mimeType.startsWith('image/')) {
-                        contentArray.push({
-                            type: "image",
-                            source: {
-                                type: "base64",
-                                media_type: attachment.mimeType,
-                                data: attachment.data
-                            }
-                        });
-                    } else if (attachment.mimeType === 'application/pdf') {
-                        contentArray.push({
-                            type: "document",
-                            source: {
-                                type: "base64",
-                                media_type: "application/pdf",
-                                data: attachment.data
-                            }
-                        });
-                    }
-                }
-                contentArray.push({ type: "text", text: enforcedUserPrompt });
-
-                payload = {
-                    model: customModel.model,
-                    max_tokens: 2000,
-                    system: systemPrompt,
-                    messages: [{ role: "user", content: contentArray }]
-                };
-            } else if (customModel.provider === 'Google') {
-                endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${customModel.model}:generateContent?key=${customModel.apiKey}`;
-                
-                const parts: any[] = [];
-                if (attachment && !isTextAttachment) {
-                    parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
-                }
-                parts.push({ text: enforcedUserPrompt });
-
-                payload = {
-                    systemInstruction: { parts: [{ text: systemPrompt }] },
-                    contents: [{ parts }],
-                    generationConfig: { responseMimeType: "application/json" }
-                };
-            } else if (customModel.provider === 'OpenRouter') {
-                endpoint = 'https://openrouter.ai/api/v1/chat/completions';
-                headers['Authorization'] = `Bearer ${customModel.apiKey}`;
-                headers['HTTP-Referer'] = typeof window !== 'undefined' ? window.location.origin : 'https://zauriscore.com';
-                headers['X-Title'] = 'ZauriScore';
-
-                const contentArray: any[] = [{ type: "text", text: `${systemPrompt}\n\n${enforcedUserPrompt}` }];
-                if (attachment && !isTextAttachment && attachment.mimeType.startsWith('image/')) {
-                    contentArray.push({
-                        type: "image_url",
-                        image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
-                    });
-                }
-
-                payload = {
-                    model: customModel.model,
-                    messages: [
-                        { role: "user", content: contentArray }
-                    ]
-                };
-            }
-
-            const res = await fetch(endpoint, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(payload),
-                signal: controller.signal
-            });
-            
-            clearTimeout(timeoutId);
-
-            if (!res.ok) {
-                const errText = await res.text();
-                let errMsg = res.statusText;
-                try {
-                    const err = JSON.parse(errText);
-                    errMsg = err.error?.message || errMsg;
-                    const raw = err.error?.metadata?.raw;
-                    if (raw) {
-                        const rawStr = typeof raw === 'object' ? JSON.stringify(raw) : raw;
-                        errMsg += ` (Raw: ${rawStr})`;
-                    }
-                } catch (e) {
-                    errMsg = errText || errMsg;
-                }
-                throw new Error(`${customModel.provider} Error: ${errMsg}`);
-            }
-
-            const data = await res.json();
-            let resultText = "";
-            
-            if (customModel.provider === 'Anthropic') {
-                resultText = data.content?.[0]?.text || "";
-            } else if (customModel.provider === 'Google') {
-                resultText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-            } else {
-                resultText = data.choices?.[0]?.message?.content || "";
-            }
-
-            if (!resultText) {
-                throw new Error("Received empty response from the model.");
-            }
-
-            let cleanedText = resultText.trim();
-            const firstBrace = cleanedText.indexOf('{');
-            const lastBrace = cleanedText.lastIndexOf('}');
-            if (firstBrace !== -1 && lastBrace !== -1 && lastBrace >= firstBrace) {
-                cleanedText = cleanedText.substring(firstBrace, lastBrace + 1);
-            }
-
-            let parsed;
-            try {
-                parsed = JSON.parse(cleanedText);
-            } catch (e) {
-                console.error("JSON Parse Error:", resultText);
-                // If the model refused to output JSON, show the raw conversational output to the user
-                const peek = resultText.length > 200 ? resultText.substring(0, 200) + "..." : resultText;
-                
-                if (peek.toLowerCase().includes("please provide") || peek.toLowerCase().includes("i need") || peek.toLowerCase().includes("idea")) {
-                     throw new Error(`The AI requested more information: "${peek.replace(/```json/g, '').trim()}"\n\nPlease check your input and try again.`);
-                }
-                
-                throw new Error(`Model returned invalid data format instead of JSON: "${peek.trim()}"`);
-            }
-
-            // Unpack if the model nested the response under a single root key (like {"report": {...}})
-            let dataObj = parsed;
-            if (parsed && !parsed.summaryVerdict && !parsed.oneLineTakeaway) {
-                const keys = Object.keys(parsed);
-                if (keys.length === 1 && typeof parsed[keys[0]] === 'object' && parsed[keys[0]] !== null) {
-                    dataObj = parsed[keys[0]];
-                }
-            }
-
-            // Case-insensitive key lookup helper to handle hallucinations
-            const getField = (obj: any, keys: string[], defaultVal: any) => {
-                if (!obj || typeof obj !== 'object') return defaultVal;
-                const foundKey = Object.keys(obj).find(k => keys.includes(k.toLowerCase()));
-                const val = foundKey ? obj[foundKey] : undefined;
-                
-                if (val !== undefined && val !== null && val !== "") {
-                    // Enforce array type if defaultVal is an array
-                    if (Array.isArray(defaultVal)) {
-                        return Array.isArray(val) ? val : [String(val)];
-                    }
-                    return val;
-                }
-                return defaultVal;
-            };
-
-            const summaryVerdictRaw = String(getField(dataObj, ['summaryverdict', 'verdict', 'summary'], 'Unknown'));
-            const normalizedVerdict = ["Promising", "Risky", "Needs Refinement"].includes(summaryVerdictRaw) ? summaryVerdictRaw : "Unknown";
-
-            const safeParsed = {
-                summaryVerdict: normalizedVerdict as any,
-                oneLineTakeaway: getField(dataObj, ['onelinetakeaway', 'takeaway', 'headline'], "Analysis completed successfully, but missing takeaway."),
-                marketReality: getField(dataObj, ['marketreality', 'market', 'reality', 'analysis'], "Market analysis was generated but could not be parsed."),
-                pros: getField(dataObj, ['pros', 'strengths', 'advantages'], ["Identified strengths from the idea."]),
-                cons: getField(dataObj, ['cons', 'risks', 'weaknesses'], ["Identified potential risks."]),
-                competitors: getField(dataObj, ['competitors', 'competition'], []),
-                monetizationStrategies: getField(dataObj, ['monetizationstrategies', 'monetization', 'revenue', 'businessmodel'], []),
-                whyPeoplePay: getField(dataObj, ['whypeoplepay', 'valueproposition', 'value'], "Value proposition identified."),
-                viabilityScore: parseInt(getField(dataObj, ['viabilityscore', 'score', 'viability'], 50)) || 50,
-                nextSteps: getField(dataObj, ['nextsteps', 'steps', 'actionplan'], ["Review the detailed analysis above."])
-            };
-
-            return {
-                ...safeParsed,
-                id: crypto.randomUUID(),
-                createdAt: Date.now(),
-                originalIdea: idea || "Attachment Analysis"
-            };
-
-        } catch (err: any) {
-            console.error("Custom Provider Error:", err);
-            if (err.name === 'AbortError') {
-                throw new Error(`Request to ${customModel.provider} timed out. The model took too long to respond.`);
-            }
-            throw new Error(err.message || `Analysis failed using custom provider ${customModel.provider}. Check your API key and network.`);
-        }
-    }
-
-    // ----------------------------------------------------------------------
-    // DEFAULT BACKEND LOGIC
-    // ----------------------------------------------------------------------
+  // All model calls (including custom provider keys) are routed through the backend provider layer.
+  // With `onProgress`, the backend streams each report stage as soon as the model has written it.
+  // `options` selects ensemble mode (several models merged) or stability mode (several samples).
+  // Aborting `signal` closes the connection; the server stops the run if none of the report has been sent yet
+  analyzeIdea: async (idea: string, attachments: Attachment[] = [], email?: string, customModel?: CustomModelConfig, onProgress?: (progress: AnalysisProgress) => void, options: AnalysisOptions = {}, signal?: AbortSignal): Promise<ValidationReport> => {
     try {
       const res = await fetch(`${API_URL}/analyze`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ idea, attachment, email }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(onProgress && { 'Accept': 'text/event-stream' })
+        },
+        body: JSON.stringify({ idea, attachments, email, customModel, ...options }),
+        signal
       });
       if (!res.ok) {
           const err = await res.json().catch(() => ({}));
           throw new Error(err.error || 'Analysis failed');
       }
-      return await res.json();
+      if (!onProgress || !res.headers.get('Content-Type')?.includes('text/event-stream')) {
+          return await res.json();
+      }
+
+      for await (const { event, data } of readEventStream(res)) {
+          if (event === 'progress') onProgress(data);
+          if (event === 'report') return data;
+          if (event === 'error') throw new Error(data.error || 'Analysis failed');
+      }
+      throw new Error('Analysis stream ended unexpectedly.');
     } catch (error: any) {
-      // Silent Fallback 1: Return mock data if no API Key is available
-      if (!process.env.API_KEY) {
+      if (error.name === 'AbortError') throw error;
+      // Silent Fallback: Return mock data if no API Key is available
+      if (!customModel && !options.ensembleModels?.length && !process.env.API_KEY) {
           return {
              ...MOCK_REPORT,
              id: crypto.randomUUID(),
+             ideaId: options.ideaId || crypto.randomUUID(),
              createdAt: Date.now(),
              originalIdea: idea
           };
       }
-
-      // Silent Fallback 2: Direct Client-Side Gemini Call
-      try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-          const systemPrompt = `You are an expert startup advisor and product manager. Your goal is to provide honest, clear, and encouraging feedback to founders. Do not use hype. Do not use investor jargon. Be direct but kind. Analyze the user's startup idea. Return a structured validation report in JSON.`;
-          
-          const parts: any[] = [];
-          if (attachment) {
-              parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
-          }
-          if (idea) {
-              parts.push({ text: idea });
-          } else if (attachment) {
-              parts.push({ text: "Please analyze this file." });
-          }
-
-          const response = await ai.models.generateContent({
-              model: 'gemini-2.5-flash',
-              contents: { parts },
-              config: {
-                  systemInstruction: systemPrompt,
-                  responseMimeType: "application/json",
-                  responseSchema: {
-                      type: Type.OBJECT,
-                      properties: {
-                          summaryVerdict: { type: Type.STRING, description: "Promising, Risky, or Needs Refinement" },
-                          oneLineTakeaway: { type: Type.STRING },
-                          marketReality: { type: Type.STRING },
-                          pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-                          cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-                          competitors: {
-                              type: Type.ARRAY,
-                              items: {
-                                  type: Type.OBJECT,
-                                  properties: {
-                                      name: { type: Type.STRING },
-                                      differentiation: { type: Type.STRING }
-                                  }
-                              }
-                          },
-                          monetizationStrategies: { type: Type.ARRAY, items: { type: Type.STRING } },
-                          whyPeoplePay: { type: Type.STRING },
-                          viabilityScore: { type: Type.INTEGER },
-                          nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
-                      }
-                  }
-              }
-          });
-          
-          const result = JSON.parse(response.text || '{}');
-          return {
-              ...result,
-              id: crypto.randomUUID(),
-              createdAt: Date.now(),
-              originalIdea: idea,
-              summaryVerdict: ["Promising", "Risky", "Needs Refinement"].includes(result.summaryVerdict) ? result.summaryVerdict : "Unknown"
-          };
-      } catch (aiError) {
-          throw new Error("Analysis failed. Please check your network or backend server.");
-      }
+      throw new Error(error.message || "Analysis failed. Please check your network or backend server.");
     }
   },
 
-  chat: async (message: string, context: any, customModel?: CustomModelConfig): Promise<string> => {
-    // Custom Model Chat Override
-    if (customModel && customModel.apiKey) {
-        const systemPrompt = `Context: You are discussing a startup idea.\nIdea: ${context.originalIdea}\nReport Summary: ${JSON.stringify(context.report)}\nRole: Helpful Co-founder.`;
-        try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 90000);
-
-            let endpoint = '';
-            let headers: any = { 'Content-Type': 'application/json' };
-            let payload: any = {};
-
-            if (customModel.provider === 'OpenAI') {
-                endpoint = 'https://api.openai.com/v1/chat/completions';
-                headers['Authorization'] = `Bearer ${customModel.apiKey}`;
-                payload = {
-                    model: customModel.model,
-                    messages: [{ role: "system", content: systemPrompt }, { role: "user", content: message }]
-                };
-            } else if (customModel.provider === 'Anthropic') {
-                endpoint = 'https://api.anthropic.com/v1/messages';
-                headers['x-api-key'] = customModel.apiKey;
-                headers['anthropic-version'] = '2023-06-01';
-                headers['anthropic-dangerously-allow-browser'] = 'true';
-                payload = {
-                    model: customModel.model,
-                    max_tokens: 1000,
-                    system: systemPrompt,
-                    messages: [{ role: "user", content: message }]
-                };
-            } else if (customModel.provider === 'Google') {
-                endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${customModel.model}:generateContent?key=${customModel.apiKey}`;
-                payload = {
-                    systemInstruction: { parts: [{ text: systemPrompt }] },
-                    contents: [{ parts: [{ text: message }] }]
-                };
-            } else if (customModel.provider === 'OpenRouter') {
-                endpoint = 'https://openrouter.ai/api/v1/chat/completions';
-                headers['Authorization'] = `Bearer ${customModel.apiKey}`;
-                headers['HTTP-Referer'] = typeof window !== 'undefined' ? window.location.origin : 'https://zauriscore.com';
-                headers['X-Title'] = 'ZauriScore';
-                payload = {
-                    model: customModel.model,
-                    messages: [
-                        { role: "user", content: `${systemPrompt}\n\n---\n\nUser: ${message}` }
-                    ]
-                };
-            }
-
-            const res = await fetch(endpoint, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(payload),
-                signal: controller.signal
-            });
-            
-            clearTimeout(timeoutId);
-
-            if (!res.ok) {
-                const errText = await res.text();
-                let errMsg = res.statusText;
-                try {
-                    const err = JSON.parse(errText);
-                    errMsg = err.error?.message || errMsg;
-                    const raw = err.error?.metadata?.raw;
-                    if (raw) errMsg += ` (Raw: ${typeof raw === 'object' ? JSON.stringify(raw) : raw})`;
-                } catch (e) {
-                    errMsg = errText || errMsg;
-                }
-                throw new Error(`${customModel.provider} Error: ${errMsg}`);
-            }
-
-            const data = await res.json();
-            
-            if (customModel.provider === 'Anthropic') {
-                return data.content?.[0]?.text || "";
-            } else if (customModel.provider === 'Google') {
-                return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-            } else {
-                return data.choices?.[0]?.message?.content || "";
-            }
-        } catch (err: any) {
-            console.error("Custom Provider Chat Error", err);
-            if (err.name === 'AbortError') {
-                return `Error: Request to ${customModel.provider} timed out.`;
-            }
-            return `Error communicating with ${customModel.provider}: ${err.message}`;
-        }
-    }
-
+  chat: async (message: string, context: any, customModel?: CustomModelConfig, history: ChatTurn[] = [], memory: ChatMemory | null = null): Promise<string> => {
     try {
         const res = await fetch(`${API_URL}/chat`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ message, context }),
+            body: JSON.stringify({ message, context, customModel, history, memory }),
         });
-        if (!res.ok) throw new Error('Chat failed');
+        if (!res.ok) {
+            const err = await res.json().catch(() => ({}));
+            throw new Error(err.error || 'Chat failed');
+        }
         const data = await res.json();
         return data.text;
-    } catch (error) {
-        // Silent fallback
-        if (!process.env.API_KEY) {
-            return "Sorry, I am offline and cannot chat right now.";
+    } catch (error: any) {
+        if (customModel) {
+            return `Error communicating with ${customModel.provider}: ${error.message}`;
         }
-        
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const chatSession = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction: `Context: You are discussing a startup idea.\nIdea: ${context.originalIdea}\nReport Summary: ${JSON.stringify(context.report)}\nRole: Helpful Co-founder.`
-            }
+        // Silent fallback
+        return "Sorry, I am offline and cannot chat right now.";
+    }
+  },
+
+  // Yields the reply as it is generated, plus a memory chunk when the backend re-summarizes older turns.
+  // Aborting `signal` closes the connection, which stops generation server-side.
+  chatStream: async function* (message: string, context: any, customModel?: CustomModelConfig, conversation: ChatConversation = {}, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    let res: Response;
+    try {
+        res = await fetch(`${API_URL}/chat/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ message, context, customModel, ...conversation }),
+            signal
         });
-        const response = await chatSession.sendMessage({ message });
-        return response.text || "No response";
+    } catch (error: any) {
+        if (error.name === 'AbortError') return;
+        // Silent fallback
+        yield {
+            text: customModel
+                ? `Error communicating with ${customModel.provider}: ${error.message}`
+                : "Sorry, I am offline and cannot chat right now."
+        };
+        return;
+    }
+
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || 'Chat failed');
+    }
+
+    try {
+        for await (const { event, data } of readEventStream(res)) {
+            if (event === 'token') yield { text: data.text };
+            if (event === 'memory') yield { memory: data };
+            if (event === 'error') throw new Error(data.error || 'Chat failed');
+        }
+    } catch (error: any) {
+        if (error.name === 'AbortError') return;
+        throw error;
+    }
+  },
+
+  // With `email` the backend also saves the translated copy on the stored report
+  translateReport: async (report: ValidationReport, language: string, email?: string, customModel?: CustomModelConfig): Promise<ReportTranslation> => {
+    const res = await fetch(`${API_URL}/reports/${report.id}/translations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ language, email, customModel, report }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Translation failed');
     }
+    return await res.json();
+  },
+
+  // Returns the saved section, stamped with when it was edited
+  updateReportSection: async <S extends EditableSection>(reportId: string, email: string, section: S, value: NonNullable<ValidationReport[S]>): Promise<NonNullable<ValidationReport[S]>> => {
+    const res = await fetch(`${API_URL}/reports/${reportId}/sections/${section}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, value }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to save your changes');
+    }
+    return await res.json();
+  },
+
+  // --- Interview Kit ---
+  // Each call returns the whole updated kit; with `email` it is also saved with the report.
+  generateInterviewScript: async (report: ValidationReport, email?: string, customModel?: CustomModelConfig): Promise<InterviewKit> => {
+    const res = await fetch(`${API_URL}/reports/${report.id}/interview-script`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, customModel, report }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to write the interview script');
+    }
+    return await res.json();
+  },
+
+  addInterview: async (report: ValidationReport, interview: InterviewUpload, email?: string, customModel?: CustomModelConfig): Promise<InterviewKit> => {
+    const res = await fetch(`${API_URL}/reports/${report.id}/interviews`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...interview, email, customModel, report }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to analyze the interview');
+    }
+    return await res.json();
+  },
+
+  deleteInterview: async (reportId: string, interviewId: string, email: string): Promise<InterviewKit> => {
+    const res = await fetch(`${API_URL}/reports/${reportId}/interviews/${interviewId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Delete failed');
+    }
+    return await res.json();
+  },
+
+  // --- Survey ---
+  // Like the interview kit, the survey and its results are saved with the report when `email` is given.
+  generateSurvey: async (report: ValidationReport, email?: string, customModel?: CustomModelConfig): Promise<Survey> => {
+    const res = await fetch(`${API_URL}/reports/${report.id}/survey`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, customModel, report }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to write the survey');
+    }
+    return await res.json();
+  },
+
+  // Returns the survey with the results computed from `responses`
+  importSurveyResponses: async (report: ValidationReport, fileName: string, responses: SurveyResponse[], email?: string): Promise<Survey> => {
+    const res = await fetch(`${API_URL}/reports/${report.id}/survey/responses`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, fileName, responses, report }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to import the responses');
+    }
+    return await res.json();
+  },
+
+  // --- Chat Threads ---
+  // Threads are only available to the report's owner (`email`).
+  // Returns null when the report isn't saved on the backend (guests, examples), so chat stays in-memory only.
+  getChatThreads: async (reportId: string, email?: string): Promise<ChatThread[] | null> => {
+    if (!email) return null;
+    try {
+      const res = await fetch(`${API_URL}/reports/${reportId}/threads?email=${encodeURIComponent(email)}`);
+      if (!res.ok) throw new Error('Failed to fetch conversations');
+      return await res.json();
+    } catch (error) {
+      return null;
+    }
+  },
+
+  createChatThread: async (reportId: string, title: string, email: string): Promise<ChatThread> => {
+    const res = await fetch(`${API_URL}/reports/${reportId}/threads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, email }),
+    });
+    if (!res.ok) throw new Error('Failed to create conversation');
+    return await res.json();
+  },
+
+  getChatThread: async (threadId: string, email: string): Promise<{ thread: ChatThread, messages: ChatMessage[] }> => {
+    const res = await fetch(`${API_URL}/threads/${threadId}?email=${encodeURIComponent(email)}`);
+    if (!res.ok) throw new Error('Failed to load conversation');
+    return await res.json();
+  },
+
+  renameChatThread: async (threadId: string, title: string, email: string): Promise<ChatThread> => {
+    const res = await fetch(`${API_URL}/threads/${threadId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, email }),
+    });
+    if (!res.ok) throw new Error('Rename failed');
+    return await res.json();
+  },
+
+  deleteChatThread: async (threadId: string, email: string): Promise<void> => {
+    const res = await fetch(`${API_URL}/threads/${threadId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    if (!res.ok) throw new Error('Delete failed');
+  },
+
+  // --- Experiments ---
+  // Only the report's owner (`email`) can see and change its experiments
+  getExperiments: async (reportId: string, email: string): Promise<Experiment[]> => {
+    const res = await fetch(`${API_URL}/reports/${reportId}/experiments?email=${encodeURIComponent(email)}`);
+    if (!res.ok) throw new Error('Failed to fetch experiments');
+    return await res.json();
+  },
+
+  // Drafts one experiment per next step of the report
+  createExperiments: async (reportId: string, email: string, customModel?: CustomModelConfig): Promise<Experiment[]> => {
+    const res = await fetch(`${API_URL}/reports/${reportId}/experiments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, customModel }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to create experiments');
+    }
+    return await res.json();
+  },
+
+  updateExperiment: async (experimentId: string, update: ExperimentUpdate, email: string): Promise<Experiment> => {
+    const res = await fetch(`${API_URL}/experiments/${experimentId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...update, email }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Update failed');
+    }
+    return await res.json();
+  },
+
+  addEvidence: async (experimentId: string, evidence: { kind: EvidenceKind; text?: string; value?: number; attachment?: Attachment }, email: string): Promise<Evidence> => {
+    const res = await fetch(`${API_URL}/experiments/${experimentId}/evidence`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...evidence, email }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to add evidence');
+    }
+    return await res.json();
+  },
+
+  deleteEvidence: async (evidenceId: string, email: string): Promise<void> => {
+    const res = await fetch(`${API_URL}/evidence/${evidenceId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    if (!res.ok) throw new Error('Delete failed');
   },
 
   // --- Auth & User ---
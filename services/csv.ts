@@ -0,0 +1,69 @@
+// Quotes a cell when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+// Exports from European spreadsheet settings use semicolons and some tools use tabs; the header row decides
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return [',', ';', '\t'].reduce((best, delimiter) => header.split(delimiter).length > header.split(best).length ? delimiter : best, ',');
+};
+
+// Reads RFC 4180 CSV, including quoted cells with delimiters, quotes and line breaks. Blank lines are skipped.
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim())) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The byte order mark makes Excel read the file as UTF-8
+export const downloadCsv = (filename: string, rows: (string | number)[][]) =>
+  downloadBlob(filename, new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
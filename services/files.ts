@@ -0,0 +1,28 @@
+import { Attachment } from "../types";
+
+// Some browsers leave File.type empty for these; the server picks the text extractor by MIME type
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  // Call transcripts as exported by meeting tools
+  vtt: 'text/vtt',
+  srt: 'text/plain'
+};
+
+export type SelectedFile = Attachment & { size: number };
+
+export const readFile = (file: File) => new Promise<SelectedFile>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve({
+    name: file.name,
+    mimeType: file.type || MIME_TYPES_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream',
+    data: (reader.result as string).split(',')[1],
+    size: file.size
+  });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
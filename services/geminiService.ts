@@ -1,34 +1,51 @@
-import { ValidationReport, CustomModelConfig } from "../types";
+import { ValidationReport, CustomModelConfig, ChatTurn, ChatMemory, AnalysisProgress, AnalysisOptions, Attachment } from "../types";
 import { api } from "./api";
 
 // This file formerly called Google API directly.
-// Now it forwards requests to our secure backend (api.ts) or routes custom models.
+// Now it forwards requests to our secure backend (api.ts), which also routes custom models.
 
-export const validateIdea = async (idea: string, attachment?: { mimeType: string; data: string }, email?: string, customModel?: CustomModelConfig): Promise<ValidationReport> => {
-  return await api.analyzeIdea(idea, attachment, email, customModel);
+export const validateIdea = async (idea: string, attachments: Attachment[] = [], email?: string, customModel?: CustomModelConfig, onProgress?: (progress: AnalysisProgress) => void, options?: AnalysisOptions, signal?: AbortSignal): Promise<ValidationReport> => {
+  return await api.analyzeIdea(idea, attachments, email, customModel, onProgress, options, signal);
 };
 
-export const initializeChat = (report: ValidationReport, originalIdea: string, customModel?: CustomModelConfig) => {
+// `language` is the user's preferred report language, which replies are written in too.
+// Saved threads are opened as their owner, `email`.
+export const initializeChat = (report: ValidationReport, originalIdea: string, customModel?: CustomModelConfig, threadId?: string, language?: string, email?: string) => {
   // We return a simple object that mimics the GoogleGenAI chat interface
-  // but calls our backend API or custom client API instead.
-  
+  // but streams from our backend SSE endpoint instead.
+  // Saved threads keep their history on the backend; otherwise the session remembers completed turns
+  // so every request carries the conversation so far.
+  const history: ChatTurn[] = [];
+  let memory: ChatMemory | null = null;
+
   return {
-      sendMessageStream: async ({ message }: { message: string }) => {
-          // Note: Full streaming isn't implemented in the backend example for simplicity.
-          // We will simulate a stream with a single response chunk.
-          // For production, you'd use Server-Sent Events (SSE) or WebSockets.
-          
-          const responseText = await api.chat(message, { 
+      sendMessageStream: async ({ message, signal }: { message: string; signal?: AbortSignal }) => {
+          const chunks = api.chatStream(message, { 
               report, 
-              originalIdea 
-          }, customModel);
+              originalIdea,
+              language
+          }, customModel, threadId ? { threadId, email } : { history: [...history], memory }, signal);
 
-          // Mimic the stream generator
           async function* generator() {
-              yield { text: responseText };
+              let reply = '';
+              try {
+                  for await (const chunk of chunks) {
+                      if ('memory' in chunk) {
+                          memory = chunk.memory;
+                          continue;
+                      }
+                      reply += chunk.text;
+                      yield { text: chunk.text };
+                  }
+              } finally {
+                  // Stopped replies are remembered as far as they got; failed turns are dropped entirely
+                  if (reply) {
+                      history.push({ role: 'user', text: message }, { role: 'assistant', text: reply });
+                  }
+              }
           }
           
           return generator();
       }
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,28 @@
+import { MarketSizing, SizingApproach } from "../types";
+
+export interface MarketSize {
+  tam: number; // Total addressable market, per year
+  sam: number; // Serviceable addressable market
+  som: number; // Serviceable obtainable market
+}
+
+const share = (amount: number, percent: number) => amount * percent / 100;
+
+export const computeMarketSizing = ({ bottomUp, topDown }: MarketSizing): Record<SizingApproach, MarketSize> => {
+  const bottomUpTam = bottomUp.customers.value * bottomUp.annualPrice.value;
+  const bottomUpSam = share(bottomUpTam, bottomUp.servableShare.value);
+  const topDownSam = share(topDown.industrySpend.value, topDown.segmentShare.value);
+  return {
+    bottomUp: { tam: bottomUpTam, sam: bottomUpSam, som: share(bottomUpSam, bottomUp.penetrationRate.value) },
+    topDown: { tam: topDown.industrySpend.value, sam: topDownSam, som: share(topDownSam, topDown.marketShare.value) }
+  };
+};
+
+// e.g. $4.2B; falls back to the plain code when the browser doesn't know the currency
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount);
+  } catch {
+    return `${currency} ${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(amount)}`;
+  }
+};
@@ -0,0 +1,43 @@
+import { Competitor } from "../types";
+
+export type DiffStatus = 'added' | 'removed' | 'unchanged';
+
+export interface DiffItem {
+  text: string;
+  status: DiffStatus;
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'their', 'into', 'have', 'will', 'are', 'can', 'more', 'than']);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+// Reworded items count as the same point when most of their keywords overlap
+const isSamePoint = (a: string, b: string) => {
+  if (a.trim().toLowerCase() === b.trim().toLowerCase()) return true;
+  const wordsA = keywords(a);
+  const wordsB = keywords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.min(wordsA.size, wordsB.size) >= 0.6;
+};
+
+// Items of `current` marked as added or unchanged relative to `previous`, followed by the removed ones.
+// Without a previous report everything is the baseline.
+export const diffLists = (previous: string[] | undefined, current: string[], matches: (a: string, b: string) => boolean = isSamePoint): DiffItem[] => {
+  if (!previous) return current.map(text => ({ text, status: 'unchanged' }));
+
+  const items: DiffItem[] = current.map(text => ({
+    text,
+    status: previous.some(p => matches(p, text)) ? 'unchanged' : 'added'
+  }));
+  previous.forEach(text => {
+    if (!current.some(c => matches(text, c))) items.push({ text, status: 'removed' });
+  });
+  return items;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const diffCompetitors = (previous: Competitor[] | undefined, current: Competitor[]): DiffItem[] =>
+  diffLists(previous?.map(c => c.name), current.map(c => c.name), (a, b) => normalizeName(a) === normalizeName(b));
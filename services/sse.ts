@@ -0,0 +1,34 @@
+export interface ServerEvent {
+  event: string;
+  data: any;
+}
+
+// Parses a `text/event-stream` fetch response. EventSource can't be used because our streams are POST requests.
+export async function* readEventStream(res: Response): AsyncGenerator<ServerEvent> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      let data = '';
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.substring(6).trim();
+        else if (line.startsWith('data:')) data += line.substring(5).trim();
+      });
+      if (!data) continue;
+
+      yield { event, data: JSON.parse(data) };
+    }
+  }
+}
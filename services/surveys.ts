@@ -0,0 +1,52 @@
+import { SCALE_POINTS, Survey, SurveyQuestion, SurveyResponse } from "../types";
+
+// Question ids → index of the CSV column holding their answers
+export type ColumnMatches = Record<string, number>;
+
+// Below this word overlap a header is not taken to be the question
+const MIN_MATCH_SCORE = 0.5;
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Survey tools use the question text as the column header, sometimes numbered, shortened or with the
+// options appended, so headers are compared by the words they share
+const matchScore = (question: string, header: string) => {
+  const questionWords = new Set(words(question));
+  const headerWords = new Set(words(header));
+  if (questionWords.size === 0 || headerWords.size === 0) return 0;
+  const shared = [...questionWords].filter(word => headerWords.has(word)).length;
+  return shared / Math.min(questionWords.size, headerWords.size) * (shared / Math.max(questionWords.size, headerWords.size)) ** 0.25;
+};
+
+// Best matches first; each column answers at most one question
+export const matchColumns = (questions: SurveyQuestion[], headers: string[]): ColumnMatches => {
+  const candidates = questions.flatMap(question => headers.map((header, column) => ({ questionId: question.id, column, score: matchScore(question.text, header) })))
+    .filter(candidate => candidate.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const matches: ColumnMatches = {};
+  const usedColumns = new Set<number>();
+  candidates.forEach(({ questionId, column }) => {
+    if (questionId in matches || usedColumns.has(column)) return;
+    matches[questionId] = column;
+    usedColumns.add(column);
+  });
+  return matches;
+};
+
+export const toSurveyResponses = (rows: string[][], matches: ColumnMatches): SurveyResponse[] =>
+  rows.map(row => Object.fromEntries(Object.entries(matches).map(([questionId, column]) => [questionId, row[column] ?? ''])));
+
+const describeAnswer = (question: SurveyQuestion, currency: string) =>
+  question.type === 'single' ? question.options!.map(option => `  ( ) ${option}`).join('\n')
+    : question.type === 'multiple' ? question.options!.map(option => `  [ ] ${option}`).join('\n')
+    : question.type === 'scale' ? `  1 (${question.scaleLabels?.[0]}) to ${SCALE_POINTS} (${question.scaleLabels?.[1]})`
+    : question.type === 'price' ? `  Amount in ${currency}`
+    : '  Free text';
+
+// The survey as plain text, to recreate in a survey tool
+export const formatSurvey = (survey: Survey) => [
+  survey.title,
+  survey.intro,
+  ...survey.questions.map((question, i) => `${i + 1}. ${question.text}\n${describeAnswer(question, survey.currency)}`)
+].join('\n\n');
@@ -0,0 +1,50 @@
+import { UnitEconomics, PROJECTION_MONTHS } from "../types";
+
+export interface UnitEconomicsMetrics {
+  grossProfitPerMonth: number; // Per customer
+  ltv: number | null; // Null without churn, when a customer's lifetime is unbounded
+  ltvToCac: number | null;
+  paybackMonths: number | null; // Null when a customer never pays back their acquisition cost
+}
+
+export interface ProjectionMonth {
+  month: number; // 1-based
+  newCustomers: number;
+  customers: number; // Paying at the end of the month
+  revenue: number;
+  grossProfit: number;
+  acquisitionSpend: number;
+  fixedCosts: number;
+  netCashFlow: number;
+  cumulativeCash: number;
+}
+
+export const computeUnitEconomicsMetrics = ({ inputs }: UnitEconomics): UnitEconomicsMetrics => {
+  const grossProfitPerMonth = inputs.monthlyPrice.value * inputs.grossMargin.value / 100;
+  const ltv = inputs.monthlyChurn.value > 0 ? grossProfitPerMonth / (inputs.monthlyChurn.value / 100) : null;
+  return {
+    grossProfitPerMonth,
+    ltv,
+    ltvToCac: ltv !== null && inputs.cac.value > 0 ? ltv / inputs.cac.value : null,
+    paybackMonths: grossProfitPerMonth > 0 ? inputs.cac.value / grossProfitPerMonth : null
+  };
+};
+
+// Month by month: churn applies to the customers carried over, new customers grow at a fixed monthly rate.
+// Customer counts stay fractional so small inputs still show a trend; they are rounded for display.
+export const projectUnitEconomics = ({ inputs }: UnitEconomics): ProjectionMonth[] => {
+  const months: ProjectionMonth[] = [];
+  let customers = 0;
+  let cumulativeCash = 0;
+  for (let month = 1; month <= PROJECTION_MONTHS; month++) {
+    const newCustomers = inputs.newCustomers.value * Math.pow(1 + inputs.acquisitionGrowth.value / 100, month - 1);
+    customers = customers * (1 - inputs.monthlyChurn.value / 100) + newCustomers;
+    const revenue = customers * inputs.monthlyPrice.value;
+    const grossProfit = revenue * inputs.grossMargin.value / 100;
+    const acquisitionSpend = newCustomers * inputs.cac.value;
+    const netCashFlow = grossProfit - acquisitionSpend - inputs.fixedCosts.value;
+    cumulativeCash += netCashFlow;
+    months.push({ month, newCustomers, customers, revenue, grossProfit, acquisitionSpend, fixedCosts: inputs.fixedCosts.value, netCashFlow, cumulativeCash });
+  }
+  return months;
+};
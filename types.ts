@@ -1,10 +1,13 @@
-export type ViewState = 'landing' | 'input' | 'loading' | 'report' | 'error' | 'history' | 'pricing' | 'settings' | 'auth' | 'dashboard' | 'help' | 'purchase_success' | 'chat' | 'marketing';
+export type ViewState = 'landing' | 'input' | 'loading' | 'report' | 'error' | 'history' | 'pricing' | 'settings' | 'auth' | 'dashboard' | 'help' | 'purchase_success' | 'chat' | 'marketing' | 'project' | 'compare';
 
 export interface CustomModelConfig {
   id: string;
   provider: string;
   model: string;
   apiKey: string;
+  baseUrl?: string; // Only for OpenAI-compatible servers (Ollama, llama.cpp, vLLM...)
+  headers?: Record<string, string>;
+  documentTokenBudget?: number; // Lowers the provider's default budget for attached document text
 }
 
 export interface UserProfile {
@@ -20,18 +23,503 @@ export interface UserProfile {
     marketingEmails: boolean;
     theme: 'light' | 'dark';
     customModels?: CustomModelConfig[];
+    reportLanguage?: string; // REPORT_LANGUAGES code new reports and chat replies are written in (English when unset)
   };
 }
 
+// Languages reports can be written in or translated to, by ISO 639-1 code
+export const REPORT_LANGUAGES: { code: string; label: string; nativeName: string }[] = [
+  { code: 'en', label: 'English', nativeName: 'English' },
+  { code: 'es', label: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', label: 'French', nativeName: 'Français' },
+  { code: 'de', label: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', label: 'Portuguese', nativeName: 'Português' },
+  { code: 'it', label: 'Italian', nativeName: 'Italiano' },
+  { code: 'nl', label: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', label: 'Polish', nativeName: 'Polski' },
+  { code: 'tr', label: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'ar', label: 'Arabic', nativeName: 'العربية' },
+  { code: 'hi', label: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'sw', label: 'Swahili', nativeName: 'Kiswahili' },
+  { code: 'zh', label: 'Chinese (Simplified)', nativeName: '简体中文' },
+  { code: 'ja', label: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', label: 'Korean', nativeName: '한국어' }
+];
+
+export const getReportLanguage = (code?: string) => REPORT_LANGUAGES.find(l => l.code === code);
+
 export interface Competitor {
   name: string;
   differentiation: string;
 }
 
-export interface ValidationReport {
+// A number a calculated section (market sizing, unit economics) is built from, with where it comes from
+export interface Assumption {
+  value: number; // Percentages are 0-100
+  source: string; // A report or statistic, or "Estimate: ..." with the reasoning
+}
+
+export interface MarketSizing {
+  currency: string; // ISO 4217 code, e.g. USD
+  // Customers × price, narrowed to the servable share and the share realistically won
+  bottomUp: {
+    customers: Assumption;
+    annualPrice: Assumption;
+    servableShare: Assumption;
+    penetrationRate: Assumption;
+  };
+  // Industry spend, narrowed to the product's segment and the share realistically won
+  topDown: {
+    industrySpend: Assumption;
+    segmentShare: Assumption;
+    marketShare: Assumption;
+  };
+  editedAt?: number; // Set once the founder has changed the assumptions
+}
+
+export type SizingApproach = 'bottomUp' | 'topDown';
+
+export type AssumptionUnit = 'count' | 'currency' | 'percent';
+
+export type AssumptionInfo<K extends string> = { key: K; label: string; unit: AssumptionUnit; description: string };
+
+type SizingAssumptionInfo<A extends SizingApproach> = AssumptionInfo<keyof MarketSizing[A] & string>;
+
+// The assumptions of each approach, in calculation order; the descriptions also instruct the model
+export const MARKET_SIZING_ASSUMPTIONS: { [A in SizingApproach]: SizingAssumptionInfo<A>[] } = {
+  bottomUp: [
+    { key: 'customers', label: 'Potential customers', unit: 'count', description: 'people or businesses with the problem in the markets the idea could ever serve' },
+    { key: 'annualPrice', label: 'Price per customer / year', unit: 'currency', description: 'what one customer would pay per year' },
+    { key: 'servableShare', label: 'Servable share', unit: 'percent', description: 'share of those customers the product can serve with its planned regions, segment and channels' },
+    { key: 'penetrationRate', label: 'Penetration rate', unit: 'percent', description: 'share of servable customers realistically won within 3-5 years' }
+  ],
+  topDown: [
+    { key: 'industrySpend', label: 'Industry spend / year', unit: 'currency', description: 'annual spend in the wider industry category the idea belongs to' },
+    { key: 'segmentShare', label: 'Segment share', unit: 'percent', description: 'share of that spend in the segment the product addresses' },
+    { key: 'marketShare', label: 'Market share', unit: 'percent', description: 'share of the segment realistically captured within 3-5 years' }
+  ]
+};
+
+// The economics of one customer under the chosen monetization strategy, and the growth the projection assumes
+export interface UnitEconomics {
+  currency: string; // ISO 4217 code, e.g. USD
+  strategy: string; // The monetization strategy modelled
+  inputs: {
+    monthlyPrice: Assumption;
+    grossMargin: Assumption;
+    monthlyChurn: Assumption;
+    cac: Assumption;
+    newCustomers: Assumption;
+    acquisitionGrowth: Assumption;
+    fixedCosts: Assumption;
+  };
+  editedAt?: number; // Set once the founder has changed the inputs
+}
+
+export const PROJECTION_MONTHS = 24;
+
+// The inputs in display order; the descriptions also instruct the model
+export const UNIT_ECONOMICS_INPUTS: AssumptionInfo<keyof UnitEconomics['inputs']>[] = [
+  { key: 'monthlyPrice', label: 'Revenue per customer / month', unit: 'currency', description: 'average monthly revenue from one paying customer' },
+  { key: 'grossMargin', label: 'Gross margin', unit: 'percent', description: 'share of revenue left after the cost of serving the customer (hosting, payment fees, support, cost of goods)' },
+  { key: 'monthlyChurn', label: 'Monthly churn', unit: 'percent', description: 'share of paying customers lost each month' },
+  { key: 'cac', label: 'Customer acquisition cost', unit: 'currency', description: 'sales and marketing spend to win one paying customer' },
+  { key: 'newCustomers', label: 'New customers in month 1', unit: 'count', description: 'paying customers won in the first month after launch' },
+  { key: 'acquisitionGrowth', label: 'Monthly growth in new customers', unit: 'percent', description: 'how much the number of new customers won grows each month' },
+  { key: 'fixedCosts', label: 'Fixed costs / month', unit: 'currency', description: 'monthly operating costs that do not scale with customers (salaries, tools, rent)' }
+];
+
+// Report sections founders can edit after the analysis; edits are saved back to the report
+export type EditableSection = 'marketSizing' | 'unitEconomics';
+
+// One row of the competitor deep-dive
+export interface CompetitorProfile {
+  name: string;
+  targetSegment: string;
+  pricingModel: string;
+  keyFeatures: string[];
+  strengths: string[];
+  weaknesses: string[];
+  positioning: string;
+}
+
+export type FeatureSupport = 'yes' | 'partial' | 'no';
+
+export interface FeatureComparison {
+  feature: string;
+  idea: FeatureSupport; // The founder's planned product
+  competitors: FeatureSupport[]; // In CompetitorMatrix.competitors order
+}
+
+export interface CompetitorMatrix {
+  competitors: CompetitorProfile[];
+  features: FeatureComparison[];
+}
+
+// A customer interview script that probes the report's risks and assumptions
+export interface InterviewScript {
+  createdAt: number;
+  audience: string; // Who to interview and how to screen them
+  opening: string; // What to say before the first question
+  sections: {
+    topic: string;
+    assumption: string; // The con or assumption of the report this section tests
+    questions: { question: string; followUps: string[] }[];
+  }[];
+  closing: string;
+}
+
+export type InterviewStance = 'supports' | 'contradicts';
+
+// What one interview's notes or transcript say, extracted by the model
+export interface InterviewInsights {
+  id: string;
+  interviewee: string; // A label such as "Agency owner, 12 staff"
+  createdAt: number;
+  sourceName?: string; // The uploaded file, when the notes came from one
+  painPoints: { pain: string; severity: RiskLevel }[];
+  willingnessToPay: {
+    signal: 'strong' | 'weak' | 'none';
+    summary: string;
+    amount?: string; // A price or budget the interviewee named
+  };
+  quotes: string[]; // Verbatim
+  findings: { claim: string; stance: InterviewStance; evidence: string }[]; // How the interview bears on the report's claims
+}
+
+export interface InterviewKit {
+  script?: InterviewScript;
+  interviews: InterviewInsights[];
+}
+
+// One interview to analyze: pasted notes or an uploaded transcript
+export interface InterviewUpload {
+  interviewee?: string; // Overrides the label the model picks
+  notes?: string;
+  attachment?: Attachment;
+}
+
+export type SurveyQuestionType = 'single' | 'multiple' | 'scale' | 'price' | 'text';
+export type SurveyTopic = 'screening' | 'frequency' | 'alternatives' | 'price';
+export type PriceQuestion = 'tooCheap' | 'cheap' | 'expensive' | 'tooExpensive';
+
+// The four Van Westendorp price sensitivity questions, in the order they are asked
+export const PRICE_QUESTIONS: { id: PriceQuestion; label: string; description: string }[] = [
+  { id: 'tooExpensive', label: 'Too expensive', description: 'so expensive they would not consider buying it' },
+  { id: 'expensive', label: 'Getting expensive', description: 'expensive, but they would still consider buying it' },
+  { id: 'cheap', label: 'Bargain', description: 'a bargain, a great buy for the money' },
+  { id: 'tooCheap', label: 'Too cheap', description: 'so cheap they would doubt its quality' }
+];
+
+export const SCALE_POINTS = 5;
+// Below this many consistent answers the Van Westendorp curves are too jagged to read a price range from
+export const MIN_PRICE_RANGE_RESPONSES = 10;
+
+export interface SurveyQuestion {
+  id: string; // q1, q2, ... in survey order; matched to imported columns
+  topic: SurveyTopic;
+  type: SurveyQuestionType;
+  text: string;
+  options?: string[]; // Single and multiple choice
+  scaleLabels?: [string, string]; // What 1 and SCALE_POINTS mean
+  priceQuestion?: PriceQuestion; // Price questions, answered with an amount in the survey's currency
+}
+
+// Summary of the answers to one question; only responses with a usable answer are counted
+export type SurveyQuestionStats = { questionId: string; responses: number } & (
+  | { kind: 'choice'; counts: { option: string; count: number }[] } // Single and multiple choice; unlisted answers count as "Other"
+  | { kind: 'scale'; mean: number; median: number; distribution: number[] } // distribution[i] answered i + 1
+  | { kind: 'price'; mean: number; median: number; min: number; max: number }
+  | { kind: 'text'; samples: string[] }
+);
+
+// Prices where the Van Westendorp curves cross; the acceptable range runs from marginal cheapness to marginal expensiveness
+export interface PriceRange {
+  responses: number; // Respondents who answered all four price questions consistently
+  marginalCheapness: number;
+  optimal: number;
+  indifference: number;
+  marginalExpensiveness: number;
+}
+
+export interface SurveyResults {
+  importedAt: number;
+  fileName: string;
+  respondents: number;
+  questions: SurveyQuestionStats[];
+  priceRange?: PriceRange; // Set when the price questions have enough consistent answers
+}
+
+// A demand validation survey generated from the report, with the results of the last import
+export interface Survey {
+  createdAt: number;
+  title: string;
+  intro: string;
+  currency: string; // ISO 4217 code the price questions are answered in
+  questions: SurveyQuestion[];
+  results?: SurveyResults;
+}
+
+// Imported responses: one record per respondent with the answer to each mapped question, keyed by question id
+export type SurveyResponse = Record<string, string>;
+
+// Rubric dimensions, all scored 0-100 where higher is better for the founder
+export type SubScoreDimension = 'marketSize' | 'competitionIntensity' | 'monetizationClarity' | 'technicalFeasibility' | 'timing' | 'founderFit';
+
+export interface SubScore {
+  score: number; // 0-100
+  rationale: string;
+}
+
+// The overall viabilityScore is the weighted average of the sub-scores, rounded. Weights sum to 1:
+// demand and a clear path to revenue count most, the remaining four dimensions equally.
+export const SUB_SCORE_DIMENSIONS: { id: SubScoreDimension, label: string, weight: number }[] = [
+  { id: 'marketSize', label: 'Market Size', weight: 0.2 },
+  { id: 'competitionIntensity', label: 'Competition', weight: 0.15 },
+  { id: 'monetizationClarity', label: 'Monetization Clarity', weight: 0.2 },
+  { id: 'technicalFeasibility', label: 'Technical Feasibility', weight: 0.15 },
+  { id: 'timing', label: 'Timing', weight: 0.15 },
+  { id: 'founderFit', label: 'Founder Fit', weight: 0.15 }
+];
+
+// Who the analysis is written for. Each lens reweights the rubric (weights sum to 1) and changes what the report stresses.
+export type AnalysisLens = 'general' | 'vc' | 'bootstrapper' | 'corporate' | 'grant';
+
+export const ANALYSIS_LENSES: { id: AnalysisLens; label: string; description: string; weights: Record<SubScoreDimension, number> }[] = [
+  {
+    id: 'general',
+    label: 'General',
+    description: 'Balanced feedback for any founder',
+    weights: Object.fromEntries(SUB_SCORE_DIMENSIONS.map(({ id, weight }) => [id, weight])) as Record<SubScoreDimension, number>
+  },
+  {
+    id: 'vc',
+    label: 'Venture Capital',
+    description: 'Can this become a venture-scale company?',
+    weights: { marketSize: 0.3, competitionIntensity: 0.15, monetizationClarity: 0.1, technicalFeasibility: 0.1, timing: 0.2, founderFit: 0.15 }
+  },
+  {
+    id: 'bootstrapper',
+    label: 'Bootstrapper',
+    description: 'How fast can it pay for itself?',
+    weights: { marketSize: 0.1, competitionIntensity: 0.15, monetizationClarity: 0.3, technicalFeasibility: 0.25, timing: 0.05, founderFit: 0.15 }
+  },
+  {
+    id: 'corporate',
+    label: 'Corporate Innovation',
+    description: 'Is it worth building inside an established company?',
+    weights: { marketSize: 0.2, competitionIntensity: 0.1, monetizationClarity: 0.2, technicalFeasibility: 0.2, timing: 0.1, founderFit: 0.2 }
+  },
+  {
+    id: 'grant',
+    label: 'Grant Reviewer',
+    description: 'Would a grant or public funder back it?',
+    weights: { marketSize: 0.15, competitionIntensity: 0.05, monetizationClarity: 0.15, technicalFeasibility: 0.25, timing: 0.15, founderFit: 0.25 }
+  }
+];
+
+// Reports from before lenses were analyzed with the general rubric
+export const getLens = (lens?: AnalysisLens) => ANALYSIS_LENSES.find(l => l.id === lens) || ANALYSIS_LENSES[0];
+
+// Most models an ensemble run merges; the input form and /api/analyze both enforce it
+export const MAX_ENSEMBLE_MODELS = 5;
+
+// One model's contribution to an ensemble run; `model` is "Provider - model"
+export interface EnsembleModelResult {
+  model: string;
+  viabilityScore: number;
+  summaryVerdict: ValidationReport['summaryVerdict'];
+}
+
+// A point (pro, con or competitor) and the models that raised it
+export interface EnsemblePoint {
+  text: string;
+  models: string[];
+}
+
+export interface EnsembleSummary {
+  models: EnsembleModelResult[];
+  modelIds?: string[]; // The custom models the ensemble was run with, so a rerun can use them again
+  failedModels: { model: string, error: string }[];
+  scoreSpread: { min: number, max: number, stdDev: number };
+  // Points that only some of the models raised
+  partialAgreement: {
+    pros: EnsemblePoint[];
+    cons: EnsemblePoint[];
+    competitors: EnsemblePoint[];
+  };
+}
+
+// Result of sampling the same analysis several times; shown as "mean ± margin"
+export interface StabilitySummary {
+  samples: number;
+  scores: number[]; // Each sample's viabilityScore
+  mean: number;
+  margin: number; // Half-width of the 95% confidence interval for the mean
+  unstableSections: { section: string, detail: string }[];
+}
+
+// A file attached to an analysis; `name` labels it in the prompt so the report can cite it
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  data: string; // base64
+}
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Keeps the base64-encoded request under the server's 50MB body limit
+export const MAX_TOTAL_ATTACHMENT_BYTES = 30 * 1024 * 1024;
+
+export type DocumentFormat = 'pdf' | 'docx' | 'rtf';
+
+// Text extracted server-side from an attached document, kept with the report so chat can refer to it.
+// Saved reports only carry an excerpt; the full text is stored on the backend and loaded for chat and reruns.
+export interface SourceDocument {
+  name: string;
+  format: DocumentFormat;
+  text: string; // Normalized: "[Page N]" blocks, "#" headings, "-" list items, "| a | b |" table rows
+  pageCount?: number; // PDFs only
+  excerpt?: boolean; // `text` is the start of a document stored with the saved report
+}
+
+// The sections of a standard pitch deck, in the order investors expect them
+export type DeckSection = 'problem' | 'solution' | 'market' | 'traction' | 'team' | 'ask';
+
+export const DECK_SECTIONS: { id: DeckSection; label: string; description: string }[] = [
+  { id: 'problem', label: 'Problem', description: 'Who hurts, how much, and how they cope today' },
+  { id: 'solution', label: 'Solution', description: 'What the product does and why it beats the workaround' },
+  { id: 'market', label: 'Market', description: 'Market size, segments and why now' },
+  { id: 'traction', label: 'Traction', description: 'Users, revenue, growth or validation so far' },
+  { id: 'team', label: 'Team', description: 'Who is building it and why they will win' },
+  { id: 'ask', label: 'Ask', description: 'How much is being raised and what it pays for' }
+];
+
+export interface SlideFeedback {
+  page: number;
+  section: DeckSection | 'other';
+  purpose: string; // What the slide is trying to say
+  missing: string[];
+  clarity: number; // 1-10
+  suggestedRewrite: string;
+}
+
+// Optional slide-by-slide review of a pitch deck PDF, generated alongside the report
+export interface DeckReview {
+  documentName: string;
+  summary: string;
+  slides: SlideFeedback[];
+  structure: { section: DeckSection; pages: number[] }[]; // Derived from the slides, in DECK_SECTIONS order; empty pages = missing
+}
+
+// Industries whose ideas get a vertical-specific report section
+export type IndustryVertical = 'marketplace' | 'b2bSaas' | 'hardware' | 'consumerApp' | 'fintech' | 'health';
+
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export interface MarketplaceSection {
+  liquidityRisk: RiskLevel;
+  chickenAndEgg: string; // How to get one side on board before the other exists
+  seedSide: string; // Which side to seed first and why
+  takeRate: string;
+}
+
+export interface SaasSection {
+  salesMotion: string;
+  switchingCosts: string;
+  churnRisk: RiskLevel;
+}
+
+export interface HardwareSection {
+  manufacturingRisk: RiskLevel;
+  unitCosts: string;
+  certifications: string[];
+}
+
+export interface ConsumerAppSection {
+  retentionRisk: RiskLevel;
+  retentionHooks: string;
+  growthLoops: string[];
+}
+
+// Shared by fintech and health
+export interface RegulatorySection {
+  exposure: RiskLevel;
+  regulations: string[];
+  compliancePath: string;
+}
+
+export interface VerticalSections {
+  marketplace?: MarketplaceSection;
+  saas?: SaasSection;
+  hardware?: HardwareSection;
+  consumerApp?: ConsumerAppSection;
+  regulatory?: RegulatorySection;
+}
+
+export type VerticalSectionKey = keyof VerticalSections;
+
+export const INDUSTRY_VERTICALS: { id: IndustryVertical; label: string; section: VerticalSectionKey }[] = [
+  { id: 'marketplace', label: 'Marketplace', section: 'marketplace' },
+  { id: 'b2bSaas', label: 'B2B SaaS', section: 'saas' },
+  { id: 'hardware', label: 'Hardware', section: 'hardware' },
+  { id: 'consumerApp', label: 'Consumer App', section: 'consumerApp' },
+  { id: 'fintech', label: 'Fintech', section: 'regulatory' },
+  { id: 'health', label: 'Health', section: 'regulatory' }
+];
+
+type VerticalSectionField<T> = { key: keyof T & string; label: string; type: 'text' | 'list' | 'risk'; description: string };
+
+// Fields of each vertical section, in display order; the descriptions also instruct the model
+export const VERTICAL_SECTION_FIELDS: { [K in VerticalSectionKey]-?: { title: string; fields: VerticalSectionField<NonNullable<VerticalSections[K]>>[] } } = {
+  marketplace: {
+    title: 'Marketplace Dynamics',
+    fields: [
+      { key: 'liquidityRisk', label: 'Liquidity risk', type: 'risk', description: 'how hard it is to get enough buyers and sellers transacting in one place' },
+      { key: 'chickenAndEgg', label: 'Chicken-and-egg', type: 'text', description: 'how to get one side on board before the other exists' },
+      { key: 'seedSide', label: 'Side to seed first', type: 'text', description: 'which side to seed first and why' },
+      { key: 'takeRate', label: 'Take rate', type: 'text', description: 'a realistic take rate and what stops users from transacting off the platform' }
+    ]
+  },
+  saas: {
+    title: 'B2B SaaS Dynamics',
+    fields: [
+      { key: 'salesMotion', label: 'Sales motion', type: 'text', description: 'self-serve, inside sales or enterprise, and the expected sales cycle' },
+      { key: 'switchingCosts', label: 'Switching costs', type: 'text', description: 'what the customer replaces today and how sticky the product is once adopted' },
+      { key: 'churnRisk', label: 'Churn risk', type: 'risk', description: 'risk of customers cancelling after the first year' }
+    ]
+  },
+  hardware: {
+    title: 'Hardware Dynamics',
+    fields: [
+      { key: 'manufacturingRisk', label: 'Manufacturing risk', type: 'risk', description: 'risk in prototyping, sourcing parts and manufacturing at volume' },
+      { key: 'unitCosts', label: 'Unit costs', type: 'text', description: 'bill of materials against a realistic retail price, and the resulting margin' },
+      { key: 'certifications', label: 'Certifications', type: 'list', description: 'certifications needed before selling, e.g. CE, FCC or UL' }
+    ]
+  },
+  consumerApp: {
+    title: 'Consumer App Dynamics',
+    fields: [
+      { key: 'retentionRisk', label: 'Retention risk', type: 'risk', description: 'risk that users stop coming back after the first weeks' },
+      { key: 'retentionHooks', label: 'Retention hooks', type: 'text', description: 'what brings users back daily or weekly' },
+      { key: 'growthLoops', label: 'Growth loops', type: 'list', description: 'ways existing users bring in new ones' }
+    ]
+  },
+  regulatory: {
+    title: 'Regulatory Exposure',
+    fields: [
+      { key: 'exposure', label: 'Exposure', type: 'risk', description: 'how much regulation limits what can be built, sold and how fast' },
+      { key: 'regulations', label: 'Rules that apply', type: 'list', description: 'licences, laws and regulators that apply, e.g. a money transmitter licence, PSD2, HIPAA or FDA clearance' },
+      { key: 'compliancePath', label: 'Path to compliance', type: 'text', description: 'the cheapest compliant way to launch, such as partnering with a licensed provider' }
+    ]
+  }
+};
+
+export interface ValidationReport extends VerticalSections {
   id: string;
   createdAt: number;
   originalIdea?: string; // Added to store the context for Chat
+  ideaId?: string; // The idea project this report is a version of
   summaryVerdict: 'Promising' | 'Risky' | 'Needs Refinement' | 'Unknown';
   oneLineTakeaway: string;
   marketReality: string;
@@ -40,8 +528,56 @@ export interface ValidationReport {
   competitors: Competitor[];
   monetizationStrategies: string[];
   whyPeoplePay: string;
-  viabilityScore: number; // 0-100
+  viabilityScore: number; // 0-100, derived from subScores
+  marketSizing?: MarketSizing; // Missing on reports created before market sizing
+  unitEconomics?: UnitEconomics; // Missing on reports created before unit economics
+  subScores?: Record<SubScoreDimension, SubScore>; // Missing on reports created before the rubric
   nextSteps: string[];
+  ensemble?: EnsembleSummary; // Set when several models were merged into this report
+  stability?: StabilitySummary; // Set when the analysis was sampled several times
+  sourceDocuments?: SourceDocument[]; // Set when the idea came with PDF, DOCX or RTF attachments
+  deckReview?: DeckReview; // Set when a deck review was requested for a PDF attachment
+  competitorMatrix?: CompetitorMatrix; // Set when a competitor deep-dive was requested
+  lens?: AnalysisLens; // Missing on reports created before lenses (general)
+  vertical?: IndustryVertical; // Set when the idea belongs to one, along with that vertical's section
+  language?: string; // Language the report was written in; missing means English
+  translations?: ReportTranslation[]; // At most one per language
+  evidenceFrom?: { reportId: string; experiments: number; surveyResponses?: number }; // Set when rescored with the evidence of an earlier version's experiments and survey
+  interviewKit?: InterviewKit;
+  survey?: Survey;
+}
+
+// The report fields written in prose. Translations replace these; scores, the verdict and risk levels stay as they are.
+export type TranslatableReport = Pick<ValidationReport, 'oneLineTakeaway' | 'marketReality' | 'pros' | 'cons' | 'competitors' | 'monetizationStrategies' | 'whyPeoplePay' | 'subScores' | 'nextSteps'> & VerticalSections;
+
+export interface ReportTranslation {
+  language: string;
+  createdAt: number;
+  report: TranslatableReport;
+}
+
+// Optional ways to run an analysis beyond a single call to one model
+export interface AnalysisOptions {
+  ensembleModels?: CustomModelConfig[];
+  samples?: number; // Stability mode: how many times to sample the analysis (2-5)
+  ideaId?: string; // Save the report as a new version of this idea project
+  deckReview?: boolean; // Also review the attached PDF pitch deck slide by slide
+  competitorMatrix?: boolean; // Also profile each competitor and compare features
+  lens?: AnalysisLens; // Perspective the idea is judged from (defaults to general)
+  vertical?: IndustryVertical; // Skips detecting the idea's industry vertical
+  language?: string; // Report language; set from the user's preferences
+  evidenceFrom?: string; // Rescore with the evidence of this report's finished experiments and survey results (saved reports only)
+  documentsFrom?: string; // Analyze the documents stored with this report again (saved reports only)
+}
+
+// Stages of an analysis, in the order the model writes them
+export type AnalysisStage = 'market' | 'strengths' | 'competitors' | 'monetization' | 'verdict' | 'nextSteps';
+
+// Streamed by /api/analyze as each stage finishes, carrying that stage's finished report fields
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  section: Partial<ValidationReport>;
+  model?: string; // Which model (ensemble) or sample (stability mode) finished the stage
 }
 
 export interface ChatMessage {
@@ -52,6 +588,75 @@ export interface ChatMessage {
   isStreaming?: boolean;
 }
 
+// A completed chat turn as sent to the backend for conversation memory
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// Rolling summary the backend keeps of older turns; `upTo` is how many turns it covers
+export interface ChatMemory {
+  summary: string;
+  upTo: number;
+}
+
+export type ChatStreamChunk = { text: string } | { memory: ChatMemory };
+
+// What a chat request carries besides the new message: a saved thread, or the in-memory history for unsaved reports
+export interface ChatConversation {
+  threadId?: string;
+  email?: string; // Owner of the saved thread's report
+  history?: ChatTurn[];
+  memory?: ChatMemory | null;
+}
+
+// A named, saved conversation about one report
+export interface ChatThread {
+  id: string;
+  reportId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount?: number;
+}
+
+export type ExperimentStatus = 'planned' | 'running' | 'validated' | 'invalidated';
+
+export const EXPERIMENT_STATUSES: { id: ExperimentStatus; label: string; finished: boolean }[] = [
+  { id: 'planned', label: 'Planned', finished: false },
+  { id: 'running', label: 'Running', finished: false },
+  { id: 'validated', label: 'Validated', finished: true },
+  { id: 'invalidated', label: 'Invalidated', finished: true }
+];
+
+export type EvidenceKind = 'note' | 'number' | 'file';
+
+// Something learned while running an experiment. Files are kept as the text extracted from them, like source documents.
+export interface Evidence {
+  id: string;
+  kind: EvidenceKind;
+  text: string; // The note, the number's label, or the file's text
+  value?: number; // Numbers only
+  fileName?: string; // Files only
+  createdAt: number;
+}
+
+// A next step of a saved report, tracked until it validates or invalidates its hypothesis
+export interface Experiment {
+  id: string;
+  reportId: string;
+  step: string; // The next step it was created from
+  hypothesis: string;
+  metric: string; // What success looks like
+  status: ExperimentStatus;
+  dueDate?: number;
+  evidence: Evidence[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ExperimentUpdate = Partial<Pick<Experiment, 'hypothesis' | 'metric' | 'status'>> & { dueDate?: number | null };
+
 export const MOCK_REPORT: ValidationReport = {
   id: "mock-1",
   createdAt: Date.now(),
@@ -59,6 +664,20 @@ export const MOCK_REPORT: ValidationReport = {
   summaryVerdict: "Needs Refinement",
   oneLineTakeaway: "Great problem, but the solution is currently too broad.",
   marketReality: "The productivity market is saturated. Users are tired of 'all-in-one' tools and are looking for specialized workflows.",
+  marketSizing: {
+    currency: "USD",
+    bottomUp: {
+      customers: { value: 120000, source: "Estimate: roughly 120k marketing agencies worldwide, per industry directories" },
+      annualPrice: { value: 1800, source: "Estimate: 10 seats at $15/month, in line with agency tooling" },
+      servableShare: { value: 40, source: "Estimate: English-speaking agencies with 5-50 staff" },
+      penetrationRate: { value: 2, source: "Estimate: typical share for a new entrant in a crowded category" }
+    },
+    topDown: {
+      industrySpend: { value: 45000000000, source: "Estimate: global collaboration and project management software spend" },
+      segmentShare: { value: 1, source: "Estimate: share spent by marketing agencies" },
+      marketShare: { value: 1.5, source: "Estimate: new entrant after 3-5 years" }
+    }
+  },
   pros: ["Solves a genuine pain point for remote teams", "Low barrier to entry MVP", "Clear viral loop potential"],
   cons: ["Extremely high cost of customer acquisition", "Competitors have deep moats", "User retention is notoriously difficult in this vertical"],
   competitors: [
@@ -68,6 +687,27 @@ export const MOCK_REPORT: ValidationReport = {
   ],
   monetizationStrategies: ["Freemium with team limits", "Per-seat enterprise pricing", "Marketplace for templates"],
   whyPeoplePay: "Teams will pay to reduce the 'coordination tax' of switching between too many apps.",
+  unitEconomics: {
+    currency: "USD",
+    strategy: "Per-seat subscription",
+    inputs: {
+      monthlyPrice: { value: 150, source: "Estimate: 10 seats at $15/month" },
+      grossMargin: { value: 80, source: "Estimate: typical for SaaS after hosting and support" },
+      monthlyChurn: { value: 3, source: "Estimate: small-business SaaS usually loses 3-5% a month" },
+      cac: { value: 900, source: "Estimate: paid acquisition in a crowded category" },
+      newCustomers: { value: 10, source: "Estimate: early launch from the founder's network" },
+      acquisitionGrowth: { value: 10, source: "Estimate: content and referrals compounding" },
+      fixedCosts: { value: 12000, source: "Estimate: two founders at modest salaries plus tools" }
+    }
+  },
   viabilityScore: 65,
+  subScores: {
+    marketSize: { score: 70, rationale: "Thousands of agencies juggle several tools and already pay for them." },
+    competitionIntensity: { score: 40, rationale: "Notion, Linear and Trello own the general workspace; only a niche angle is open." },
+    monetizationClarity: { score: 70, rationale: "Per-seat SaaS pricing is a proven model for agency tooling." },
+    technicalFeasibility: { score: 85, rationale: "Standard web stack; no novel technology required for an MVP." },
+    timing: { score: 60, rationale: "Tool fatigue is growing, but consolidation suites are also launching." },
+    founderFit: { score: 60, rationale: "No founder background was shared, so this is a neutral estimate." }
+  },
   nextSteps: ["Narrow the target audience to just 'marketing agencies'", "Interview 10 agency owners about their current workflow", "Build a 'concierge MVP' before writing code"]
 };
\ No newline at end of file
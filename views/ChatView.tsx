@@ -1,52 +1,120 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '../components/Button';
-import { ValidationReport, ChatMessage, CustomModelConfig } from '../types';
+import { ValidationReport, ChatMessage, CustomModelConfig, ChatThread } from '../types';
 import { initializeChat } from '../services/geminiService';
-import { ArrowLeft, Send, Sparkles, User, Bot, StopCircle, RefreshCw, Key } from 'lucide-react';
+import { api } from '../services/api';
+import { ArrowLeft, Send, Sparkles, User, Bot, StopCircle, RefreshCw, Key, ChevronDown, Plus, Pencil, Trash2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { GenerateContentResponse } from "@google/genai";
 
 interface ChatViewProps {
   report: ValidationReport;
   originalIdea: string; 
   customModel?: CustomModelConfig;
+  language?: string; // Preferred reply language (REPORT_LANGUAGES code)
+  email?: string; // Signed-in user; saved conversations need it
   onBack: () => void;
 }
 
-export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, customModel, onBack }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: `I've analyzed your idea for **${report.oneLineTakeaway}**. I can help you refine your strategy, draft landing page copy, or brainstorm how to beat competitors like *${report.competitors[0]?.name || 'others'}*. \n\nWhat would you like to tackle first?`,
-      timestamp: Date.now()
-    }
-  ]);
+const getWelcomeMessage = (report: ValidationReport): ChatMessage => ({
+  id: 'welcome',
+  role: 'model',
+  text: `I've analyzed your idea for **${report.oneLineTakeaway}**. I can help you refine your strategy, draft landing page copy, or brainstorm how to beat competitors like *${report.competitors[0]?.name || 'others'}*. \n\nWhat would you like to tackle first?`,
+  timestamp: Date.now()
+});
+
+export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, customModel, language, email, onBack }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [getWelcomeMessage(report)]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [chatSession, setChatSession] = useState<ReturnType<typeof initializeChat> | null>(null);
+
+  // Saved conversations for this report; null when the report only exists locally and chat stays in memory
+  const [threads, setThreads] = useState<ChatThread[] | null>(null);
+  const [isLoadingThreads, setIsLoadingThreads] = useState(true);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isThreadMenuOpen, setThreadMenuOpen] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Initialize Chat Session
+  // Abort any in-flight generation when leaving the chat
   useEffect(() => {
-    if (!chatSession) {
-      try {
-        const session = initializeChat(report, originalIdea, customModel);
-        setChatSession(session);
-      } catch (e) {
-        console.error("Failed to init chat", e);
-      }
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Initialize Chat Session (a new one per thread, since saved threads keep their history server-side)
+  useEffect(() => {
+    try {
+      const session = initializeChat(report, originalIdea, customModel, activeThreadId || undefined, language, email);
+      setChatSession(session);
+    } catch (e) {
+      console.error("Failed to init chat", e);
     }
-  }, [report, originalIdea, customModel, chatSession]);
+  }, [report, originalIdea, customModel, activeThreadId, language, email]);
+
+  // Load saved conversations and reopen the most recent one
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoadingThreads(true);
+
+    api.getChatThreads(report.id, email).then(saved => {
+      if (cancelled) return;
+      setThreads(saved);
+      setIsLoadingThreads(false);
+      if (saved && saved.length > 0) openThread(saved[0].id);
+    });
+
+    return () => { cancelled = true; };
+  }, [report.id, email]);
 
   // Scroll to bottom on new message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const openThread = async (threadId: string) => {
+    abortControllerRef.current?.abort();
+    setThreadMenuOpen(false);
+    try {
+      const { messages: saved } = await api.getChatThread(threadId, email!);
+      setMessages([getWelcomeMessage(report), ...saved]);
+      setActiveThreadId(threadId);
+    } catch (e) {
+      console.error("Failed to open conversation", e);
+    }
+  };
+
+  const startNewThread = () => {
+    abortControllerRef.current?.abort();
+    setThreadMenuOpen(false);
+    setActiveThreadId(null);
+    setMessages([getWelcomeMessage(report)]);
+  };
+
+  const handleRenameThread = async (thread: ChatThread) => {
+    const title = window.prompt("Rename conversation", thread.title)?.trim();
+    if (!title || title === thread.title) return;
+    try {
+      await api.renameChatThread(thread.id, title, email!);
+      setThreads(prev => prev && prev.map(t => t.id === thread.id ? { ...t, title } : t));
+    } catch (e) {
+      alert("Failed to rename conversation.");
+    }
+  };
+
+  const handleDeleteThread = async (thread: ChatThread) => {
+    if (!window.confirm(`Delete "${thread.title}"? This cannot be undone.`)) return;
+    try {
+      await api.deleteChatThread(thread.id, email!);
+      setThreads(prev => prev && prev.filter(t => t.id !== thread.id));
+      if (thread.id === activeThreadId) startNewThread();
+    } catch (e) {
+      alert("Failed to delete conversation.");
+    }
+  };
+
   const handleSend = async () => {
-    if (!input.trim() || !chatSession || isLoading) return;
+    if (!input.trim() || !chatSession || isLoading || isLoadingThreads) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -59,9 +127,27 @@ export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, custom
     setInput('');
     setIsLoading(true);
 
+    // Saved reports get a thread on the first message, named after it
+    let session = chatSession;
+    let threadId = activeThreadId;
+    if (threads && !threadId) {
+      try {
+        const thread = await api.createChatThread(report.id, userMsg.text.substring(0, 60), email!);
+        threadId = thread.id;
+        session = initializeChat(report, originalIdea, customModel, thread.id, language, email);
+        setThreads(prev => [thread, ...(prev || [])]);
+        setActiveThreadId(thread.id);
+      } catch (e) {
+        console.error("Failed to save conversation, continuing unsaved", e);
+      }
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // Create a placeholder for the AI response
+    const aiMsgId = (Date.now() + 1).toString();
+
     try {
-      // Create a placeholder for the AI response
-      const aiMsgId = (Date.now() + 1).toString();
       setMessages(prev => [...prev, {
         id: aiMsgId,
         role: 'model',
@@ -70,14 +156,12 @@ export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, custom
         isStreaming: true
       }]);
 
-      const result = await chatSession.sendMessageStream({ message: userMsg.text });
+      const result = await session.sendMessageStream({ message: userMsg.text, signal: controller.signal });
       
       let fullText = '';
       
       for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        const textChunk = c.text || '';
-        fullText += textChunk;
+        fullText += chunk.text || '';
         
         setMessages(prev => 
           prev.map(msg => 
@@ -88,28 +172,40 @@ export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, custom
         );
       }
 
-      // Finalize message
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === aiMsgId 
-            ? { ...msg, isStreaming: false } 
-            : msg
-        )
-      );
-
-    } catch (e) {
+    } catch (e: any) {
       console.error("Chat error", e);
+      // The backend's reason (e.g. a reply that couldn't be saved to the thread) when it sent one
       setMessages(prev => [...prev, {
         id: Date.now().toString(),
         role: 'model',
-        text: "I encountered an error connecting to the model. Please try again.",
+        text: e.message || "I encountered an error connecting to the model. Please try again.",
         timestamp: Date.now()
       }]);
     } finally {
+      // Finalize message (also keeps whatever was generated before a stop)
+      setMessages(prev => 
+        prev.map(msg => 
+          msg.id === aiMsgId 
+            ? { ...msg, isStreaming: false } 
+            : msg
+        )
+      );
+      abortControllerRef.current = null;
       setIsLoading(false);
+      if (threadId) {
+        // Most recently used conversation moves to the top of the list
+        setThreads(prev => prev && [
+          ...prev.filter(t => t.id === threadId).map(t => ({ ...t, updatedAt: Date.now() })),
+          ...prev.filter(t => t.id !== threadId)
+        ]);
+      }
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -134,9 +230,44 @@ export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, custom
         >
           <ArrowLeft size={16} className="mr-2" /> Back to Report
         </button>
-        <div className="flex items-center gap-2 text-slate-900 font-semibold">
-          <Sparkles size={16} className="text-emerald-500" />
-          <span>Co-Founder AI</span>
+        <div className="relative flex flex-col items-center">
+          <div className="flex items-center gap-2 text-slate-900 font-semibold">
+            <Sparkles size={16} className="text-emerald-500" />
+            <span>Co-Founder AI</span>
+          </div>
+          {threads && (
+            <button
+              onClick={() => setThreadMenuOpen(!isThreadMenuOpen)}
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900 transition-colors max-w-[220px]"
+            >
+              <span className="truncate">{threads.find(t => t.id === activeThreadId)?.title || 'New conversation'}</span>
+              <ChevronDown size={12} className={`shrink-0 transition-transform ${isThreadMenuOpen ? 'rotate-180' : ''}`} />
+            </button>
+          )}
+          {isThreadMenuOpen && threads && (
+            <div className="absolute top-full mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-100 py-2 z-20 animate-fade-in-up">
+              <button onClick={startNewThread} className="w-full text-left px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 flex items-center gap-2">
+                <Plus size={16} /> New conversation
+              </button>
+              {threads.length > 0 && <div className="border-t border-slate-50 my-1" />}
+              <div className="max-h-64 overflow-y-auto">
+                {threads.map(thread => (
+                  <div key={thread.id} className={`flex items-center gap-1 px-4 py-2 hover:bg-slate-50 ${thread.id === activeThreadId ? 'bg-slate-50' : ''}`}>
+                    <button onClick={() => openThread(thread.id)} className="flex-1 min-w-0 text-left">
+                      <p className="text-sm text-slate-900 truncate">{thread.title}</p>
+                      <p className="text-[10px] text-slate-400">{new Date(thread.updatedAt).toLocaleDateString()}</p>
+                    </button>
+                    <button onClick={() => handleRenameThread(thread)} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-md transition-colors" title="Rename">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDeleteThread(thread)} className="p-1.5 text-slate-400 hover:text-rose-500 rounded-md transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
         <div className="w-16 flex justify-end">
             {customModel && (
@@ -210,9 +341,10 @@ export const ChatView: React.FC<ChatViewProps> = ({ report, originalIdea, custom
             />
             <Button 
               size="sm" 
-              onClick={handleSend} 
-              disabled={!input.trim() || isLoading}
-              className={`mb-1 transition-all ${isLoading ? 'opacity-50' : ''}`}
+              onClick={isLoading ? handleStop : handleSend} 
+              disabled={!isLoading && !input.trim()}
+              title={isLoading ? "Stop generating" : "Send"}
+              className="mb-1 transition-all"
             >
               {isLoading ? <StopCircle size={18} className="animate-pulse" /> : <Send size={18} />}
             </Button>
@@ -0,0 +1,149 @@
+import React from 'react';
+import { ValidationReport, SUB_SCORE_DIMENSIONS } from '../types';
+import { DiffItem, diffCompetitors, diffLists } from '../services/reportDiff';
+import { ArrowLeft, Plus, Minus } from 'lucide-react';
+
+interface ComparisonViewProps {
+  reports: ValidationReport[]; // Oldest first; each is diffed against the one before it
+  onSelect: (report: ValidationReport) => void;
+  onBack: () => void;
+}
+
+const getVerdictColor = (verdict: string) => {
+  switch (verdict) {
+    case 'Promising': return 'bg-emerald-100 text-emerald-800 border-emerald-200';
+    case 'Risky': return 'bg-rose-100 text-rose-800 border-rose-200';
+    default: return 'bg-amber-100 text-amber-800 border-amber-200';
+  }
+};
+
+const DiffList: React.FC<{ items: DiffItem[] }> = ({ items }) => {
+  if (items.length === 0) return <p className="text-xs text-slate-400">None</p>;
+  return (
+    <ul className="space-y-1.5">
+      {items.map((item, i) => (
+        <li
+          key={i}
+          className={`flex gap-1.5 items-start text-xs leading-relaxed ${
+            item.status === 'added' ? 'text-emerald-700' :
+            item.status === 'removed' ? 'text-rose-500 line-through' : 'text-slate-600'
+          }`}
+        >
+          {item.status === 'added' && <Plus size={12} className="shrink-0 mt-0.5" />}
+          {item.status === 'removed' && <Minus size={12} className="shrink-0 mt-0.5" />}
+          <span>{item.text}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const columnsStyle = (count: number) => ({ gridTemplateColumns: `repeat(${count}, minmax(220px, 1fr))` });
+
+interface RowProps {
+  title: string;
+  reports: ValidationReport[];
+  render: (report: ValidationReport, previous?: ValidationReport) => React.ReactNode;
+}
+
+// One row per report section, with a cell per report
+const Row: React.FC<RowProps> = ({ title, reports, render }) => (
+  <div className="border-t border-slate-100 pt-4">
+    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3">{title}</h3>
+    <div className="grid gap-4" style={columnsStyle(reports.length)}>
+      {reports.map((report, i) => (
+        <div key={report.id}>{render(report, reports[i - 1])}</div>
+      ))}
+    </div>
+  </div>
+);
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ reports, onSelect, onBack }) => {
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 animate-fade-in">
+      <button
+        onClick={onBack}
+        className="flex items-center text-slate-500 hover:text-slate-800 mb-6 transition-colors text-sm font-medium"
+      >
+        <ArrowLeft size={16} className="mr-2" /> Back
+      </button>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Compare Reports</h1>
+        <p className="text-slate-500 text-sm mt-1">
+          Each report is compared with the one to its left: <span className="text-emerald-700">new items</span>, unchanged items and <span className="text-rose-500 line-through">removed items</span>.
+        </p>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 overflow-x-auto">
+        <div className="space-y-6 min-w-fit">
+          {/* Header */}
+          <div className="grid gap-4" style={columnsStyle(reports.length)}>
+            {reports.map(report => (
+              <button
+                key={report.id}
+                type="button"
+                onClick={() => onSelect(report)}
+                className="text-left p-3 bg-slate-50 rounded-lg border border-slate-100 hover:border-slate-300 transition-colors"
+              >
+                <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
+                  {new Date(report.createdAt).toLocaleDateString()}
+                </div>
+                <p className="text-sm font-medium text-slate-900 line-clamp-3">{report.originalIdea || report.oneLineTakeaway}</p>
+              </button>
+            ))}
+          </div>
+
+          <Row reports={reports} title="Viability score" render={(report, previous) => {
+            const delta = previous ? report.viabilityScore - previous.viabilityScore : 0;
+            return (
+              <div className="flex items-baseline gap-2">
+                <span className="text-3xl font-bold text-slate-900">{report.viabilityScore}</span>
+                {previous && delta !== 0 && (
+                  <span className={`text-sm font-semibold ${delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {delta > 0 ? `+${delta}` : delta}
+                  </span>
+                )}
+              </div>
+            );
+          }} />
+
+          <Row reports={reports} title="Verdict" render={(report) => (
+            <div>
+              <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getVerdictColor(report.summaryVerdict)}`}>
+                {report.summaryVerdict}
+              </span>
+              <p className="text-xs text-slate-600 mt-2">"{report.oneLineTakeaway}"</p>
+            </div>
+          )} />
+
+          {reports.some(r => r.subScores) && (
+            <Row reports={reports} title="Sub-scores" render={(report, previous) => report.subScores ? (
+              <ul className="space-y-1">
+                {SUB_SCORE_DIMENSIONS.map(({ id, label }) => {
+                  const score = report.subScores![id]?.score;
+                  const before = previous?.subScores?.[id]?.score;
+                  const delta = score !== undefined && before !== undefined ? score - before : 0;
+                  return (
+                    <li key={id} className="flex justify-between text-xs text-slate-600">
+                      <span>{label}</span>
+                      <span className="font-semibold text-slate-900">
+                        {score ?? '–'}
+                        {delta !== 0 && <span className={`ml-1 ${delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>({delta > 0 ? `+${delta}` : delta})</span>}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : <p className="text-xs text-slate-400">Not scored</p>} />
+          )}
+
+          <Row reports={reports} title="Strengths" render={(report, previous) => <DiffList items={diffLists(previous?.pros, report.pros)} />} />
+          <Row reports={reports} title="Risks" render={(report, previous) => <DiffList items={diffLists(previous?.cons, report.cons)} />} />
+          <Row reports={reports} title="Competitors" render={(report, previous) => <DiffList items={diffCompetitors(previous?.competitors, report.competitors)} />} />
+          <Row reports={reports} title="Monetization" render={(report, previous) => <DiffList items={diffLists(previous?.monetizationStrategies, report.monetizationStrategies)} />} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -23,7 +23,7 @@ export const HelpView: React.FC<HelpViewProps> = ({ onBack }) => {
     },
     {
       q: "What does the 'Viability Score' mean?",
-      a: "It's a rough heuristic based on problem clarity, market size, and competition. A low score doesn't mean you should give up, but suggests you need to refine the problem statement."
+      a: "It's a weighted average of six sub-scores: market size and monetization clarity (20% each), plus competition, technical feasibility, timing and founder fit (15% each). Choosing a lens such as VC, bootstrapper, corporate innovation or grant reviewer shifts these weights toward what that audience cares about. Each sub-score comes with a short rationale in your report. A low score doesn't mean you should give up, but suggests you need to refine the problem statement."
     }
   ];
 
@@ -1,17 +1,45 @@
 import React, { useState } from 'react';
 import { ValidationReport } from '../types';
 import { Button } from '../components/Button';
-import { ArrowRight, Calendar, Trash2, ArrowLeft } from 'lucide-react';
+import { ArrowRight, Calendar, Trash2, ArrowLeft, Layers, Columns, Check } from 'lucide-react';
 
 interface HistoryViewProps {
   history: ValidationReport[];
   onSelect: (report: ValidationReport) => void;
+  onSelectProject: (ideaId: string) => void;
+  onCompare: (reports: ValidationReport[]) => void;
   onClear: () => void;
   onBack: () => void;
 }
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onClear, onBack }) => {
+const MAX_COMPARE = 4;
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onSelectProject, onCompare, onClear, onBack }) => {
   const [confirming, setConfirming] = useState(false);
+  // Compare mode lists every report (not just the newest version per project) with checkboxes
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : prev.length < MAX_COMPARE ? [...prev, id] : prev);
+  };
+
+  // One entry per idea project (newest version shown); reports from before projects stand alone
+  const projects: ValidationReport[][] = [];
+  const projectIndex = new Map<string, ValidationReport[]>();
+  (history || []).forEach(report => {
+    const key = report.ideaId || report.id;
+    const versions = projectIndex.get(key);
+    if (versions) {
+      versions.push(report);
+    } else {
+      const newVersions = [report];
+      projectIndex.set(key, newVersions);
+      projects.push(newVersions);
+    }
+  });
   
   if (!history || history.length === 0) {
     return (
@@ -41,6 +69,16 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onC
            <p className="text-slate-500 text-sm mt-1">Review past ideas and feedback.</p>
         </div>
         
+        <div className="flex items-center gap-2">
+        {history.length > 1 && !confirming && (
+            <button 
+                onClick={() => { setIsComparing(!isComparing); setCompareIds([]); }} 
+                type="button"
+                className={`text-sm flex items-center gap-1.5 transition-colors px-3 py-1.5 rounded-lg ${isComparing ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-900 hover:bg-slate-100'}`}
+            >
+            <Columns size={14} /> {isComparing ? 'Cancel' : 'Compare'}
+            </button>
+        )}
         {confirming ? (
              <div className="flex items-center gap-2 bg-rose-50 p-1 pr-3 rounded-lg border border-rose-100 animate-fade-in">
                  <span className="text-xs text-rose-700 font-medium pl-2">Delete all?</span>
@@ -68,14 +106,55 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onC
             <Trash2 size={14} /> Clear History
             </button>
         )}
+        </div>
       </div>
 
+      {isComparing && (
+        <div className="sticky top-2 z-10 flex items-center justify-between gap-4 mb-4 p-3 bg-white border border-slate-200 rounded-xl shadow-sm animate-fade-in">
+          <span className="text-sm text-slate-600">Select 2 to {MAX_COMPARE} reports to compare.</span>
+          <Button
+            size="sm"
+            disabled={compareIds.length < 2}
+            onClick={() => onCompare(history.filter(r => compareIds.includes(r.id)))}
+          >
+            Compare {compareIds.length > 0 ? `(${compareIds.length})` : ''}
+          </Button>
+        </div>
+      )}
+
+      {isComparing ? (
+        <div className="space-y-3">
+          {history.map(report => {
+            const isSelected = compareIds.includes(report.id);
+            return (
+              <button
+                key={report.id}
+                type="button"
+                onClick={() => toggleCompare(report.id)}
+                className={`w-full text-left flex items-center gap-4 bg-white border rounded-xl p-4 transition-all focus:outline-none ${isSelected ? 'border-slate-900 ring-1 ring-slate-900' : 'border-slate-200 hover:border-slate-300'}`}
+              >
+                <div className={`w-5 h-5 rounded border flex items-center justify-center shrink-0 ${isSelected ? 'bg-slate-900 border-slate-900 text-white' : 'border-slate-300'}`}>
+                  {isSelected && <Check size={14} />}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">
+                    {new Date(report.createdAt).toLocaleDateString()} · {report.summaryVerdict}
+                  </div>
+                  <h3 className="font-medium text-slate-900 truncate">{report.oneLineTakeaway}</h3>
+                </div>
+                <span className="font-bold text-lg text-slate-900 shrink-0">{report.viabilityScore}</span>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+
       <div className="space-y-4">
-        {history.map((report) => (
+        {projects.map(([report, ...olderVersions]) => (
           <button 
             key={report.id} 
             type="button"
-            onClick={() => onSelect(report)}
+            onClick={() => olderVersions.length > 0 && report.ideaId ? onSelectProject(report.ideaId) : onSelect(report)}
             className="w-full text-left group bg-white border border-slate-200 rounded-xl p-5 hover:border-slate-300 hover:shadow-md transition-all focus:outline-none focus:ring-2 focus:ring-slate-900"
           >
             <div className="flex justify-between items-start gap-4">
@@ -88,6 +167,11 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onC
                   <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
                     {new Date(report.createdAt).toLocaleDateString()}
                   </span>
+                  {olderVersions.length > 0 && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 text-xs font-medium rounded-full">
+                      <Layers size={12} /> {olderVersions.length + 1} versions
+                    </span>
+                  )}
                 </div>
                 <h3 className="font-medium text-slate-900 text-lg mb-1 group-hover:text-blue-700 transition-colors">
                   {report.oneLineTakeaway}
@@ -103,6 +187,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect, onC
           </button>
         ))}
       </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,76 +1,107 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '../components/Button';
-import { UserProfile, CustomModelConfig } from '../types';
-import { ArrowLeft, Sparkles, Upload, FileText, X, AlertCircle, CheckCircle2, Key } from 'lucide-react';
+import { SelectedFile, readFile } from '../services/files';
+import { UserProfile, CustomModelConfig, AnalysisOptions, AnalysisLens, IndustryVertical, ValidationReport, Attachment, ANALYSIS_LENSES, INDUSTRY_VERTICALS, MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES, MAX_ENSEMBLE_MODELS, MAX_TOTAL_ATTACHMENT_BYTES } from '../types';
+import { ArrowLeft, Sparkles, Upload, FileText, X, AlertCircle, CheckCircle2, Key, Repeat, Presentation, Glasses, Factory, Swords } from 'lucide-react';
 
 interface InputViewProps {
   user: UserProfile | null;
   onBack: () => void;
-  onSubmit: (idea: string, attachment?: { mimeType: string, data: string }, customModel?: CustomModelConfig) => void;
+  onSubmit: (idea: string, attachments: Attachment[], customModel?: CustomModelConfig, options?: AnalysisOptions) => void;
+  refineFrom?: ValidationReport | null; // Pre-fills the form to run a new version of this report's idea
 }
 
-export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit }) => {
-  const [idea, setIdea] = useState("");
-  const [attachment, setAttachment] = useState<{ name: string; mimeType: string; data: string } | null>(null);
+const STABILITY_SAMPLE_OPTIONS = [1, 3, 5];
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit, refineFrom }) => {
+  const [idea, setIdea] = useState(refineFrom?.originalIdea || "");
+  const [attachments, setAttachments] = useState<SelectedFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [selectedModelId, setSelectedModelId] = useState("default");
+  // Stability mode samples the analysis several times to show how much the score moves
+  const [samples, setSamples] = useState(1);
+  const [reviewDeck, setReviewDeck] = useState(false);
+  const [compareCompetitors, setCompareCompetitors] = useState(Boolean(refineFrom?.competitorMatrix));
+  const [lens, setLens] = useState<AnalysisLens>(refineFrom?.lens || 'general');
+  // Empty lets the analysis detect the vertical
+  const [vertical, setVertical] = useState<IndustryVertical | ''>(refineFrom?.vertical || '');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const customModels = user?.preferences?.customModels || [];
 
+  // Ensemble mode runs the idea through several of the user's models and merges the reports
+  const canUseEnsemble = customModels.length >= 2;
+  const isEnsemble = selectedModelId === "ensemble";
+  const [ensembleIds, setEnsembleIds] = useState<string[]>(() => customModels.slice(0, MAX_ENSEMBLE_MODELS).map(m => m.id));
+
+  const toggleEnsembleModel = (id: string) => {
+    setEnsembleIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : prev.length < MAX_ENSEMBLE_MODELS ? [...prev, id] : prev);
+  };
+
   // Validation Constants
   const MIN_TEXT_LENGTH = 10;
   const textLength = idea.trim().length;
   const hasSufficientText = textLength >= MIN_TEXT_LENGTH;
-  const hasAttachment = attachment !== null;
-  const canSubmit = hasSufficientText || hasAttachment;
+  const hasAttachment = attachments.length > 0;
+  const hasPdf = attachments.some(a => a.mimeType === 'application/pdf');
+  const hasEnoughModels = !isEnsemble || ensembleIds.length >= 2;
+  const canSubmit = (hasSufficientText || hasAttachment) && hasEnoughModels;
 
   const handleSubmitIdea = () => {
     if (canSubmit) {
       const customModel = customModels.find(m => m.id === selectedModelId);
-      if (attachment) {
-          onSubmit(idea, { mimeType: attachment.mimeType, data: attachment.data }, customModel);
-      } else {
-          onSubmit(idea, undefined, customModel);
-      }
+      const options: AnalysisOptions = isEnsemble
+        ? { ensembleModels: customModels.filter(m => ensembleIds.includes(m.id)) }
+        : { samples: samples > 1 ? samples : undefined };
+      options.ideaId = refineFrom?.ideaId;
+      if (hasPdf && reviewDeck) options.deckReview = true;
+      if (compareCompetitors) options.competitorMatrix = true;
+      if (lens !== 'general') options.lens = lens;
+      if (vertical) options.vertical = vertical;
+      onSubmit(idea, attachments.map(({ size, ...attachment }) => attachment), customModel, options);
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
+    const files = Array.from(e.target.files || []);
+    // Reset so the same file can be picked again after removing it
+    e.target.value = "";
+    if (files.length === 0) return;
 
-    if (e.target.files && e.target.files[0]) {
-        const file = e.target.files[0];
-        
-        if (file.size > 20 * 1024 * 1024) {
-            setError("File is too large. Max size is 20MB due to API limits.");
-            return;
-        }
-
-        const reader = new FileReader();
-        reader.onload = () => {
-            const base64String = reader.result as string;
-            const base64Data = base64String.split(',')[1];
-            
-            setAttachment({
-                name: file.name,
-                mimeType: file.type,
-                data: base64Data
-            });
-        };
-        reader.onerror = () => {
-            setError("Failed to read file.");
-        };
-        reader.readAsDataURL(file);
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+        setError(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+        return;
+    }
+
+    const oversized = files.find(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (oversized) {
+        setError(`${oversized.name} is too large. Max size per file is ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`);
+        return;
+    }
+
+    const totalSize = [...attachments, ...files].reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_TOTAL_ATTACHMENT_BYTES) {
+        setError(`Files are too large together. Max total size is ${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)}.`);
+        return;
+    }
+
+    try {
+        const added = await Promise.all(files.map(readFile));
+        setAttachments(prev => [...prev, ...added]);
+    } catch {
+        setError("Failed to read file.");
     }
   };
 
-  const removeFile = () => {
-      setAttachment(null);
-      if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-      }
+  const removeFile = (index: number) => {
+      setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
   return (
@@ -83,8 +114,24 @@ export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit })
       </button>
 
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
-        <h2 className="text-2xl font-bold text-slate-900 mb-2">Pitch your idea</h2>
-        <p className="text-slate-500 mb-6">Describe your product or upload a pitch deck or document.</p>
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">{refineFrom ? "Refine your idea" : "Pitch your idea"}</h2>
+        <p className="text-slate-500 mb-6">
+          {refineFrom
+            ? "Edit your pitch to address the feedback below. The result is saved as a new version of this idea."
+            : "Describe your product or upload a pitch deck or document."}
+        </p>
+
+        {/* Feedback to address when refining */}
+        {refineFrom && refineFrom.cons.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-xl">
+            <p className="text-xs font-bold text-amber-800 uppercase tracking-wide mb-2">
+              Last score: {refineFrom.viabilityScore} · Risks to address
+            </p>
+            <ul className="list-disc list-inside space-y-1 text-sm text-amber-900">
+              {refineFrom.cons.slice(0, 3).map((con, i) => <li key={i}>{con}</li>)}
+            </ul>
+          </div>
+        )}
 
         {/* Text Area */}
         <textarea 
@@ -100,37 +147,77 @@ export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit })
                 type="file" 
                 ref={fileInputRef}
                 className="hidden"
-                accept=".pdf,.txt,.md,.csv,.doc,.docx,.rtf"
+                multiple
+                accept=".pdf,.txt,.md,.csv,.docx,.rtf"
                 onChange={handleFileChange}
              />
              
              {/* Document Upload State */}
-             {attachment && (
-                 <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-100 rounded-lg">
+             {attachments.map((attachment, i) => (
+                 <div key={`${attachment.name}-${i}`} className="flex items-center justify-between p-3 bg-blue-50 border border-blue-100 rounded-lg">
                      <div className="flex items-center gap-3 overflow-hidden">
                          <div className="p-2 bg-white rounded-md text-blue-600 shrink-0">
                              <FileText size={20} />
                          </div>
                          <div className="min-w-0">
                              <p className="text-sm font-medium text-slate-900 truncate">{attachment.name}</p>
-                             <p className="text-xs text-slate-500">Document attached</p>
+                             <p className="text-xs text-slate-500">Document {i + 1} · {formatFileSize(attachment.size)}</p>
                          </div>
                      </div>
-                     <button onClick={removeFile} className="p-2 hover:bg-blue-100 rounded-full text-slate-500 hover:text-rose-500 transition-colors">
+                     <button onClick={() => removeFile(i)} className="p-2 hover:bg-blue-100 rounded-full text-slate-500 hover:text-rose-500 transition-colors">
                          <X size={18} />
                      </button>
                  </div>
+             ))}
+
+             {hasAttachment && attachments.length < MAX_ATTACHMENTS && (
+                 <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-2 py-3 border border-dashed border-slate-200 rounded-lg text-slate-500 hover:border-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-all font-medium text-sm"
+                 >
+                    <Upload size={16} /> Add another file ({attachments.length}/{MAX_ATTACHMENTS})
+                 </button>
+             )}
+
+             {/* Deck review is only offered for PDFs, where pages map to slides */}
+             {hasPdf && (
+                 <label className="flex items-start gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer">
+                     <input
+                        type="checkbox"
+                        checked={reviewDeck}
+                        onChange={(e) => setReviewDeck(e.target.checked)}
+                        className="rounded border-slate-300 mt-0.5"
+                     />
+                     <span className="text-sm">
+                         <span className="font-medium text-slate-900 flex items-center gap-1.5"><Presentation size={14} /> Review my pitch deck slide by slide</span>
+                         <span className="block text-xs text-slate-500 mt-0.5">Feedback per slide, plus a check against the standard deck structure.</span>
+                     </span>
+                 </label>
              )}
 
+             <label className="flex items-start gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer">
+                 <input
+                    type="checkbox"
+                    checked={compareCompetitors}
+                    onChange={(e) => setCompareCompetitors(e.target.checked)}
+                    className="rounded border-slate-300 mt-0.5"
+                 />
+                 <span className="text-sm">
+                     <span className="font-medium text-slate-900 flex items-center gap-1.5"><Swords size={14} /> Competitor deep-dive</span>
+                     <span className="block text-xs text-slate-500 mt-0.5">Segment, pricing, strengths and weaknesses per competitor, plus a feature-by-feature comparison.</span>
+                 </span>
+             </label>
+
              {/* Default Buttons (Show if no attachments) */}
-             {!attachment && (
+             {!hasAttachment && (
                  <div className="w-full">
                      <button 
                         onClick={() => fileInputRef.current?.click()}
                         className="w-full flex flex-col items-center justify-center gap-2 py-8 border-2 border-dashed border-slate-200 rounded-xl text-slate-500 hover:border-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-all font-medium text-sm"
                      >
                         <Upload size={24} /> 
-                        <span>Upload Pitch Deck / Document</span>
+                        <span>Upload Pitch Deck / Documents</span>
+                        <span className="text-xs font-normal text-slate-400">Up to {MAX_ATTACHMENTS} files · {formatFileSize(MAX_ATTACHMENT_BYTES)} each</span>
                      </button>
                  </div>
              )}
@@ -148,7 +235,9 @@ export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit })
               {!canSubmit ? (
                  <div className="text-slate-400 text-sm flex items-center gap-2 animate-fade-in transition-all">
                     <span className="w-2 h-2 rounded-full bg-slate-300"></span>
-                    {textLength > 0 ? (
+                    {!hasEnoughModels ? (
+                        <span>Pick at least 2 models to compare</span>
+                    ) : textLength > 0 ? (
                         <span>{MIN_TEXT_LENGTH - textLength} more characters needed</span>
                     ) : (
                         <span>Enter description or upload file</span>
@@ -161,7 +250,41 @@ export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit })
                  </div>
               )}
             </div>
-            
+
+            {/* Analysis Lens Selector */}
+            <div className="relative mt-1">
+                <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+                    <Glasses size={14} className="text-slate-400" />
+                </div>
+                <select
+                   value={lens}
+                   onChange={(e) => setLens(e.target.value as AnalysisLens)}
+                   title={ANALYSIS_LENSES.find(l => l.id === lens)?.description}
+                   className="bg-slate-50 border border-slate-200 text-slate-700 text-xs rounded-lg focus:ring-slate-900 focus:border-slate-900 block w-full pl-7 p-2 appearance-none"
+                >
+                   {ANALYSIS_LENSES.map(l => (
+                       <option key={l.id} value={l.id}>{l.id === 'general' ? 'General lens' : `${l.label} lens`}</option>
+                   ))}
+                </select>
+            </div>
+
+            {/* Industry Vertical Selector */}
+            <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+                    <Factory size={14} className="text-slate-400" />
+                </div>
+                <select
+                   value={vertical}
+                   onChange={(e) => setVertical(e.target.value as IndustryVertical | '')}
+                   className="bg-slate-50 border border-slate-200 text-slate-700 text-xs rounded-lg focus:ring-slate-900 focus:border-slate-900 block w-full pl-7 p-2 appearance-none"
+                >
+                   <option value="">Detect industry automatically</option>
+                   {INDUSTRY_VERTICALS.map(v => (
+                       <option key={v.id} value={v.id}>{v.label}</option>
+                   ))}
+                </select>
+            </div>
+
             {/* Custom Model Selector */}
             {customModels.length > 0 && (
                <div className="relative mt-1">
@@ -177,6 +300,48 @@ export const InputView: React.FC<InputViewProps> = ({ user, onBack, onSubmit })
                       {customModels.map(m => (
                           <option key={m.id} value={m.id}>{m.provider} - {m.model}</option>
                       ))}
+                      {canUseEnsemble && (
+                          <option value="ensemble">Ensemble (compare my models)</option>
+                      )}
+                   </select>
+               </div>
+            )}
+
+            {/* Ensemble Model Picker */}
+            {isEnsemble && (
+               <div className="flex flex-col gap-1 mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg">
+                   {customModels.map(m => (
+                       <label key={m.id} className="flex items-center gap-2 text-xs text-slate-700 cursor-pointer">
+                           <input
+                              type="checkbox"
+                              checked={ensembleIds.includes(m.id)}
+                              onChange={() => toggleEnsembleModel(m.id)}
+                              disabled={!ensembleIds.includes(m.id) && ensembleIds.length >= MAX_ENSEMBLE_MODELS}
+                              className="rounded border-slate-300"
+                           />
+                           {m.provider} - {m.model}
+                       </label>
+                   ))}
+                   <p className="text-[11px] text-slate-400 mt-1">Runs on your own keys, up to {MAX_ENSEMBLE_MODELS} models. No credits used.</p>
+               </div>
+            )}
+
+            {/* Stability Mode Selector */}
+            {!isEnsemble && (
+               <div className="relative">
+                   <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+                       <Repeat size={14} className="text-slate-400" />
+                   </div>
+                   <select
+                      value={samples}
+                      onChange={(e) => setSamples(Number(e.target.value))}
+                      className="bg-slate-50 border border-slate-200 text-slate-700 text-xs rounded-lg focus:ring-slate-900 focus:border-slate-900 block w-full pl-7 p-2 appearance-none"
+                   >
+                      {STABILITY_SAMPLE_OPTIONS.map(n => (
+                          <option key={n} value={n}>
+                              {n === 1 ? 'Single run' : `Stability check (${n} runs${selectedModelId === 'default' ? `, ${n} credits` : ''})`}
+                          </option>
+                      ))}
                    </select>
                </div>
             )}
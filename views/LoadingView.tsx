@@ -1,27 +1,53 @@
-import React, { useEffect, useState } from 'react';
-import { Loader2 } from 'lucide-react';
-
-const LOADING_MESSAGES = [
-  "Analyzing your pitch inputs...",
-  "Identifying core user pain points...",
-  "Scanning the competitive horizon...",
-  "Evaluating market timing & urgency...",
-  "Stress-testing monetization strategies...",
-  "Looking for differentiation gaps...",
-  "Checking for 'hair-on-fire' problems...",
-  "Drafting honest feedback...",
-  "Synthesizing final report..."
+import React from 'react';
+import { Loader2, CheckCircle, Circle } from 'lucide-react';
+import type { AnalysisProgress, AnalysisStage, ValidationReport } from '../types';
+
+// Same order the model writes the report in (see ANALYSIS_STAGES on the server)
+const STAGES: { id: AnalysisStage, label: string }[] = [
+  { id: 'market', label: 'Market reality' },
+  { id: 'strengths', label: 'Strengths & risks' },
+  { id: 'competitors', label: 'Competitive landscape' },
+  { id: 'monetization', label: 'Monetization' },
+  { id: 'verdict', label: 'Verdict & score' },
+  { id: 'nextSteps', label: 'Next steps' }
 ];
 
-export const LoadingView: React.FC = () => {
-  const [messageIndex, setMessageIndex] = useState(0);
+interface LoadingViewProps {
+  progress?: AnalysisProgress[];
+}
+
+// Short preview of what the model concluded for a finished stage
+const summarizeSection = (stage: AnalysisStage, section: Partial<ValidationReport>): string | null => {
+  switch (stage) {
+    case 'market':
+      return typeof section.marketReality === 'string' ? section.marketReality : null;
+    case 'strengths': {
+      const pros = Array.isArray(section.pros) ? section.pros.length : 0;
+      const cons = Array.isArray(section.cons) ? section.cons.length : 0;
+      return `${pros} strengths, ${cons} risks identified`;
+    }
+    case 'competitors':
+      return Array.isArray(section.competitors) && section.competitors.length > 0
+        ? section.competitors.map(c => c?.name).filter(Boolean).join(', ')
+        : 'No direct competitors found';
+    case 'monetization':
+      return Array.isArray(section.monetizationStrategies) ? section.monetizationStrategies.join(' · ') : null;
+    case 'verdict':
+      return section.viabilityScore !== undefined
+        ? `${section.summaryVerdict || 'Unknown'} · ${section.viabilityScore}/100`
+        : null;
+    case 'nextSteps':
+      return Array.isArray(section.nextSteps) ? `${section.nextSteps.length} action items` : null;
+  }
+};
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setMessageIndex((prev) => (prev + 1) % LOADING_MESSAGES.length);
-    }, 2000);
-    return () => clearInterval(interval);
-  }, []);
+export const LoadingView: React.FC<LoadingViewProps> = ({ progress = [] }) => {
+  const finished = new Map(progress.map(p => [p.stage, p.section]));
+  const activeStage = STAGES.find(s => !finished.has(s.id))?.id;
+
+  // Ensemble runs tag progress with the model; one model's preview would misrepresent the merged report
+  const models = [...new Set(progress.map(p => p.model).filter((m): m is string => Boolean(m)))];
+  const isEnsemble = models.length > 0;
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh]">
@@ -31,11 +57,57 @@ export const LoadingView: React.FC = () => {
           <Loader2 className="w-10 h-10 text-slate-900 animate-spin" />
         </div>
       </div>
-      
+
       <h3 className="mt-8 text-xl font-medium text-slate-900 animate-fade-in text-center min-h-[28px]">
-        {LOADING_MESSAGES[messageIndex]}
+        {activeStage ? 'Analyzing your idea...' : 'Finalizing your report...'}
       </h3>
-      <p className="mt-2 text-slate-400 text-sm">This typically takes 10-15 seconds.</p>
+      <p className="mt-2 text-slate-400 text-sm">Sections appear here as soon as they're written.</p>
+
+      <ul className="mt-8 w-full max-w-md space-y-3">
+        {STAGES.map(stage => {
+          const section = finished.get(stage.id);
+          const isActive = stage.id === activeStage;
+          const preview = section && !isEnsemble ? summarizeSection(stage.id, section) : null;
+
+          return (
+            <li key={stage.id} className="flex items-start gap-3 animate-fade-in">
+              {section ? (
+                <CheckCircle className="w-5 h-5 text-green-500 shrink-0 mt-0.5" />
+              ) : isActive ? (
+                <Loader2 className="w-5 h-5 text-blue-500 animate-spin shrink-0 mt-0.5" />
+              ) : (
+                <Circle className="w-5 h-5 text-slate-200 shrink-0 mt-0.5" />
+              )}
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${section || isActive ? 'text-slate-900' : 'text-slate-400'}`}>
+                  {stage.label}
+                </p>
+                {preview && <p className="text-xs text-slate-500 line-clamp-2">{preview}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {isEnsemble && (
+        <div className="mt-8 w-full max-w-md space-y-2">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">Models</p>
+          {models.map(model => {
+            const done = progress.filter(p => p.model === model).length;
+            return (
+              <div key={model}>
+                <div className="flex justify-between text-xs text-slate-600 mb-1">
+                  <span className="truncate">{model}</span>
+                  <span>{done}/{STAGES.length}</span>
+                </div>
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${(done / STAGES.length) * 100}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
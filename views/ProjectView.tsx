@@ -0,0 +1,136 @@
+import React from 'react';
+import { ValidationReport } from '../types';
+import { Button } from '../components/Button';
+import { ArrowLeft, ArrowRight, RefreshCcw, TrendingUp, TrendingDown, Minus, Columns } from 'lucide-react';
+
+interface ProjectViewProps {
+  versions: ValidationReport[]; // Oldest first
+  onSelect: (report: ValidationReport) => void;
+  onRefine: (report: ValidationReport) => void;
+  onCompare: (reports: ValidationReport[]) => void;
+  onBack: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const getVerdictDot = (verdict: string) =>
+  verdict === 'Promising' ? 'bg-emerald-500' : verdict === 'Risky' ? 'bg-rose-500' : 'bg-amber-500';
+
+export const ProjectView: React.FC<ProjectViewProps> = ({ versions, onSelect, onRefine, onCompare, onBack }) => {
+  const latest = versions[versions.length - 1];
+
+  // Score timeline, one point per version
+  const points = versions.map((v, i) => {
+    const x = versions.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (i * (CHART_WIDTH - CHART_PADDING * 2)) / (versions.length - 1);
+    const y = CHART_HEIGHT - CHART_PADDING - (v.viabilityScore / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+    return { x, y, version: v };
+  });
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 animate-fade-in">
+      <button
+        onClick={onBack}
+        className="flex items-center text-slate-500 hover:text-slate-800 mb-6 transition-colors text-sm font-medium"
+      >
+        <ArrowLeft size={16} className="mr-2" /> Back
+      </button>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-8">
+        <div className="min-w-0">
+          <h1 className="text-2xl font-bold text-slate-900">Idea Project</h1>
+          <p className="text-slate-500 text-sm mt-1 line-clamp-2">{versions[0]?.originalIdea}</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {versions.length > 1 && (
+            // The latest two versions by default; pick others from History
+            <Button variant="outline" onClick={() => onCompare(versions.slice(-2))} className="gap-2">
+              <Columns size={16} /> Compare latest
+            </Button>
+          )}
+          {latest && (
+            <Button onClick={() => onRefine(latest)} className="gap-2">
+              <RefreshCcw size={16} /> Re-run with refinements
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Score Timeline */}
+      <div className="bg-white border border-slate-200 rounded-xl p-5 mb-6">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-4">Viability score across versions</h2>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" role="img" aria-label="Score timeline">
+          {[0, 50, 100].map(level => {
+            const y = CHART_HEIGHT - CHART_PADDING - (level / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+            return (
+              <g key={level}>
+                <line x1={CHART_PADDING} y1={y} x2={CHART_WIDTH - CHART_PADDING} y2={y} stroke="#e2e8f0" strokeDasharray="4 4" />
+                <text x={4} y={y} fontSize={10} fill="#94a3b8" dominantBaseline="middle">{level}</text>
+              </g>
+            );
+          })}
+          <polyline points={points.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke="#0f172a" strokeWidth={2} />
+          {points.map(({ x, y, version }, i) => (
+            <g key={version.id}>
+              <circle cx={x} cy={y} r={5} fill="#0f172a" />
+              <text x={x} y={y - 10} fontSize={11} fill="#334155" textAnchor="middle" fontWeight={600}>{version.viabilityScore}</text>
+              <text x={x} y={CHART_HEIGHT - 4} fontSize={10} fill="#94a3b8" textAnchor="middle">v{i + 1}</text>
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      {/* Versions, newest first */}
+      <div className="space-y-3">
+        {[...versions].reverse().map((version) => {
+          const index = versions.indexOf(version);
+          const previous = versions[index - 1];
+          const delta = previous ? version.viabilityScore - previous.viabilityScore : 0;
+          const verdictChanged = previous && previous.summaryVerdict !== version.summaryVerdict;
+
+          return (
+            <button
+              key={version.id}
+              type="button"
+              onClick={() => onSelect(version)}
+              className="w-full text-left group bg-white border border-slate-200 rounded-xl p-5 hover:border-slate-300 hover:shadow-md transition-all focus:outline-none focus:ring-2 focus:ring-slate-900"
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="text-xs font-bold text-slate-900">v{index + 1}</span>
+                    <span className={`inline-block w-2 h-2 rounded-full ${getVerdictDot(version.summaryVerdict)}`} />
+                    <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                      {version.summaryVerdict} · {new Date(version.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <h3 className="font-medium text-slate-900 mb-1 group-hover:text-blue-700 transition-colors">
+                    {version.oneLineTakeaway}
+                  </h3>
+                  {verdictChanged && (
+                    <p className="text-xs text-slate-500">Verdict changed from {previous.summaryVerdict} to {version.summaryVerdict}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <div className="text-right">
+                    <div className="font-bold text-xl text-slate-900">{version.viabilityScore}</div>
+                    {previous && (
+                      <div className={`text-xs font-semibold flex items-center justify-end gap-1 ${delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                        {delta > 0 ? <TrendingUp size={12} /> : delta < 0 ? <TrendingDown size={12} /> : <Minus size={12} />}
+                        {delta > 0 ? `+${delta}` : delta}
+                      </div>
+                    )}
+                  </div>
+                  <ArrowRight size={20} className="text-slate-300 group-hover:text-blue-500 transition-colors" />
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
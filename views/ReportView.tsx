@@ -1,7 +1,15 @@
-import React, { useRef, useState } from 'react';
-import { ValidationReport } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ValidationReport, AnalysisLens, ReportTranslation, EditableSection, CustomModelConfig, InterviewUpload, SurveyResponse, SUB_SCORE_DIMENSIONS, ANALYSIS_LENSES, REPORT_LANGUAGES, getLens, getReportLanguage } from '../types';
 import { Card } from '../components/Card';
 import { ScoreGauge } from '../components/ScoreGauge';
+import { DeckReview } from '../components/DeckReview';
+import { VerticalSection } from '../components/VerticalSection';
+import { CompetitorMatrix } from '../components/CompetitorMatrix';
+import { MarketSizing } from '../components/MarketSizing';
+import { UnitEconomics } from '../components/UnitEconomics';
+import { ExperimentTracker } from '../components/ExperimentTracker';
+import { InterviewKit } from '../components/InterviewKit';
+import { SurveyBuilder } from '../components/SurveyBuilder';
 import { Button } from '../components/Button';
 import { 
   CheckCircle2, 
@@ -10,24 +18,86 @@ import {
   RefreshCcw, 
   Download,
   Loader2,
-  MessageSquare
+  MessageSquare,
+  Pencil,
+  Layers,
+  FileText,
+  Presentation,
+  Glasses,
+  Languages,
+  Swords,
+  FlaskConical,
+  Mic,
+  ClipboardList
 } from 'lucide-react';
 import { jsPDF } from "jspdf";
 import html2canvas from "html2canvas";
 import ReactMarkdown from 'react-markdown';
 
+type ReportTab = 'report' | 'deck' | 'competitors' | 'experiments' | 'interviews' | 'survey';
+
 interface ReportViewProps {
   report: ValidationReport;
   onReset: () => void;
   onUpgrade: () => void;
   onChat: () => void;
+  onRefine: () => void;
+  onRerunWithLens: (lens: AnalysisLens) => void;
+  onTranslate: (language: string) => Promise<ReportTranslation>; // Stores the translated copy on the report
+  onSaveSection: <S extends EditableSection>(section: S, value: NonNullable<ValidationReport[S]>) => Promise<void>;
+  onGenerateInterviewScript: () => Promise<void>;
+  onAddInterview: (interview: InterviewUpload) => Promise<void>;
+  onDeleteInterview: (interviewId: string) => Promise<void>;
+  onGenerateSurvey: () => Promise<void>;
+  onImportSurveyResponses: (fileName: string, responses: SurveyResponse[]) => Promise<void>;
+  onViewProject?: () => void; // Set when the report has other versions
+  onRescoreWithEvidence?: () => void; // Set for reports saved to the user's account, which can track experiments
+  customModel?: CustomModelConfig; // Drafts experiments with the model the report was made with
+  email?: string; // Signed-in user, who owns the report's experiments
 }
 
-export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgrade, onChat }) => {
+export const ReportView: React.FC<ReportViewProps> = ({ report: originalReport, onReset, onUpgrade, onChat, onRefine, onRerunWithLens, onTranslate, onSaveSection, onGenerateInterviewScript, onAddInterview, onDeleteInterview, onGenerateSurvey, onImportSurveyResponses, onViewProject, onRescoreWithEvidence, customModel, email }) => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isShared, setIsShared] = useState(false);
+  const [activeTab, setActiveTab] = useState<ReportTab>('report');
+  // Language of the translated copy being shown; null shows the report as written
+  const [viewLanguage, setViewLanguage] = useState<string | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translateError, setTranslateError] = useState<string | null>(null);
   const reportRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    setViewLanguage(null);
+    setTranslateError(null);
+    setActiveTab('report');
+  }, [originalReport.id]);
+
+  // Everything below (including share and PDF) uses the translated copy when one is shown
+  const translation = originalReport.translations?.find(t => t.language === viewLanguage);
+  const report: ValidationReport = translation ? { ...originalReport, ...translation.report } : originalReport;
+  const lens = getLens(report.lens);
+  const originalLanguage = getReportLanguage(originalReport.language) || REPORT_LANGUAGES[0];
+
+  const handleLanguageChange = async (language: string) => {
+    setTranslateError(null);
+    if (language === originalLanguage.code) {
+      setViewLanguage(null);
+      return;
+    }
+    if (!originalReport.translations?.some(t => t.language === language)) {
+      setIsTranslating(true);
+      try {
+        await onTranslate(language);
+      } catch (e: any) {
+        setTranslateError(e.message || "Translation failed.");
+        setIsTranslating(false);
+        return;
+      }
+      setIsTranslating(false);
+    }
+    setViewLanguage(language);
+  };
+
   const getVerdictColor = (verdict: string) => {
     switch (verdict) {
       case 'Promising': return 'bg-emerald-100 text-emerald-800 border-emerald-200';
@@ -120,18 +190,45 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
           <Button variant="outline" size="sm" onClick={onReset} className="gap-2 flex-1 sm:flex-none justify-center">
             <RefreshCcw size={16} /> New Idea
           </Button>
+          <Button variant="outline" size="sm" onClick={onRefine} className="gap-2 flex-1 sm:flex-none justify-center">
+            <Pencil size={16} /> Refine & Re-run
+          </Button>
+          {onViewProject && (
+            <Button variant="outline" size="sm" onClick={onViewProject} className="gap-2 flex-1 sm:flex-none justify-center">
+              <Layers size={16} /> Versions
+            </Button>
+          )}
           <Button onClick={onChat} className="gap-2 flex-1 sm:flex-none justify-center bg-slate-900 text-white shadow-lg shadow-slate-900/20 hover:shadow-xl hover:shadow-slate-900/30 transition-all">
              <MessageSquare size={16} /> Deep Dive Chat
           </Button>
         </div>
         
         <div className="flex gap-2 w-full sm:w-auto">
+            {/* Translate Report: saved copies are marked, other languages are translated on first pick */}
+            <div className="relative flex-1 sm:flex-none">
+                <div className="absolute inset-y-0 left-0 pl-2.5 flex items-center pointer-events-none">
+                    {isTranslating ? <Loader2 size={14} className="animate-spin text-slate-500" /> : <Languages size={14} className="text-slate-500" />}
+                </div>
+                <select
+                    value={viewLanguage || originalLanguage.code}
+                    onChange={(e) => handleLanguageChange(e.target.value)}
+                    disabled={isTranslating}
+                    title="Translate report"
+                    className="h-full w-full bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 pl-8 pr-2 py-1.5 disabled:opacity-60"
+                >
+                    {REPORT_LANGUAGES.map(l => (
+                        <option key={l.code} value={l.code}>
+                            {l.nativeName}{l.code === originalLanguage.code ? ' (original)' : originalReport.translations?.some(t => t.language === l.code) ? ' ✓' : ''}
+                        </option>
+                    ))}
+                </select>
+            </div>
             <Button 
                 variant="outline" 
                 size="sm" 
                 className="gap-2 flex-1 sm:flex-none justify-center" 
                 onClick={handleDownloadPDF}
-                disabled={isDownloading}
+                disabled={isDownloading || activeTab !== 'report'}
             >
                 {isDownloading ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} 
                 {isDownloading ? "Generating..." : "PDF"}
@@ -148,14 +245,85 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
         </div>
       </div>
 
+      {translateError && (
+        <div className="flex items-center gap-2 p-3 mb-6 bg-rose-50 border border-rose-100 rounded-lg text-sm text-rose-700">
+          <AlertTriangle size={16} className="shrink-0" /> {translateError}
+        </div>
+      )}
+      {translation && (
+        <p className="text-xs text-slate-500 mb-6">
+          Translated into {getReportLanguage(translation.language)?.label} from {originalLanguage.label} on {new Date(translation.createdAt).toLocaleDateString()}.{' '}
+          <button type="button" onClick={() => setViewLanguage(null)} className="underline hover:text-slate-800">Show original</button>
+        </p>
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-1 p-1 bg-slate-100 rounded-lg w-fit mb-6">
+        {([
+          ['report', 'Report', FileText, true],
+          ['deck', 'Deck Review', Presentation, Boolean(report.deckReview)],
+          ['competitors', 'Competitors', Swords, Boolean(report.competitorMatrix)],
+          ['experiments', 'Experiments', FlaskConical, Boolean(onRescoreWithEvidence)],
+          ['interviews', 'Interviews', Mic, true],
+          ['survey', 'Survey', ClipboardList, true]
+        ] as const).filter(([, , , available]) => available).map(([tab, label, Icon]) => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => setActiveTab(tab)}
+            className={`flex items-center gap-1.5 px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${activeTab === tab ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+          >
+            <Icon size={14} /> {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'deck' && report.deckReview && <DeckReview review={report.deckReview} />}
+      {activeTab === 'competitors' && report.competitorMatrix && <CompetitorMatrix matrix={report.competitorMatrix} />}
+      {activeTab === 'experiments' && onRescoreWithEvidence && email && (
+        <ExperimentTracker reportId={report.id} email={email} customModel={customModel} onRescore={onRescoreWithEvidence} />
+      )}
+      {activeTab === 'interviews' && (
+        <InterviewKit
+          kit={originalReport.interviewKit}
+          onGenerateScript={onGenerateInterviewScript}
+          onAddInterview={onAddInterview}
+          onDeleteInterview={onDeleteInterview}
+        />
+      )}
+      {activeTab === 'survey' && (
+        <SurveyBuilder
+          survey={originalReport.survey}
+          onGenerate={onGenerateSurvey}
+          onImport={onImportSurveyResponses}
+          onRescore={onRescoreWithEvidence}
+        />
+      )}
+
       {/* Content to Print */}
+      {activeTab === 'report' && (
       <div ref={reportRef} id="report-content" className="space-y-8">
         {/* Main Verdict Card */}
         <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-8">
             <div className="flex flex-col md:flex-row gap-8 items-center">
             <div className="flex-1">
-                <div className={`inline-flex px-3 py-1 rounded-full text-sm font-semibold border mb-4 ${getVerdictColor(report.summaryVerdict)}`}>
-                {report.summaryVerdict.toUpperCase()}
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <div className={`inline-flex px-3 py-1 rounded-full text-sm font-semibold border ${getVerdictColor(report.summaryVerdict)}`}>
+                  {report.summaryVerdict.toUpperCase()}
+                  </div>
+                  {lens.id !== 'general' && (
+                    <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium border bg-slate-50 text-slate-700 border-slate-200" title={lens.description}>
+                      <Glasses size={14} /> {lens.label} lens
+                    </div>
+                  )}
+                  {report.evidenceFrom && (
+                    <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium border bg-slate-50 text-slate-700 border-slate-200">
+                      <FlaskConical size={14} /> Rescored with {[
+                        report.evidenceFrom.experiments > 0 && `${report.evidenceFrom.experiments} experiment${report.evidenceFrom.experiments === 1 ? '' : 's'}`,
+                        report.evidenceFrom.surveyResponses && `${report.evidenceFrom.surveyResponses} survey response${report.evidenceFrom.surveyResponses === 1 ? '' : 's'}`
+                      ].filter(Boolean).join(' and ')}
+                    </div>
+                  )}
                 </div>
                 <h1 className="text-3xl font-bold text-slate-900 mb-4">Idea Validation Report</h1>
                 <p className="text-xl text-slate-600 leading-relaxed font-medium">
@@ -163,7 +331,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
                 </p>
             </div>
             <div className="shrink-0">
-                <ScoreGauge score={report.viabilityScore} />
+                <ScoreGauge score={report.viabilityScore} subScores={report.subScores} margin={report.stability?.margin} />
             </div>
             </div>
         </div>
@@ -178,6 +346,142 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
               </div>
             </Card>
 
+            {/* Market Sizing (older reports have none) */}
+            {report.marketSizing && (
+              <MarketSizing sizing={report.marketSizing} onSave={sizing => onSaveSection('marketSizing', sizing)} className="md:col-span-2" />
+            )}
+
+            {/* Score Breakdown (older reports have no rubric) */}
+            {report.subScores && (
+              <Card title="Score Breakdown" className="md:col-span-2">
+                <div className="space-y-4">
+                  {SUB_SCORE_DIMENSIONS.map(({ id, label }) => {
+                    const subScore = report.subScores![id];
+                    const weight = lens.weights[id];
+                    if (!subScore) return null;
+                    const barColor = subScore.score >= 75 ? 'bg-emerald-500' : subScore.score < 40 ? 'bg-rose-500' : 'bg-amber-500';
+                    return (
+                      <div key={id}>
+                        <div className="flex justify-between items-baseline mb-1">
+                          <span className="text-sm font-semibold text-slate-900">
+                            {label} <span className="text-xs font-normal text-slate-400">· {Math.round(weight * 100)}% weight</span>
+                          </span>
+                          <span className="text-sm font-bold text-slate-700">{subScore.score}</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className={`h-full rounded-full ${barColor}`} style={{ width: `${subScore.score}%` }} />
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">{subScore.rationale}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-4 pt-4 border-t border-slate-100">
+                  <p className="text-xs text-slate-400">
+                    The viability score is the weighted average of these sub-scores, weighted for the {lens.label.toLowerCase()} lens.
+                  </p>
+                  {/* Left out of the PDF export */}
+                  <select
+                    data-html2canvas-ignore
+                    value=""
+                    onChange={(e) => onRerunWithLens(e.target.value as AnalysisLens)}
+                    className="bg-slate-50 border border-slate-200 text-slate-700 text-xs rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2"
+                  >
+                    <option value="" disabled>Re-run with another lens…</option>
+                    {ANALYSIS_LENSES.filter(l => l.id !== lens.id).map(l => (
+                      <option key={l.id} value={l.id}>{l.label} · {l.description}</option>
+                    ))}
+                  </select>
+                </div>
+              </Card>
+            )}
+
+            {/* Score Stability */}
+            {report.stability && (
+              <Card title="Score Stability" className="md:col-span-2">
+                <p className="text-sm text-slate-700 mb-4">
+                  Across {report.stability.samples} runs the score was <span className="font-bold">{Math.round(report.stability.mean)} ± {Math.round(report.stability.margin)}</span> (95% confidence).
+                </p>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {report.stability.scores.map((score, i) => (
+                    <span key={i} className="px-3 py-1 bg-slate-50 text-slate-700 text-xs font-medium rounded-full border border-slate-200">
+                      Run {i + 1}: {score}
+                    </span>
+                  ))}
+                </div>
+                {report.stability.unstableSections.length > 0 ? (
+                  <div className="pt-4 border-t border-slate-100">
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">Unstable sections</h4>
+                    <ul className="space-y-2">
+                      {report.stability.unstableSections.map((s, i) => (
+                        <li key={i} className="flex gap-3 items-start text-sm">
+                          <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                          <span className="text-slate-700"><span className="font-semibold">{s.section}:</span> {s.detail}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-400 pt-4 border-t border-slate-100">All sections were consistent across runs.</p>
+                )}
+              </Card>
+            )}
+
+            {/* Ensemble Consensus */}
+            {report.ensemble && (
+              <Card title="Model Consensus" className="md:col-span-2">
+                <div className="flex flex-wrap gap-6 mb-6">
+                  <div>
+                    <div className="text-xs font-bold text-slate-400 uppercase tracking-wide">Consensus score</div>
+                    <div className="text-2xl font-bold text-slate-900">{report.viabilityScore}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs font-bold text-slate-400 uppercase tracking-wide">Spread</div>
+                    <div className="text-2xl font-bold text-slate-900">
+                      {report.ensemble.scoreSpread.min}–{report.ensemble.scoreSpread.max}
+                      <span className="text-sm font-medium text-slate-400 ml-2">± {report.ensemble.scoreSpread.stdDev}</span>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-2 mb-6">
+                  {report.ensemble.models.map(m => (
+                    <div key={m.model} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100">
+                      <span className="text-sm font-medium text-slate-900 truncate">{m.model}</span>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${getVerdictColor(m.summaryVerdict)}`}>{m.summaryVerdict}</span>
+                        <span className="text-sm font-bold text-slate-700 w-8 text-right">{m.viabilityScore}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {report.ensemble.failedModels.map(m => (
+                    <div key={m.model} className="flex items-center justify-between p-3 bg-rose-50 rounded-lg border border-rose-100">
+                      <span className="text-sm font-medium text-slate-900 truncate">{m.model}</span>
+                      <span className="text-xs text-rose-600 truncate ml-3">Failed: {m.error}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {([
+                  ['Strengths only some models saw', report.ensemble.partialAgreement.pros],
+                  ['Risks only some models saw', report.ensemble.partialAgreement.cons],
+                  ['Competitors only some models named', report.ensemble.partialAgreement.competitors]
+                ] as const).filter(([, points]) => points.length > 0).map(([title, points]) => (
+                  <div key={title} className="pt-4 border-t border-slate-100 mt-4">
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">{title}</h4>
+                    <ul className="space-y-2">
+                      {points.map((point, i) => (
+                        <li key={i} className="text-sm text-slate-700">
+                          {point.text}
+                          <span className="block text-xs text-slate-400">{point.models.join(', ')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </Card>
+            )}
+
             {/* Pros */}
             <Card title="Strengths">
             <ul className="space-y-4">
@@ -239,6 +543,14 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
             </div>
             </Card>
 
+            {/* Unit Economics (older reports have none) */}
+            {report.unitEconomics && (
+              <UnitEconomics economics={report.unitEconomics} onSave={economics => onSaveSection('unitEconomics', economics)} className="md:col-span-2" />
+            )}
+
+            {/* Industry Vertical */}
+            <VerticalSection report={report} className="md:col-span-2" />
+
             {/* Next Steps */}
             <Card title="Action Plan" className="md:col-span-2 bg-slate-900 border-slate-900">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -265,6 +577,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, onUpgra
             <p className="text-slate-500 mb-6">Generated by ZauriScore.</p>
         </div>
       </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -3,7 +3,7 @@ import { Button } from '../components/Button';
 import { Card } from '../components/Card';
 import { Modal } from '../components/Modal';
 import { Download, Shield, Mail, User, Bell, Lock, Camera, CheckCircle2, AlertCircle, Loader2, AlertTriangle, FileArchive, Trash2, Key, Plus } from 'lucide-react';
-import { UserProfile, ValidationReport, CustomModelConfig } from '../types';
+import { UserProfile, ValidationReport, CustomModelConfig, REPORT_LANGUAGES } from '../types';
 import { jsPDF } from "jspdf";
 import JSZip from "jszip";
 
@@ -18,13 +18,28 @@ interface SettingsViewProps {
   isLifetime: boolean;
 }
 
-const PROVIDERS = ['Google', 'OpenAI', 'Anthropic', 'OpenRouter'];
+const PROVIDERS = ['Google', 'OpenAI', 'Anthropic', 'OpenRouter', 'OpenAI-Compatible'];
+
+// Providers whose model names are typed manually instead of picked from PROVIDER_MODELS
+const FREE_TEXT_MODEL_PROVIDERS = ['OpenRouter', 'OpenAI-Compatible'];
+
+// Parses "Header-Name: value" lines from the extra headers textarea
+const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+    }
+  });
+  return headers;
+};
 
 const PROVIDER_MODELS: Record<string, string[]> = {
   'Google': ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash-exp'],
   'OpenAI': ['gpt-4o', 'gpt-4o-mini', 'o1-mini'],
   'Anthropic': ['claude-3-5-sonnet', 'claude-3-haiku', 'claude-3-opus']
-  // OpenRouter models are typed manually due to the vast number of options
+  // OpenRouter and self-hosted models are typed manually due to the vast number of options
 };
 
 export const SettingsView: React.FC<SettingsViewProps> = ({ 
@@ -57,6 +72,13 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   const [newModelProvider, setNewModelProvider] = useState('');
   const [newModelName, setNewModelName] = useState('');
   const [newModelApiKey, setNewModelApiKey] = useState('');
+  const [newModelBaseUrl, setNewModelBaseUrl] = useState('');
+  const [newModelHeaders, setNewModelHeaders] = useState('');
+  const [newModelTokenBudget, setNewModelTokenBudget] = useState('');
+
+  const isCompatibleProvider = newModelProvider === 'OpenAI-Compatible';
+  // Self-hosted servers need a base URL instead of a mandatory API key
+  const canAddModel = !!newModelProvider && !!newModelName && (isCompatibleProvider ? !!newModelBaseUrl.trim() : !!newModelApiKey);
 
   // Delete Modal State
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -135,8 +157,17 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       });
   };
 
+  const handleReportLanguageChange = (reportLanguage: string) => {
+      onUpdateProfile({
+          preferences: {
+              ...(user?.preferences || { theme: 'light', emailNotifications: true, marketingEmails: false }),
+              reportLanguage
+          }
+      });
+  };
+
   const handleAddCustomModel = () => {
-      if (!newModelProvider || !newModelName || !newModelApiKey) return;
+      if (!canAddModel) return;
 
       const newModel: CustomModelConfig = {
           id: Date.now().toString(),
@@ -144,6 +175,14 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           model: newModelName.trim(),
           apiKey: newModelApiKey.trim()
       };
+      if (isCompatibleProvider) {
+          newModel.baseUrl = newModelBaseUrl.trim();
+          const headers = parseHeaderLines(newModelHeaders);
+          if (Object.keys(headers).length > 0) newModel.headers = headers;
+      }
+      // Attached documents longer than this are summarized before analysis
+      const tokenBudget = parseInt(newModelTokenBudget, 10);
+      if (tokenBudget > 0) newModel.documentTokenBudget = tokenBudget;
 
       const updatedModels = [...customModels, newModel];
       setCustomModels(updatedModels);
@@ -159,6 +198,9 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       setNewModelProvider('');
       setNewModelName('');
       setNewModelApiKey('');
+      setNewModelBaseUrl('');
+      setNewModelHeaders('');
+      setNewModelTokenBudget('');
       setIsAddModelModalOpen(false);
   };
 
@@ -251,6 +293,24 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
               </div>
             </Card>
 
+            <Card title="Report Language">
+              <div className="flex justify-between items-center gap-4">
+                <div>
+                  <h4 className="font-medium">Write reports in</h4>
+                  <p className="text-sm text-slate-500">New reports and Deep Dive Chat replies use this language. Existing reports can be translated from the report page.</p>
+                </div>
+                <select
+                  value={user?.preferences?.reportLanguage || 'en'}
+                  onChange={(e) => handleReportLanguageChange(e.target.value)}
+                  className="shrink-0 bg-white border border-slate-200 text-slate-700 text-sm rounded-lg focus:ring-slate-900 focus:border-slate-900 p-2"
+                >
+                  {REPORT_LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>{l.nativeName}</option>
+                  ))}
+                </select>
+              </div>
+            </Card>
+
             <Card title="Data Export">
               <div className="flex justify-between items-center">
                 <div>
@@ -371,7 +431,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                 <div className="flex justify-between items-center mb-6">
                     <div>
                         <h2 className="text-lg font-semibold text-slate-900">Custom Provider Models</h2>
-                        <p className="text-sm text-slate-500">Bring your own API keys to run analysis locally.</p>
+                        <p className="text-sm text-slate-500">Bring your own API keys or point to a self-hosted model server.</p>
                     </div>
                     <Button onClick={() => setIsAddModelModalOpen(true)} size="sm" className="gap-2 shrink-0">
                         <Plus size={16}/> Add Model
@@ -394,7 +454,9 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                                     <div>
                                         <h4 className="font-semibold text-slate-900">{model.provider} <span className="text-slate-400 font-normal ml-1">({model.model})</span></h4>
                                         <p className="text-xs text-slate-500 mt-0.5 font-mono">
-                                            {model.apiKey.substring(0, 4)}...{model.apiKey.substring(model.apiKey.length - 4)}
+                                            {model.baseUrl
+                                                ? model.baseUrl
+                                                : `${model.apiKey.substring(0, 4)}...${model.apiKey.substring(model.apiKey.length - 4)}`}
                                         </p>
                                     </div>
                                 </div>
@@ -501,11 +563,11 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                 <label className="block text-sm font-medium text-slate-300 mb-2">
                     <span className="text-rose-500 mr-1">*</span>Model
                 </label>
-                {newModelProvider === 'OpenRouter' ? (
+                {FREE_TEXT_MODEL_PROVIDERS.includes(newModelProvider) ? (
                     <input 
                         type="text" 
                         className="w-full bg-[#1e232b] border border-slate-700 text-slate-300 py-2.5 px-3 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-slate-500"
-                        placeholder="e.g. meta-llama/llama-3.3-70b-instruct"
+                        placeholder={isCompatibleProvider ? "e.g. llama3.1:8b" : "e.g. meta-llama/llama-3.3-70b-instruct"}
                         value={newModelName}
                         onChange={(e) => setNewModelName(e.target.value)}
                     />
@@ -529,25 +591,68 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                 )}
               </div>
 
+              {isCompatibleProvider && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <span className="text-rose-500 mr-1">*</span>Base URL
+                  </label>
+                  <input 
+                      type="url" 
+                      className="w-full bg-[#1e232b] border border-slate-700 text-slate-300 py-2.5 px-3 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-slate-500"
+                      placeholder="e.g. https://models.example.com/v1"
+                      value={newModelBaseUrl}
+                      onChange={(e) => setNewModelBaseUrl(e.target.value)}
+                  />
+                  <p className="text-xs text-slate-500 mt-1.5">Works with Ollama, llama.cpp, vLLM or any server exposing /chat/completions. Requests come from the ZauriScore server, so the address must be reachable from the internet.</p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
-                    <span className="text-rose-500 mr-1">*</span>API Key
+                    {!isCompatibleProvider && <span className="text-rose-500 mr-1">*</span>}API Key
                 </label>
                 <input 
                     type="password" 
                     className="w-full bg-[#1e232b] border border-slate-700 text-slate-300 py-2.5 px-3 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-slate-500"
-                    placeholder="Fill API Key here"
+                    placeholder={isCompatibleProvider ? "Optional" : "Fill API Key here"}
                     value={newModelApiKey}
                     onChange={(e) => setNewModelApiKey(e.target.value)}
                 />
               </div>
 
+              {isCompatibleProvider && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Extra Headers</label>
+                  <textarea 
+                      rows={2}
+                      className="w-full bg-[#1e232b] border border-slate-700 text-slate-300 py-2.5 px-3 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-slate-500 font-mono resize-none"
+                      placeholder="Header-Name: value (one per line)"
+                      value={newModelHeaders}
+                      onChange={(e) => setNewModelHeaders(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Document Token Budget</label>
+                <input 
+                    type="number" 
+                    min={500}
+                    step={500}
+                    className="w-full bg-[#1e232b] border border-slate-700 text-slate-300 py-2.5 px-3 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-slate-500"
+                    placeholder={isCompatibleProvider ? "Optional (default 6000)" : "Optional"}
+                    value={newModelTokenBudget}
+                    onChange={(e) => setNewModelTokenBudget(e.target.value)}
+                />
+                <p className="text-xs text-slate-500 mt-1.5">Longer attached documents are summarized in parts to fit this model's context window. Use it to lower the provider's default for models with small windows.</p>
+              </div>
+
             </div>
             
             <div className="p-5 pt-2">
                 <button 
                     onClick={handleAddCustomModel}
-                    disabled={!newModelProvider || !newModelName || !newModelApiKey}
+                    disabled={!canAddModel}
                     className="w-full bg-[#e2e8f0] hover:bg-white text-slate-900 font-medium py-2.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                 >
                     Add Model